@@ -0,0 +1,60 @@
+// accounts.test.ts
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  AccountRegistry, accountEnvironment, describeAccount, describeSession, environmentCredentials, parseWhoami, validateAccount,
+} from '../accounts';
+import { StateStore } from '../state';
+import { createProject, removeProject } from './helpers';
+
+const prod = { name: 'acme-prod', accountId: '1234-abcd', apiKeyVariable: 'CHECKLY_API_KEY_PROD' };
+
+describe('accounts', () => {
+  test('are validated', () => {
+    assert.deepEqual(validateAccount(prod), []);
+    assert.equal(validateAccount({ ...prod, name: 'acme prod' }).length, 1);
+    assert.equal(validateAccount({ ...prod, apiKeyVariable: 'not a variable' }).length, 1);
+    assert.deepEqual(validateAccount({ ...prod, apiKeyVariable: null }), []);
+  });
+
+  test('set the account id and read the key from their variable', () => {
+    assert.deepEqual(accountEnvironment(prod, { CHECKLY_API_KEY_PROD: 'secret' }), { CHECKLY_ACCOUNT_ID: '1234-abcd', CHECKLY_API_KEY: 'secret' });
+    // the key of another account in CHECKLY_API_KEY is never paired with this account's id
+    const ambient = { CHECKLY_API_KEY: 'other-account' };
+    assert.deepEqual(accountEnvironment(prod, ambient), { CHECKLY_ACCOUNT_ID: '1234-abcd', CHECKLY_API_KEY: '' });
+    assert.deepEqual(accountEnvironment({ ...prod, apiKeyVariable: null }, ambient), { CHECKLY_ACCOUNT_ID: '1234-abcd', CHECKLY_API_KEY: '' });
+  });
+
+  test('tell complete environment credentials from partial ones', () => {
+    assert.equal(environmentCredentials({ CHECKLY_API_KEY: 'k', CHECKLY_ACCOUNT_ID: 'a' }), 'complete');
+    assert.equal(environmentCredentials({ CHECKLY_API_KEY: 'k' }), 'partial');
+    assert.equal(environmentCredentials({}), 'none');
+  });
+
+  test('are read from the whoami output', () => {
+    const session = parseWhoami('\u001b[1mYou are currently on account "Acme" (1234-abcd) as Jane Doe.\u001b[22m\n', 'login');
+    assert.deepEqual(session, { accountName: 'Acme', accountId: '1234-abcd', userName: 'Jane Doe', source: 'login' });
+    assert.equal(parseWhoami('Not logged in', 'login'), null);
+    assert.equal(describeSession({ ...session!, source: 'account' }, prod), 'Acme (1234-abcd) as Jane Doe, from saved account "acme-prod"');
+    assert.equal(describeAccount({ ...prod, apiKeyVariable: null }), 'acme-prod: 1234-abcd, API key from checkly login');
+  });
+});
+
+describe('AccountRegistry', () => {
+  test('saves accounts and clears the active one when it is removed', () => {
+    const root = createProject();
+    try {
+      const accounts = new AccountRegistry(new StateStore(root));
+      assert.throws(() => accounts.put({ ...prod, accountId: '' }), /Invalid account/);
+      accounts.put(prod);
+      accounts.setActive('acme-prod');
+      assert.equal(accounts.getActive()?.accountId, '1234-abcd');
+      assert.throws(() => accounts.setActive('other'), /No account named/);
+      assert.equal(accounts.remove('acme-prod'), true);
+      assert.equal(accounts.remove('acme-prod'), false);
+      assert.equal(accounts.getActive(), null);
+    } finally {
+      removeProject(root);
+    }
+  });
+});
@@ -0,0 +1,55 @@
+// alert-channel.test.ts
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import ts from 'typescript';
+import { AlertChannelConfig, literal, missingChannelSecrets, renderAlertChannelsModule, secretVariable, validateAlertChannel } from '../alert-channel';
+
+// The value of a generated literal, as the compiled code would see it
+const evaluate = (code: string) => new Function(`return ${code};`)();
+
+describe('literal', () => {
+  test('keeps strings on one line and reads back as the same value', () => {
+    for (const value of ["it's", 'C:\\checks', 'line one\nline two', 'windows\r\nline', 'separators \u2028 and \u2029', '${not} `a template`']) {
+      const code = literal(value);
+      assert.equal(code.split(/[\n\r\u2028\u2029]/).length, 1, code);
+      assert.equal(evaluate(code), value);
+    }
+    assert.equal(literal(true), 'true');
+    assert.equal(literal(30), '30');
+  });
+
+  test('renders channels with multi-line settings as valid code', () => {
+    const webhook: AlertChannelConfig = {
+      id: 'webhook-ops',
+      type: 'webhook',
+      sendFailure: true,
+      sendRecovery: true,
+      sendDegraded: false,
+      settings: { name: 'Ops', url: 'OPS_WEBHOOK_URL', method: 'POST', template: '{\n  "check": "{{CHECK_NAME}}",\r\n  "note": "it\'s down"\n}' },
+    };
+    const code = renderAlertChannelsModule([webhook]);
+    const { diagnostics } = ts.transpileModule(code, { reportDiagnostics: true });
+    assert.deepEqual(diagnostics, []);
+    const templateLine = code.split('\n').find((line) => line.startsWith('  template: '))!;
+    assert.equal(evaluate(templateLine.replace(/^ {2}template: /, '').replace(/,$/, '')), webhook.settings.template);
+  });
+});
+
+describe('alert channel secrets', () => {
+  const pagerduty: AlertChannelConfig = { id: 'pagerduty-ops', type: 'pagerduty', sendFailure: true, sendRecovery: true, sendDegraded: false, settings: { serviceKey: 'PAGERDUTY_OPS_KEY' } };
+
+  test('are read from the environment by the generated code', () => {
+    const code = renderAlertChannelsModule([pagerduty]);
+    assert.match(code, /  serviceKey: process\.env\.PAGERDUTY_OPS_KEY \?\? '',/);
+    assert.deepEqual(missingChannelSecrets([pagerduty], {}), ['PAGERDUTY_OPS_KEY']);
+    assert.deepEqual(missingChannelSecrets([pagerduty], { PAGERDUTY_OPS_KEY: 'key' }), []);
+  });
+
+  test('must name an environment variable', () => {
+    assert.deepEqual(validateAlertChannel(pagerduty), []);
+    assert.deepEqual(validateAlertChannel({ ...pagerduty, settings: { serviceKey: 'a1b2-c3d4' } }), [
+      'Invalid serviceKey, give the name of the environment variable holding it, e.g. PAGERDUTY_OPS_SERVICE_KEY.',
+    ]);
+    assert.equal(secretVariable('slack-ops', 'url'), 'SLACK_OPS_URL');
+  });
+});
@@ -0,0 +1,64 @@
+// alert-policy.test.ts
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  assertValidAlertPolicy, defaultAlertPolicy, describeAlertPolicy, formatEscalation, loadAlertPolicy, parseEscalation, renderEscalation,
+  saveAlertPolicy, validateEscalation,
+} from '../alert-policy';
+import { StateStore } from '../state';
+import { createProject, removeProject } from './helpers';
+
+describe('escalation', () => {
+  test('parses and formats the colon form', () => {
+    assert.deepEqual(parseEscalation('run:2'), { type: 'run', threshold: 2, reminders: 0, reminderInterval: 5, failingLocations: null });
+    assert.deepEqual(parseEscalation('time:10:3:15:50'), { type: 'time', threshold: 10, reminders: 3, reminderInterval: 15, failingLocations: 50 });
+    assert.equal(parseEscalation('default'), null);
+    assert.equal(formatEscalation(parseEscalation('run:2')), 'run:2');
+    assert.equal(formatEscalation(parseEscalation('run:1:2:10')), 'run:1:2:10');
+    assert.equal(formatEscalation(parseEscalation('time:10:3:15:50')), 'time:10:3:15:50');
+    assert.equal(formatEscalation(null), 'default');
+  });
+
+  test('is validated against the values Checkly accepts', () => {
+    assert.deepEqual(validateEscalation(parseEscalation('run:5:5:30:100')!), []);
+    assert.deepEqual(validateEscalation(parseEscalation('time:7:6:20:55')!), [
+      'Time-based escalation alerts after 5, 10, 15, 30 minutes.',
+      'Reminders must be between 0 and 5.',
+      'Reminders are sent every 5, 10, 15, 30 minutes.',
+      'The failing locations percentage must be 10, 20, ... or 100.',
+    ]);
+    assert.deepEqual(validateEscalation(parseEscalation('often:1')!), ['Invalid escalation "often". Use run or time.']);
+  });
+
+  test('renders an AlertEscalationBuilder call', () => {
+    assert.equal(renderEscalation(parseEscalation('run:2')!), 'AlertEscalationBuilder.runBasedEscalation(2, { amount: 0, interval: 5 })');
+    assert.equal(
+      renderEscalation(parseEscalation('time:10:3:15:50')!),
+      'AlertEscalationBuilder.timeBasedEscalation(10, { amount: 3, interval: 15 }, { enabled: true, percentage: 50 })'
+    );
+  });
+});
+
+describe('alert policy', () => {
+  test('is validated', () => {
+    assert.doesNotThrow(() => assertValidAlertPolicy(defaultAlertPolicy));
+    assert.throws(() => assertValidAlertPolicy({ ...defaultAlertPolicy, escalation: parseEscalation('run:9') }), /Invalid alert policy: Run-based/);
+    assert.throws(() => assertValidAlertPolicy({ ...defaultAlertPolicy, notifications: { ...defaultAlertPolicy.notifications, sslExpiryThreshold: 45 } }), /SSL expiry threshold/);
+  });
+
+  test('is saved in the state', () => {
+    const root = createProject();
+    try {
+      const store = new StateStore(root);
+      assert.deepEqual(loadAlertPolicy(store), defaultAlertPolicy);
+      saveAlertPolicy(store, { escalation: parseEscalation('run:3:2:10'), notifications: { ...defaultAlertPolicy.notifications, sendDegraded: true, sslExpiry: true, sslExpiryThreshold: 14 } });
+      assert.deepEqual(describeAlertPolicy(loadAlertPolicy(store)), [
+        'Escalation: after 3 failed run(s), 2 reminder(s) every 10 minutes',
+        'Notify on: failure, recovery, degraded',
+        'SSL expiry alerts: 14 days before',
+      ]);
+    } finally {
+      removeProject(root);
+    }
+  });
+});
@@ -0,0 +1,48 @@
+// checkly-runs.test.ts
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { checklyRunArgs, formatCheckRunResults, readChecklyReport, toTestResults } from '../checkly-runs';
+import { checklyReport, createProject, removeProject } from './helpers';
+
+describe('checklyRunArgs', () => {
+  test('builds recorded JSON runs with the filters', () => {
+    assert.deepEqual(checklyRunArgs('test', 'eu-west-1', { tags: ['smoke', 'web'], grep: 'login' }), [
+      'checkly', 'test', '--reporter', 'json', '--record', '--location', 'eu-west-1', '--tags', 'smoke,web', '--grep', 'login',
+    ]);
+    assert.deepEqual(checklyRunArgs('trigger', null, { grep: 'login' }), ['checkly', 'trigger', '--reporter', 'json', '--record']);
+  });
+});
+
+describe('Checkly reports', () => {
+  test('are read and turned into test results', () => {
+    const root = createProject({
+      'report.json': checklyReport('eu-west-1', [
+        { name: 'login', passed: true },
+        { name: 'cart', passed: true, retries: 1 },
+        { name: 'checkout', passed: false, error: 'Timeout 30000ms exceeded.\n  at checkout.spec.ts:4' },
+      ]),
+    });
+    try {
+      const runs = readChecklyReport(path.join(root, 'report.json'));
+      assert.equal(runs[2].error, 'Timeout 30000ms exceeded.');
+      assert.deepEqual(toTestResults(runs).map((result) => [result.file, result.project, result.outcome]), [
+        ['tests/login.spec.ts', 'eu-west-1', 'passed'],
+        ['tests/cart.spec.ts', 'eu-west-1', 'flaky'],
+        ['tests/checkout.spec.ts', 'eu-west-1', 'failed'],
+      ]);
+
+      const table = formatCheckRunResults(runs);
+      assert.equal(table[0], 'Check     Location   Result   Duration');
+      assert.equal(table[1], 'login     eu-west-1  ✓ pass       1.5s');
+      assert.ok(table.includes('  Timeout 30000ms exceeded.'));
+      assert.equal(table[table.length - 1], '1 passed, 1 failed, 1 flaky.');
+    } finally {
+      removeProject(root);
+    }
+  });
+
+  test('without checks say so', () => {
+    assert.deepEqual(formatCheckRunResults([]), ['Checkly ran no checks.']);
+  });
+});
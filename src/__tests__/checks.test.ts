@@ -0,0 +1,98 @@
+// checks.test.ts
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs-extra';
+import path from 'path';
+import {
+  CheckRegistry, checkFilePath, checkFileStatus, checkLogicalId, defaultCheckSettings, describeRetryStrategy, parseRetryStrategy,
+  renderCheckFile, validateCheckSettings,
+} from '../checks';
+import { StateStore } from '../state';
+import type { AlertChannelConfig } from '../alert-channel';
+import { parseEscalation } from '../alert-policy';
+import { createProject, removeProject } from './helpers';
+
+const suite = { name: 'checkout', folder: '/p/tests', originalFolder: '/p/original', testMatch: '**/*.spec.ts', alertChannels: [] };
+const slack: AlertChannelConfig = { id: 'slack-ops', type: 'slack', sendFailure: true, sendRecovery: true, sendDegraded: false, settings: { url: 'https://hooks.slack.com/x' } };
+const modules = { suitesModule: '/p/suites.check.ts', alertChannelsModule: '/p/alert-channels.ts' };
+
+describe('check settings', () => {
+  test('default to a name from the file', () => {
+    assert.equal(defaultCheckSettings('checkout', 'cart/apply-coupon.spec.ts').name, 'Apply Coupon');
+  });
+
+  test('are validated', () => {
+    const settings = defaultCheckSettings('checkout', 'a.spec.ts');
+    assert.deepEqual(validateCheckSettings(settings), []);
+    assert.equal(validateCheckSettings({ ...settings, frequency: 7 }).length, 1);
+    assert.equal(validateCheckSettings({ ...settings, locations: ['EU West'] }).length, 1);
+    assert.equal(validateCheckSettings({ ...settings, retryStrategy: { type: 'fixed', maxRetries: 11 } }).length, 1);
+    assert.deepEqual(validateCheckSettings({ ...settings, alertEscalation: parseEscalation('run:2:9') }), ['Reminders must be between 0 and 5.']);
+  });
+
+  test('parse and describe retry strategies', () => {
+    assert.deepEqual(parseRetryStrategy('fixed:2:30'), { type: 'fixed', maxRetries: 2, baseBackoffSeconds: 30 });
+    assert.equal(parseRetryStrategy('default'), null);
+    assert.equal(describeRetryStrategy(parseRetryStrategy('linear:3')), 'linear:3');
+    assert.equal(describeRetryStrategy(null), 'default');
+  });
+});
+
+describe('check files', () => {
+  test('live next to the spec', () => {
+    assert.equal(checkFilePath(suite, 'cart/login.spec.ts'), path.join('/p/tests', 'cart', 'login.check.ts'));
+    assert.equal(checkLogicalId({ suite: 'checkout', file: 'cart/Login.spec.ts' }), 'check-checkout-cart-login-spec-ts');
+  });
+
+  test('render the settings as a BrowserCheck', () => {
+    const settings = { ...defaultCheckSettings('checkout', 'cart/login.spec.ts'), frequency: 5, locations: ['eu-west-1'], retryStrategy: parseRetryStrategy('fixed:2:30'), alertChannels: ['slack-ops'] };
+    const source = renderCheckFile(settings, suite, [slack], modules);
+    assert.match(source, /import \{ BrowserCheck, Frequency, RetryStrategyBuilder \} from 'checkly\/constructs';/);
+    assert.match(source, /from '\.\.\/\.\.\/suites\.check';/);
+    assert.match(source, /code: \{ entrypoint: '\.\/login\.spec\.ts' \},/);
+    assert.match(source, /frequency: Frequency\.EVERY_5M,/);
+    assert.match(source, /retryStrategy: RetryStrategyBuilder\.fixedStrategy\(\{ maxRetries: 2, baseBackoffSeconds: 30 \}\),/);
+    assert.match(source, /alertChannels: \[/);
+  });
+
+  test('render their own alert escalation', () => {
+    const settings = { ...defaultCheckSettings('checkout', 'login.spec.ts'), alertEscalation: parseEscalation('run:2:1:10:50') };
+    const source = renderCheckFile(settings, suite, [], modules);
+    assert.match(source, /import \{ BrowserCheck, AlertEscalationBuilder \} from 'checkly\/constructs';/);
+    assert.match(source, /  alertEscalationPolicy: AlertEscalationBuilder\.runBasedEscalation\(2, \{ amount: 1, interval: 10 \}, \{ enabled: true, percentage: 50 \}\),/);
+  });
+
+  test('tell generated files from edited ones', () => {
+    const root = createProject();
+    try {
+      const file = path.join(root, 'login.check.ts');
+      assert.equal(checkFileStatus(file), 'missing');
+      fs.writeFileSync(file, renderCheckFile(defaultCheckSettings('checkout', 'login.spec.ts'), suite, [], modules));
+      assert.equal(checkFileStatus(file), 'generated');
+      fs.appendFileSync(file, '// tweaked\n');
+      assert.equal(checkFileStatus(file), 'edited');
+    } finally {
+      removeProject(root);
+    }
+  });
+});
+
+describe('CheckRegistry', () => {
+  test('puts, replaces and removes settings per suite', () => {
+    const root = createProject();
+    try {
+      const checks = new CheckRegistry(new StateStore(root));
+      checks.put(defaultCheckSettings('checkout', 'a.spec.ts'));
+      checks.put({ ...defaultCheckSettings('checkout', 'a.spec.ts'), name: 'Renamed' });
+      checks.put(defaultCheckSettings('smoke', 'b.spec.ts'));
+      assert.equal(checks.list('checkout').length, 1);
+      assert.equal(checks.get('checkout', 'a.spec.ts')?.name, 'Renamed');
+      assert.throws(() => checks.put({ ...defaultCheckSettings('smoke', 'c.spec.ts'), name: '' }), /needs a name/);
+      checks.removeSuite('smoke');
+      assert.equal(checks.remove('checkout', 'a.spec.ts'), true);
+      assert.deepEqual(checks.list(), []);
+    } finally {
+      removeProject(root);
+    }
+  });
+});
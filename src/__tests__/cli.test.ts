@@ -0,0 +1,190 @@
+// cli.test.ts
+import { test, describe, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs-extra';
+import path from 'path';
+import { ExitCode, runCli } from '../cli';
+import { TestManager } from '../main';
+import { captureConsole, createProject, exampleSpec, FakeRunner, playwrightReport, removeProject, scriptedPrompts } from './helpers';
+
+let root: string;
+let runner: FakeRunner;
+let output: ReturnType<typeof captureConsole>;
+
+// Every command runs on a new manager, like separate `npm start -- ...` calls; none of them may prompt
+const cli = (...argv: string[]) => runCli(new TestManager({ cwd: root, runner, prompt: scriptedPrompts([]).prompt }), argv);
+
+beforeEach(() => {
+  root = createProject({ 'source/smoke/home.spec.ts': exampleSpec });
+  runner = new FakeRunner().on('git', { exitCode: 128 });
+  output = captureConsole();
+});
+afterEach(() => {
+  mock.restoreAll();
+  removeProject(root);
+});
+
+describe('runCli', () => {
+  test('prints the usage and rejects unknown commands and flags', async () => {
+    assert.equal(await cli('help'), ExitCode.Success);
+    assert.match(output.text(), /Usage: npm start -- <command> \[options\]/);
+    assert.equal(await cli('launch'), ExitCode.Usage);
+    assert.equal(await cli('deploy', '--now'), ExitCode.Usage);
+  });
+
+  test('sets the folder and reports it in the status', async () => {
+    assert.equal(await cli('folder', 'set', 'source/smoke'), ExitCode.Success);
+    assert.equal(await cli('alerts', 'email', 'add', 'alerts@example.com'), ExitCode.Success);
+    output.lines.length = 0;
+    assert.equal(await cli('status', '--json'), ExitCode.Success);
+    const status = JSON.parse(output.text());
+    assert.equal(status.activeSuite, 'smoke');
+    assert.equal(status.email, 'alerts@example.com');
+    assert.deepEqual(status.tests, ['home.spec.ts']);
+  });
+
+  test('uses --suite for the command only', async () => {
+    fs.outputFileSync(path.join(root, 'source', 'cart', 'cart.spec.ts'), exampleSpec);
+    await cli('folder', 'set', 'source/smoke');
+    await cli('folder', 'set', 'source/cart');
+    const playwrightConfig = fs.readFileSync(path.join(root, 'playwright.config.ts'), 'utf-8');
+    output.lines.length = 0;
+    assert.equal(await cli('status', '--json', '--suite', 'smoke'), ExitCode.Success);
+    const status = JSON.parse(output.text());
+    assert.equal(status.activeSuite, 'smoke');
+    assert.deepEqual(status.tests, ['home.spec.ts']);
+    assert.equal(fs.readJsonSync(path.join(root, '.checkly-manager', 'state.json')).activeSuite, 'cart');
+    assert.equal(fs.readFileSync(path.join(root, 'playwright.config.ts'), 'utf-8'), playwrightConfig);
+  });
+
+  test('lists the tests matching a tag', async () => {
+    await cli('folder', 'set', 'source/smoke');
+    output.lines.length = 0;
+    assert.equal(await cli('tests', '--json', '--tag', 'catalog'), ExitCode.Success);
+    assert.deepEqual(JSON.parse(output.text()).map((found: { titlePath: string[] }) => found.titlePath), [['home page', 'lists products']]);
+  });
+
+  test('exits with 3 when failing tests block a deploy', async () => {
+    runner.on('npx playwright test', (_args, options) => {
+      fs.writeFileSync(options.env!.PLAYWRIGHT_JSON_OUTPUT_NAME!, playwrightReport('home.spec.ts', [{ title: 'has a title', status: 'unexpected' }]));
+      return { exitCode: 1 };
+    });
+    await cli('folder', 'set', 'source/smoke');
+    assert.equal(await cli('deploy', '--yes', '--fail-on-test-failure'), ExitCode.TestsFailed);
+    assert.equal(runner.callsTo('npx checkly deploy').length, 0);
+  });
+
+  test('runs with a --profile without rewriting the configs', async () => {
+    let runConfig = '';
+    runner.on('npx playwright test', (args, options) => {
+      runConfig = fs.readFileSync(path.join(root, args[args.indexOf('--config') + 1]), 'utf-8');
+      fs.writeFileSync(options.env!.PLAYWRIGHT_JSON_OUTPUT_NAME!, playwrightReport('home.spec.ts', [{ title: 'has a title', status: 'expected' }]));
+      return {};
+    });
+    await cli('folder', 'set', 'source/smoke');
+    assert.equal(await cli('profiles', 'add', 'prod', '--base-url', 'https://example.com'), ExitCode.Success);
+    const config = fs.readFileSync(path.join(root, 'playwright.config.ts'), 'utf-8');
+
+    assert.equal(await cli('run', '--profile', 'prod'), ExitCode.Success);
+    assert.equal(fs.readFileSync(path.join(root, 'playwright.config.ts'), 'utf-8'), config);
+    assert.equal(runner.callsTo('npx playwright test')[0].options.env?.BASE_URL, 'https://example.com');
+    assert.match(runConfig, /use: \{ \.\.\.config\.use, baseURL: process\.env\.BASE_URL \}/);
+    assert.ok(!fs.existsSync(path.join(root, 'playwright.checkly-manager.config.ts'))); // removed after the run
+  });
+
+  test('validates the project as JSON', async () => {
+    await cli('folder', 'set', 'source/smoke');
+    fs.writeFileSync(path.join(root, 'smoke', 'left.spec.ts'), "import left from 'left-pad';\n");
+    output.lines.length = 0;
+    assert.equal(await cli('validate', '--json'), ExitCode.Failure);
+    assert.deepEqual(JSON.parse(output.text()).map((diagnostic: { rule: string; file: string; line: number }) => [diagnostic.rule, diagnostic.file, diagnostic.line]), [
+      ['dependency', 'smoke/left.spec.ts', 1],
+    ]);
+  });
+
+  test('saves the policy and rejects invalid values', async () => {
+    assert.equal(await cli('policy', 'set', '--min-pass-rate', '90', '--test-runner', 'checkly'), ExitCode.Success);
+    assert.equal(await cli('policy', 'set', '--test-runner', 'jest'), ExitCode.Usage);
+    const manager = new TestManager({ cwd: root, runner });
+    assert.equal(manager.getDeployPolicy().minPassRate, 90);
+    assert.equal(manager.getDeployPolicy().testRunner, 'checkly');
+  });
+
+  test('saves the alert policy and uses it for new channels and checks', async () => {
+    await cli('folder', 'set', 'source/smoke');
+    assert.equal(await cli('alerts', 'policy', 'set', '--escalation', 'time:10:2:15:50', '--send-degraded', 'true', '--ssl-expiry', '7'), ExitCode.Success);
+    assert.equal(await cli('alerts', 'policy', 'set', '--escalation', 'run:9'), ExitCode.Usage);
+    assert.equal(await cli('alerts', 'add', 'slack', 'slack-ops', '--set', 'url=https://hooks.slack.com/x'), ExitCode.Failure);
+    assert.doesNotMatch(output.text(), /hooks\.slack\.com/); // a pasted secret is never echoed
+    assert.equal(await cli('alerts', 'add', 'slack', 'slack-ops', '--set', 'url=SLACK_OPS_URL'), ExitCode.Success);
+    assert.match(fs.readFileSync(path.join(root, 'alert-channels.ts'), 'utf-8'), /  url: process\.env\.SLACK_OPS_URL \?\? '',/);
+    assert.equal(await cli('checks', 'set', 'home.spec.ts', '--escalation', 'run:1'), ExitCode.Success);
+
+    output.lines.length = 0;
+    assert.equal(await cli('alerts', 'list', '--json'), ExitCode.Success);
+    const [channel] = JSON.parse(output.text());
+    assert.deepEqual([channel.sendDegraded, channel.sslExpiry, channel.sslExpiryThreshold], [true, true, 7]);
+    assert.match(fs.readFileSync(path.join(root, 'smoke', 'home.check.ts'), 'utf-8'), /alertEscalationPolicy: AlertEscalationBuilder\.runBasedEscalation\(1, /);
+  });
+
+  test('lists, diffs and restores config backups', async () => {
+    await cli('folder', 'set', 'source/smoke');
+    output.lines.length = 0;
+    assert.equal(await cli('backups', '--json'), ExitCode.Success);
+    const [backup] = JSON.parse(output.text());
+    assert.equal(backup.file, 'playwright.config.ts');
+
+    output.lines.length = 0;
+    assert.equal(await cli('backups', 'diff', String(backup.id)), ExitCode.Success);
+    assert.match(output.text(), /- .*testDir: '.*smoke'/);
+    assert.equal(await cli('backups', 'restore', String(backup.id)), ExitCode.Success);
+    assert.equal(await cli('backups', 'restore', '99'), ExitCode.Failure);
+    assert.equal(await cli('backups', 'restore', 'latest'), ExitCode.Usage);
+  });
+
+  test('shows and changes the project settings', async () => {
+    assert.equal(await cli('settings', 'set', '--frequency', '60', '--runtime', 'default', '--retries', 'none', '--tags', ''), ExitCode.Success);
+    assert.equal(await cli('settings', 'set', '--runtime', '2020.01'), ExitCode.Failure);
+    assert.equal(await cli('settings', 'set', '--frequency', '7'), ExitCode.Usage);
+    assert.equal(await cli('settings', 'set'), ExitCode.Usage);
+
+    output.lines.length = 0;
+    assert.equal(await cli('settings', '--json'), ExitCode.Success);
+    assert.deepEqual(JSON.parse(output.text()), {
+      frequency: 60,
+      locations: ['us-east-1', 'eu-west-1'],
+      privateLocations: [],
+      runtimeId: null,
+      retryStrategy: { type: 'none' },
+      tags: [],
+    });
+  });
+
+  test('writes the report to a folder and prints the Markdown summary', async () => {
+    await cli('folder', 'set', 'source/smoke');
+    output.lines.length = 0;
+    assert.equal(await cli('report', '--out', 'reports', '--markdown'), ExitCode.Success);
+    assert.ok(fs.existsSync(path.join(root, 'reports', 'report.html')));
+    assert.match(output.text(), /## Checkly monitoring report[^]*No local Playwright results yet\./);
+  });
+
+  test('creates a check from the flags', async () => {
+    await cli('folder', 'set', 'source/smoke');
+    assert.equal(await cli('new', 'api', 'Health', '--url', 'https://api.example.com/health', '--assert', 'status=204'), ExitCode.Success);
+    assert.match(fs.readFileSync(path.join(root, 'smoke', 'health.check.ts'), 'utf-8'), /AssertionBuilder\.statusCode\(\)\.equals\(204\)/);
+    assert.equal(await cli('new', 'api', 'Other', '--url', 'https://api.example.com', '--assert', 'title=Shop'), ExitCode.Failure);
+    assert.equal(await cli('new', 'graphql', 'Other'), ExitCode.Usage);
+    assert.equal(await cli('new', 'api', 'Other', '--assert', 'status'), ExitCode.Usage);
+  });
+
+  test('uses an account for one command only', async () => {
+    runner.on('npx checkly whoami', { output: 'You are currently on account "Acme" (1234-abcd) as Jane Doe.' });
+    assert.equal(await cli('accounts', 'add', 'acme', '--account-id', '1234-abcd'), ExitCode.Success);
+    assert.equal(await cli('status', '--account', 'missing'), ExitCode.Failure);
+    assert.equal(await cli('checkly', 'trigger', '--account', 'acme'), ExitCode.TestsFailed); // no report written
+    assert.equal(runner.callsTo('npx checkly trigger')[0].options.env?.CHECKLY_ACCOUNT_ID, '1234-abcd');
+    output.lines.length = 0;
+    await cli('status', '--json');
+    assert.equal(JSON.parse(output.text()).account, null);
+  });
+});
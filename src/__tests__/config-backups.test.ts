@@ -0,0 +1,46 @@
+// config-backups.test.ts
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs-extra';
+import path from 'path';
+import { ConfigBackupStore, describeBackup, diffLines, formatDiff } from '../config-backups';
+import { StateStore } from '../state';
+import { createProject, removeProject } from './helpers';
+
+describe('diffLines', () => {
+  test('keeps the common lines and marks the changed ones', () => {
+    assert.deepEqual(diffLines('a\nb\nc', 'a\nx\nc\nd'), [
+      { kind: ' ', text: 'a' },
+      { kind: '-', text: 'b' },
+      { kind: '+', text: 'x' },
+      { kind: ' ', text: 'c' },
+      { kind: '+', text: 'd' },
+    ]);
+    assert.deepEqual(formatDiff(diffLines('same', 'same')), []);
+  });
+
+  test('shows the changes with some context', () => {
+    const before = ['1', '2', '3', '4', '5', '6', '7', '8'].join('\n');
+    assert.deepEqual(formatDiff(diffLines(before, before.replace('7', 'seven')), 1), ['  ...', '  6', '- 7', '+ seven', '  8']);
+  });
+});
+
+describe('ConfigBackupStore', () => {
+  test('copies the previous content and keeps the newest backups', () => {
+    const root = createProject();
+    try {
+      const backups = new ConfigBackupStore(new StateStore(root), root, 2);
+      const configPath = path.join(root, 'checkly.config.ts');
+      for (const version of ['one', 'two', 'three']) backups.add(configPath, version, `write ${version}`);
+
+      const [second, third] = backups.list();
+      assert.deepEqual(backups.list().map((backup) => backup.id), [2, 3]);
+      assert.equal(backups.read(third), 'three');
+      assert.equal(backups.filePath(second), configPath);
+      assert.match(describeBackup(second), /^#2 \d{4}-\d\d-\d\d \d\d:\d\d:\d\d checkly\.config\.ts \(before: write two\)$/);
+      assert.equal(fs.readdirSync(backups.folder).length, 2);
+    } finally {
+      removeProject(root);
+    }
+  });
+});
@@ -0,0 +1,102 @@
+// config-editor.test.ts
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { ConfigEditError, ConfigEditor } from '../config-editor';
+import { checklyConfigTemplate, playwrightConfigTemplate } from './helpers';
+
+const checkly = () => new ConfigEditor('checkly.config.ts', checklyConfigTemplate);
+const playwright = () => new ConfigEditor('playwright.config.ts', playwrightConfigTemplate);
+
+describe('ConfigEditor on the Checkly template', () => {
+  test('finds the config object through the config variable', () => {
+    const editor = checkly();
+    assert.equal(editor.getString(['projectName']), 'Boilerplate Project');
+    assert.equal(editor.getValue(['checks', 'frequency']), 'Frequency.EVERY_10M');
+    assert.deepEqual(editor.getArrayElements(['checks', 'locations']), ["'us-east-1'", "'eu-west-1'"]);
+    assert.equal(editor.getLine([]), 7);
+    assert.equal(editor.getLine(['logicalId']), 13);
+  });
+
+  test('replaces a nested string in the quote style of the file', () => {
+    const editor = checkly();
+    editor.setString(['checks', 'browserChecks', 'testMatch'], 'tests/**/*.spec.ts');
+    assert.match(editor.text, /testMatch: 'tests\/\*\*\/\*\.spec\.ts',/);
+    assert.equal(editor.getString(['checks', 'browserChecks', 'testMatch']), 'tests/**/*.spec.ts');
+  });
+
+  test('creates missing parent objects', () => {
+    const editor = checkly();
+    editor.setValue(['checks', 'playwrightConfig', 'use', 'baseURL'], "'https://example.com'");
+    assert.equal(editor.getString(['checks', 'playwrightConfig', 'use', 'baseURL']), 'https://example.com');
+  });
+
+  test('keeps the comments of the template', () => {
+    const editor = checkly();
+    editor.setValue(['checks', 'frequency'], 'Frequency.EVERY_5M');
+    editor.removeProperty(['checks', 'tags']);
+    assert.ok(editor.text.includes('/* A default for how often your Check should run in minutes */'));
+    assert.ok(editor.text.includes('frequency: Frequency.EVERY_5M,'));
+    assert.equal(editor.getValue(['checks', 'tags']), undefined);
+    assert.doesNotThrow(() => new ConfigEditor('checkly.config.ts', editor.text).getConfigObject());
+  });
+
+  test('adds and removes array elements without duplicates', () => {
+    const editor = checkly();
+    editor.addArrayElement(['checks', 'locations'], "'ap-south-1'");
+    editor.addArrayElement(['checks', 'locations'], "'ap-south-1'");
+    assert.deepEqual(editor.getArrayElements(['checks', 'locations']), ["'us-east-1'", "'eu-west-1'", "'ap-south-1'"]);
+    assert.equal(editor.removeArrayElement(['checks', 'locations'], "'us-east-1'"), true);
+    assert.equal(editor.removeArrayElement(['checks', 'locations'], "'us-east-1'"), false);
+    editor.addArrayElement(['checks', 'alertChannels'], 'emailChannel');
+    assert.deepEqual(editor.getArrayElements(['checks', 'alertChannels']), ['emailChannel']);
+  });
+
+  test('merges imports and only removes unused ones', () => {
+    const editor = checkly();
+    editor.addImport('AlertEscalationBuilder', 'checkly/constructs');
+    assert.deepEqual(editor.getImportedNames('checkly/constructs'), ['Frequency', 'AlertEscalationBuilder']);
+    assert.equal(editor.removeImport('Frequency', 'checkly/constructs'), false);
+    assert.equal(editor.removeImport('AlertEscalationBuilder', 'checkly/constructs'), true);
+    editor.addImport('emailChannel', './alert-channels');
+    assert.match(editor.text, /import \{ emailChannel \} from '\.\/alert-channels'\n/);
+  });
+
+  test('declares variables before the config statement and its comment', () => {
+    const editor = checkly();
+    editor.setVariable('emailChannel', "new EmailAlertChannel('email', { address: 'a@b.c' })");
+    assert.ok(editor.hasVariable('emailChannel'));
+    assert.ok(editor.text.indexOf('const emailChannel') < editor.text.indexOf('/**\n * See https://www.checklyhq.com/docs/cli/project-structure/'));
+    editor.setVariable('emailChannel', 'null');
+    assert.match(editor.text, /const emailChannel = null\n/);
+    assert.equal(editor.removeVariable('emailChannel'), true);
+    assert.equal(editor.text, checklyConfigTemplate);
+  });
+});
+
+describe('ConfigEditor on the Playwright template', () => {
+  test('reads and changes testDir and use', () => {
+    const editor = playwright();
+    assert.equal(editor.getString(['testDir']), './tests');
+    editor.setString(['testDir'], './e2e');
+    editor.setString(['use', 'baseURL'], 'http://localhost:3000');
+    assert.equal(editor.getString(['testDir']), './e2e');
+    assert.equal(editor.getString(['use', 'baseURL']), 'http://localhost:3000');
+    assert.match(editor.text, /testDir: '\.\/e2e',/);
+  });
+
+  test('reports non-literal values as unreadable strings', () => {
+    assert.equal(playwright().getString(['retries']), undefined);
+    assert.equal(playwright().getValue(['retries']), 'process.env.CI ? 2 : 0');
+  });
+});
+
+describe('ConfigEditor errors', () => {
+  test('rejects a file without a default export', () => {
+    assert.throws(() => new ConfigEditor('x.ts', 'const a = 1;').getConfigObject(), ConfigEditError);
+  });
+
+  test('reports the line of a value that is not an object', () => {
+    const editor = new ConfigEditor('x.ts', "export default {\n  checks: 'none',\n}\n");
+    assert.throws(() => editor.setValue(['checks', 'frequency'], '5'), (error: ConfigEditError) => error.line === 2);
+  });
+});
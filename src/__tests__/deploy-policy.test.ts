@@ -0,0 +1,58 @@
+// deploy-policy.test.ts
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { assertValidPolicy, defaultDeployPolicy, describeDeployPolicy, evaluateDeployPolicy, loadDeployPolicy, saveDeployPolicy } from '../deploy-policy';
+import { StateStore } from '../state';
+import type { TestResult } from '../test-results';
+import { createProject, removeProject } from './helpers';
+
+const result = (file: string, title: string, outcome: TestResult['outcome']): TestResult => ({ suite: null, file, title, project: 'chromium', outcome, durationMs: 10 });
+const results = [
+  result('cart.spec.ts', 'adds an item', 'passed'),
+  result('cart.spec.ts', 'applies a coupon', 'failed'),
+  result('login.spec.ts', 'logs in', 'flaky'),
+  result('login.spec.ts', 'logs out', 'skipped'),
+];
+
+describe('evaluateDeployPolicy', () => {
+  test('blocks on failures by default', () => {
+    const decision = evaluateDeployPolicy(defaultDeployPolicy, results);
+    assert.equal(decision.allowed, false);
+    assert.deepEqual(decision.reasons, ['1 test(s) failed: cart.spec.ts > applies a coupon.']);
+  });
+
+  test('ignores known flaky specs and tests', () => {
+    assert.ok(evaluateDeployPolicy({ ...defaultDeployPolicy, knownFlaky: ['cart.spec.ts > applies a coupon'] }, results).allowed);
+    assert.ok(evaluateDeployPolicy({ ...defaultDeployPolicy, blockOnFlaky: true, knownFlaky: ['cart.spec.ts', 'login.spec.ts'] }, results).allowed);
+  });
+
+  test('blocks on flaky tests, the pass rate and missing reports', () => {
+    const policy = { ...defaultDeployPolicy, blockOnFailure: false, blockOnFlaky: true, minPassRate: 80 };
+    assert.deepEqual(evaluateDeployPolicy(policy, results, 1).reasons, [
+      '1 test run(s) did not produce results.',
+      '1 test(s) were flaky: login.spec.ts > logs in.',
+      'Pass rate 66.7% is below the required 80%.',
+    ]);
+  });
+});
+
+describe('deploy policy', () => {
+  test('is validated', () => {
+    assert.doesNotThrow(() => assertValidPolicy(defaultDeployPolicy));
+    assert.throws(() => assertValidPolicy({ ...defaultDeployPolicy, minPassRate: 101 }), /minPassRate/);
+    assert.throws(() => assertValidPolicy({ ...defaultDeployPolicy, testRunner: 'jest' as never }), /testRunner/);
+    assert.throws(() => assertValidPolicy({ ...defaultDeployPolicy, checklyLocations: ['EU'] }), /checklyLocations/);
+  });
+
+  test('is saved in the state', () => {
+    const root = createProject();
+    try {
+      const store = new StateStore(root);
+      assert.deepEqual(loadDeployPolicy(store), defaultDeployPolicy);
+      saveDeployPolicy(store, { ...defaultDeployPolicy, testRunner: 'checkly', checklyLocations: ['eu-west-1'] });
+      assert.equal(describeDeployPolicy(loadDeployPolicy(store))[0], 'Tests run: in Checkly (eu-west-1)');
+    } finally {
+      removeProject(root);
+    }
+  });
+});
@@ -0,0 +1,74 @@
+// deployments.test.ts
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { countChecks, DeploymentLog, describeDeployChanges, describeDeployment, parseDeployOutput, readGitInfo } from '../deployments';
+import { StateStore } from '../state';
+import { createProject, FakeRunner, removeProject } from './helpers';
+
+// Trimmed output of `checkly deploy --preview`
+const preview = [
+  'Parsing your project... \u001b[32m✅\u001b[39m',
+  '',
+  'Create:',
+  '    BrowserCheck: check-smoke-login-spec-ts',
+  '    CheckGroup: group-smoke',
+  '',
+  'Delete:',
+  '    ApiCheck: old-api-check',
+  '',
+  'Update and Unchanged:',
+  '    BrowserCheck: check-smoke-cart-spec-ts',
+  '',
+].join('\n');
+
+describe('deploy output', () => {
+  test('is parsed into changes and check counts', () => {
+    const changes = parseDeployOutput(preview);
+    assert.equal(changes.length, 4);
+    assert.deepEqual(countChecks(changes), { created: 1, updated: 1, deleted: 1 });
+    assert.deepEqual(describeDeployChanges(changes), [
+      '+ BrowserCheck: check-smoke-login-spec-ts',
+      '+ CheckGroup: group-smoke',
+      '- ApiCheck: old-api-check',
+      '~ BrowserCheck: check-smoke-cart-spec-ts',
+      'Checks: 1 created, 1 updated or unchanged, 1 deleted.',
+    ]);
+    assert.deepEqual(describeDeployChanges([]), ['Checkly reported no changes.']);
+  });
+});
+
+describe('readGitInfo', () => {
+  test('reads the commit, branch and working tree state', async () => {
+    const runner = new FakeRunner()
+      .on('git rev-parse HEAD', { output: '1a2b3c4d5e\n' })
+      .on('git rev-parse --abbrev-ref HEAD', { output: 'HEAD\n' })
+      .on('git status', { output: ' M checkly.config.ts\n' });
+    assert.deepEqual(await readGitInfo(runner, '/p'), { commit: '1a2b3c4d5e', branch: null, dirty: true });
+    assert.equal(runner.calls[0].options.cwd, '/p');
+  });
+
+  test('is null outside a repository', async () => {
+    assert.equal(await readGitInfo(new FakeRunner().on('git', { exitCode: 128 }), '/p'), null);
+  });
+});
+
+describe('DeploymentLog', () => {
+  test('numbers deployments and describes them', () => {
+    const root = createProject();
+    try {
+      const log = new DeploymentLog(new StateStore(root));
+      log.add({ action: 'deploy', deployedAt: '2024-05-01T10:00:00.000Z', profile: null, git: null, checks: null });
+      const second = log.add({
+        action: 'deploy',
+        deployedAt: '2024-05-02T11:30:00.000Z',
+        profile: 'prod',
+        git: { commit: '1a2b3c4d5e', branch: 'main', dirty: false },
+        checks: { created: 2, updated: 5, deleted: 0 },
+      });
+      assert.equal(describeDeployment(second), '#2 2024-05-02 11:30 deploy [prod] 1a2b3c4 (main): 2 created, 5 updated, 0 deleted');
+      assert.equal(log.list().length, 2);
+    } finally {
+      removeProject(root);
+    }
+  });
+});
@@ -0,0 +1,91 @@
+// discovery.test.ts
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import {
+  describeTest, discoverTests, emptyFilter, findSpecFiles, globToRegExp, matchesFilter, parseSpecFile, playwrightFilterArgs, validateFilter,
+} from '../discovery';
+import { createProject, exampleSpec, removeProject } from './helpers';
+
+describe('parseSpecFile', () => {
+  test('lists tests with describe titles, title tags and the tag option', () => {
+    const tests = parseSpecFile('home.spec.ts', exampleSpec);
+    assert.deepEqual(tests.map((found) => [found.titlePath.join(' > '), found.tags, found.line]), [
+      ['home page > has a title @smoke', ['@smoke'], 4],
+      ['home page > lists products', ['@catalog'], 9],
+    ]);
+  });
+
+  test('skips annotations and keeps template titles as written', () => {
+    const source = [
+      "test.describe.configure({ mode: 'serial' });",
+      "test.skip(process.env.CI === undefined, 'local only');",
+      'test(`user ${name}`, async () => {});',
+      "test.only('focused', { tag: ['@a', '@b'] }, async () => {});",
+      'test.describe(() => {',
+      "  test('anonymous group', async () => {});",
+      '});',
+    ].join('\n');
+    assert.deepEqual(parseSpecFile('x.spec.ts', source).map((found) => found.titlePath.join(' > ')), ['user ${name}', 'focused', 'anonymous group']);
+  });
+
+  test('describes a test with the tags of the tag option', () => {
+    const [, second] = parseSpecFile('home.spec.ts', exampleSpec);
+    assert.equal(describeTest(second), 'home.spec.ts:9 home page > lists products @catalog');
+  });
+});
+
+describe('findSpecFiles and discoverTests', () => {
+  test('find specs recursively and skip node_modules', () => {
+    const root = createProject({
+      'tests/home.spec.ts': exampleSpec,
+      'tests/cart/cart.test.ts': "test('adds', async () => {});",
+      'tests/node_modules/dep/x.spec.ts': '',
+      'tests/helpers.ts': '',
+    });
+    try {
+      const folder = path.join(root, 'tests');
+      assert.deepEqual(findSpecFiles(folder, '**/*.spec.ts'), ['home.spec.ts']);
+      assert.deepEqual(findSpecFiles(folder, '**/*.{spec,test}.ts'), ['cart/cart.test.ts', 'home.spec.ts']);
+      assert.equal(discoverTests(folder, '**/*.{spec,test}.ts').length, 3);
+      assert.deepEqual(findSpecFiles(path.join(root, 'missing'), '**/*.spec.ts'), []);
+    } finally {
+      removeProject(root);
+    }
+  });
+});
+
+describe('filters', () => {
+  const [title, products] = parseSpecFile('cart/home.spec.ts', exampleSpec);
+
+  test('match tags with or without @, grep and files', () => {
+    assert.ok(matchesFilter(title, { ...emptyFilter, tags: ['smoke'] }));
+    assert.ok(!matchesFilter(products, { ...emptyFilter, tags: ['@smoke'] }));
+    assert.ok(matchesFilter(products, { ...emptyFilter, grep: 'PRODUCTS' }));
+    assert.ok(matchesFilter(products, { ...emptyFilter, files: ['cart/'] }));
+    assert.ok(matchesFilter(products, { ...emptyFilter, files: ['**/*.spec.ts'] }));
+    assert.ok(!matchesFilter(products, { ...emptyFilter, files: ['checkout'] }));
+  });
+
+  test('are validated', () => {
+    assert.deepEqual(validateFilter({ ...emptyFilter, tags: ['@ok'] }), []);
+    assert.equal(validateFilter({ ...emptyFilter, grep: '(' }).length, 1);
+  });
+
+  test('become Playwright arguments', () => {
+    assert.deepEqual(playwrightFilterArgs({ ...emptyFilter, grep: 'cart' }, '/p', []), ['--grep', 'cart']);
+    const [file, , grep] = playwrightFilterArgs({ tags: ['smoke'], grep: 'cart', files: ['a.spec.ts'] }, '/p', ['a.spec.ts']);
+    assert.ok(new RegExp(file).test('/p/a.spec.ts'));
+    assert.ok(new RegExp(grep).test('cart > checks out @smoke'));
+    assert.ok(!new RegExp(grep).test('cart > checks out @smoker'));
+  });
+});
+
+describe('globToRegExp', () => {
+  test('supports **, *, ? and braces', () => {
+    assert.ok(globToRegExp('**/*.spec.ts').test('a.spec.ts'));
+    assert.ok(globToRegExp('**/*.spec.ts').test('a/b/c.spec.ts'));
+    assert.ok(!globToRegExp('*.spec.ts').test('a/c.spec.ts'));
+    assert.ok(globToRegExp('v?.{spec,test}.ts').test('v1.test.ts'));
+  });
+});
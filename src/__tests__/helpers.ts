@@ -0,0 +1,232 @@
+// helpers.ts
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { mock } from 'node:test';
+import type { PromptObject } from 'prompts';
+import type { CommandRunner, RunOptions, RunResult } from '../process-runner';
+import type { PromptFunction } from '../main';
+
+// checkly.config.ts as written by `npm create checkly` (boilerplate project)
+export const checklyConfigTemplate = `import { defineConfig } from 'checkly'
+import { Frequency } from 'checkly/constructs'
+
+/**
+ * See https://www.checklyhq.com/docs/cli/project-structure/
+ */
+const config = defineConfig({
+  /* A human friendly name for your project */
+  projectName: 'Boilerplate Project',
+  /** A logical ID that needs to be unique across your Checkly account,
+   * See https://www.checklyhq.com/docs/cli/constructs/ to learn more about logical IDs.
+   */
+  logicalId: 'boilerplate-project',
+  /* An optional URL to your Git repo to be shown in your test sessions and resource activity log */
+  /* repoUrl: 'https://github.com/checkly/checkly-cli', */
+  /* Sets default values for Checks */
+  checks: {
+    /* A default for how often your Check should run in minutes */
+    frequency: Frequency.EVERY_10M,
+    /* Checkly data centers to run your Checks as monitors */
+    locations: ['us-east-1', 'eu-west-1'],
+    /* An optional array of tags to organize your Checks */
+    tags: ['mac'],
+    /** The Checkly Runtime identifier, determining npm packages and the Node.js version available at runtime.
+     * See https://www.checklyhq.com/docs/cli/npm-packages/
+     */
+    runtimeId: '2024.09',
+    /* A glob pattern that matches the Checks inside your repo, see https://www.checklyhq.com/docs/cli/using-check-test-match/ */
+    checkMatch: '**/__checks__/**/*.check.ts',
+    browserChecks: {
+      /* A glob pattern matches any Playwright .spec.ts files and automagically creates a Browser Check. This way, you
+      * can just write native Playwright code. See https://www.checklyhq.com/docs/cli/using-check-test-match/
+      * */
+      testMatch: '**/__checks__/**/*.spec.ts',
+    },
+  },
+  cli: {
+    /* The default datacenter location to use when running npx checkly test */
+    runLocation: 'eu-west-1',
+    /* An array of default reporters to use when a reporter is not specified with the "--reporter" flag */
+    reporters: ['list'],
+  },
+})
+
+export default config
+`;
+
+// playwright.config.ts as written by `npm init playwright`
+export const playwrightConfigTemplate = `import { defineConfig, devices } from '@playwright/test';
+
+/**
+ * Read environment variables from file.
+ * https://github.com/motdotla/dotenv
+ */
+// import dotenv from 'dotenv';
+// import path from 'path';
+// dotenv.config({ path: path.resolve(__dirname, '.env') });
+
+/**
+ * See https://playwright.dev/docs/test-configuration.
+ */
+export default defineConfig({
+  testDir: './tests',
+  /* Run tests in files in parallel */
+  fullyParallel: true,
+  /* Fail the build on CI if you accidentally left test.only in the source code. */
+  forbidOnly: !!process.env.CI,
+  /* Retry on CI only */
+  retries: process.env.CI ? 2 : 0,
+  /* Opt out of parallel tests on CI. */
+  workers: process.env.CI ? 1 : undefined,
+  /* Reporter to use. See https://playwright.dev/docs/test-reporters */
+  reporter: 'html',
+  /* Shared settings for all the projects below. See https://playwright.dev/docs/api/class-testoptions. */
+  use: {
+    /* Base URL to use in actions like \`await page.goto('/')\`. */
+    // baseURL: 'http://127.0.0.1:3000',
+
+    /* Collect trace when retrying the failed test. See https://playwright.dev/docs/trace-viewer */
+    trace: 'on-first-retry',
+  },
+
+  /* Configure projects for major browsers */
+  projects: [
+    {
+      name: 'chromium',
+      use: { ...devices['Desktop Chrome'] },
+    },
+  ],
+});
+`;
+
+export const exampleSpec = `import { test, expect } from '@playwright/test';
+
+test.describe('home page', () => {
+  test('has a title @smoke', async ({ page }) => {
+    await page.goto('/');
+    await expect(page).toHaveTitle(/Shop/);
+  });
+
+  test('lists products', { tag: '@catalog' }, async ({ page }) => {
+    await page.goto('/products');
+  });
+});
+`;
+
+// A project folder in the temp directory with the template configs, extra files are written relative to it
+export function createProject(files: Record<string, string> = {}) {
+  const root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'checkly-manager-')));
+  writeFiles(root, {
+    'checkly.config.ts': checklyConfigTemplate,
+    'playwright.config.ts': playwrightConfigTemplate,
+    'package.json': JSON.stringify({ name: 'monitored-app', devDependencies: { '@playwright/test': '^1.49.0', checkly: 'latest' } }, null, 2),
+    ...files,
+  });
+  return root;
+}
+
+export function writeFiles(root: string, files: Record<string, string>) {
+  for (const [file, content] of Object.entries(files)) {
+    fs.outputFileSync(path.join(root, ...file.split('/')), content);
+  }
+}
+
+export function removeProject(root: string) {
+  fs.removeSync(root);
+}
+
+type Handler = (args: string[], options: RunOptions) => Partial<RunResult> | void;
+
+// Stands in for npx and npm: records every call and answers from the handlers, the first matching one wins
+export class FakeRunner implements CommandRunner {
+  readonly calls: Array<{ command: string; args: string[]; options: RunOptions }> = [];
+  private handlers: Array<{ prefix: string; handler: Handler }> = [];
+
+  // Answer commands starting with `prefix`, e.g. 'npx checkly deploy'
+  on(prefix: string, handler: Handler | Partial<RunResult>) {
+    this.handlers.push({ prefix, handler: typeof handler === 'function' ? handler : () => handler });
+    return this;
+  }
+
+  // The calls of commands starting with `prefix`
+  callsTo(prefix: string) {
+    return this.calls.filter((call) => [call.command, ...call.args].join(' ').startsWith(prefix));
+  }
+
+  async run(command: string, args: string[], options: RunOptions = {}): Promise<RunResult> {
+    this.calls.push({ command, args, options });
+    const line = [command, ...args].join(' ');
+    const match = this.handlers.find((entry) => line.startsWith(entry.prefix));
+    const result = match?.handler(args, options) ?? {};
+    return { exitCode: 0, timedOut: false, canceled: false, output: '', logFile: null, ...result };
+  }
+}
+
+// Answers the prompts from a script, one entry per prompts() call; fails when the script runs out
+export function scriptedPrompts(script: Array<Record<string, unknown>>) {
+  const questions: string[] = [];
+  const prompt: PromptFunction = async (asked: PromptObject | PromptObject[]) => {
+    const names = (Array.isArray(asked) ? asked : [asked]).map((question) => String(question.name));
+    questions.push(names.join(', '));
+    const answers = script.shift();
+    if (!answers) throw new Error(`No scripted answer left for the prompt: ${names.join(', ')}`);
+    return answers;
+  };
+  return { prompt, questions, remaining: () => script.length };
+}
+
+// Collect console output instead of printing it, restored with mock.restoreAll()
+export function captureConsole() {
+  const lines: string[] = [];
+  const collect = (...args: unknown[]) => {
+    lines.push(args.map(String).join(' '));
+  };
+  mock.method(console, 'log', collect);
+  mock.method(console, 'error', collect);
+  mock.method(console, 'warn', collect);
+  return { lines, text: () => lines.join('\n') };
+}
+
+// A Playwright JSON report with one spec file and the given test outcomes
+export function playwrightReport(file: string, tests: Array<{ title: string; status: 'expected' | 'unexpected' | 'flaky' | 'skipped'; error?: string }>) {
+  return JSON.stringify({
+    config: {},
+    suites: [
+      {
+        title: file,
+        file,
+        specs: tests.map((test) => ({
+          title: test.title,
+          file,
+          tests: [
+            {
+              projectName: 'chromium',
+              status: test.status,
+              results: [{ duration: 100, ...(test.error ? { error: { message: test.error } } : {}) }],
+            },
+          ],
+        })),
+      },
+    ],
+  });
+}
+
+// What `checkly test --reporter json` writes to CHECKLY_REPORTER_JSON_OUTPUT
+export function checklyReport(location: string, checks: Array<{ name: string; passed: boolean; retries?: number; error?: string }>) {
+  return JSON.stringify({
+    testSessionId: 'session-1',
+    numChecks: checks.length,
+    runLocation: location,
+    checks: checks.map((check) => ({
+      result: check.passed ? 'Pass' : 'Fail',
+      name: check.name,
+      checkType: 'BROWSER',
+      durationMilliseconds: 1500,
+      filename: `tests/${check.name}.spec.ts`,
+      link: `https://app.checklyhq.com/test-sessions/session-1/${check.name}`,
+      runError: check.error ?? null,
+      retries: check.retries ?? 0,
+    })),
+  });
+}
@@ -0,0 +1,536 @@
+// manager.test.ts
+import { test, describe, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs-extra';
+import path from 'path';
+import { TestManager } from '../main';
+import { ConfigEditor } from '../config-editor';
+import { defaultNotifications, parseEscalation } from '../alert-policy';
+import {
+  captureConsole, checklyReport, createProject, exampleSpec, FakeRunner, playwrightReport, removeProject, scriptedPrompts, writeFiles,
+} from './helpers';
+
+const preview = 'Create:\n    BrowserCheck: check-smoke-home-spec-ts\n    CheckGroup: group-smoke\n\nUpdate and Unchanged:\n    BrowserCheck: old-check\n\n';
+const whoami = 'You are currently on account "Acme" (1234-abcd) as Jane Doe.';
+
+let root: string;
+let runner: FakeRunner;
+let output: ReturnType<typeof captureConsole>;
+
+// A manager on a fresh project with the original spec folder at source/smoke, answering the prompts from `script`
+function createManager(script: Array<Record<string, unknown>> = []) {
+  const prompts = scriptedPrompts(script);
+  const manager = new TestManager({ cwd: root, runner, prompt: prompts.prompt });
+  return { manager, prompts };
+}
+
+// Playwright writes its JSON report where the manager asks it to
+function onPlaywright(tests: Parameters<typeof playwrightReport>[1], exitCode = 0) {
+  runner.on('npx playwright test', (_args, options) => {
+    fs.writeFileSync(options.env!.PLAYWRIGHT_JSON_OUTPUT_NAME!, playwrightReport('home.spec.ts', tests));
+    return { exitCode };
+  });
+}
+
+const playwrightConfig = () => ConfigEditor.load(path.join(root, 'playwright.config.ts'));
+const checklyConfig = () => ConfigEditor.load(path.join(root, 'checkly.config.ts'));
+const state = () => fs.readJsonSync(path.join(root, '.checkly-manager', 'state.json'));
+
+beforeEach(() => {
+  root = createProject({ 'source/smoke/home.spec.ts': exampleSpec });
+  runner = new FakeRunner().on('git', { exitCode: 128 });
+  output = captureConsole();
+});
+afterEach(() => {
+  mock.restoreAll();
+  removeProject(root);
+});
+
+describe('TestManager setup', () => {
+  test('is created without touching the project', () => {
+    createManager();
+    assert.equal(fs.existsSync(path.join(root, '.checkly-manager')), false);
+    assert.equal(runner.calls.length, 0);
+  });
+
+  test('copies a folder given by path and points Playwright at it', async () => {
+    const { manager } = createManager();
+    assert.equal(await manager.setTestFolder('source/smoke'), true);
+    assert.ok(fs.existsSync(path.join(root, 'smoke', 'home.spec.ts')));
+    assert.equal(playwrightConfig().getString(['testDir']), path.join(root, 'smoke').replace(/\\/g, '/'));
+    assert.equal(state().activeSuite, 'smoke');
+    assert.deepEqual(manager.getStatus().tests, ['home.spec.ts']);
+  });
+
+  test('browses to a folder with the prompts', async () => {
+    const source = path.join(root, 'source');
+    const { manager, prompts } = createManager([
+      { selected: source },
+      { selected: path.join(source, 'smoke') },
+      { selected: path.join(source, 'smoke') }, // Select This Folder
+    ]);
+    assert.equal(await manager.setTestFolder(), true);
+    assert.equal(prompts.remaining(), 0);
+    assert.equal(manager.getStatus().testFolder, path.join(root, 'smoke'));
+  });
+
+  test('saves the email channel and reuses it on the next start', async () => {
+    const { manager } = createManager([{ email: 'alerts@example.com' }]);
+    assert.equal(await manager.setupEmailChannel(), true);
+    assert.deepEqual(checklyConfig().getArrayElements(['checks', 'alertChannels']), ['emailChannel1']);
+    assert.match(fs.readFileSync(path.join(root, 'alert-channels.ts'), 'utf-8'), /address: 'alerts@example\.com',/);
+
+    const restarted = createManager().manager; // fails on any prompt
+    assert.equal(await restarted.setupEmailChannel(), true);
+    assert.equal(restarted.getStatus().email, 'alerts@example.com');
+
+    assert.equal(await restarted.removeEmailChannel(), true);
+    assert.equal(checklyConfig().getValue(['checks', 'alertChannels']), undefined);
+    assert.deepEqual(checklyConfig().getImportedNames('./alert-channels'), []);
+  });
+
+  test('renders the alert policy into the suite groups and the channels', async () => {
+    const { manager } = createManager();
+    await manager.setTestFolder('source/smoke');
+    await manager.updateChecklyConfig();
+    await manager.setupEmailChannel('alerts@example.com');
+    const notifications = { ...defaultNotifications, sendDegraded: true, sslExpiry: true, sslExpiryThreshold: 14 };
+    assert.equal(await manager.editAlertPolicy({ escalation: parseEscalation('run:2:1:10'), notifications }, true), true);
+
+    const suites = fs.readFileSync(path.join(root, 'suites.check.ts'), 'utf-8');
+    assert.match(suites, /import \{ AlertEscalationBuilder, CheckGroup \} from 'checkly\/constructs';/);
+    assert.match(suites, /  alertEscalationPolicy: AlertEscalationBuilder\.runBasedEscalation\(2, \{ amount: 1, interval: 10 \}\),/);
+    assert.match(fs.readFileSync(path.join(root, 'alert-channels.ts'), 'utf-8'), /  sendDegraded: true,\n  sslExpiry: true,\n  sslExpiryThreshold: 14,\n/);
+  });
+
+  test('backs up the configs before rewriting them and restores a backup', async () => {
+    const original = fs.readFileSync(path.join(root, 'checkly.config.ts'), 'utf-8');
+    await createManager().manager.setTestFolder('source/smoke');
+    await createManager().manager.updateChecklyConfig();
+    assert.match(output.text(), /Backed up checkly\.config\.ts as backup #2, changes:\n[^]*\+ .*checkMatch: \['smoke\/\*\*\/\*\.check\.ts', 'suites\.check\.ts'\]/);
+
+    const { manager, prompts } = createManager([{ id: 2 }, { confirmed: true }]);
+    assert.deepEqual(manager.listConfigBackups().map((backup) => [backup.id, backup.file]), [[1, 'playwright.config.ts'], [2, 'checkly.config.ts']]);
+    assert.equal(await manager.restoreConfig(), true);
+    assert.equal(prompts.remaining(), 0);
+    assert.equal(fs.readFileSync(path.join(root, 'checkly.config.ts'), 'utf-8'), original);
+    assert.equal(manager.listConfigBackups()[2].reason, 'restore backup #2'); // the restore can be undone too
+  });
+
+  test('edits the project settings from the menu and refuses invalid ones', async () => {
+    const { manager, prompts } = createManager([
+      { action: 'projectSettings' },
+      { frequency: 30, locations: ['eu-central-1'], privateLocations: ['office-amsterdam'], runtimeId: '2025.04', retryStrategy: 'fixed:2:60', tags: ['shop'] },
+      { action: 'exit' },
+    ]);
+    await manager.mainMenu();
+    assert.equal(prompts.remaining(), 0);
+    assert.match(output.text(), /=== Project Settings ===\n- Frequency: every 10 minute\(s\)/);
+    assert.deepEqual(manager.getProjectSettings(), {
+      frequency: 30,
+      locations: ['eu-central-1'],
+      privateLocations: ['office-amsterdam'],
+      runtimeId: '2025.04',
+      retryStrategy: { type: 'fixed', maxRetries: 2, baseBackoffSeconds: 60 },
+      tags: ['shop'],
+    });
+    assert.equal(checklyConfig().getValue(['checks', 'frequency']), 'Frequency.EVERY_30M');
+    assert.equal(manager.listConfigBackups()[0].reason, 'update the project settings');
+
+    const before = fs.readFileSync(path.join(root, 'checkly.config.ts'), 'utf-8');
+    assert.equal(await manager.editProjectSettings({ locations: ['eu-west-9'] }), false);
+    assert.match(output.text(), /Unknown location\(s\): eu-west-9/);
+    assert.equal(fs.readFileSync(path.join(root, 'checkly.config.ts'), 'utf-8'), before);
+  });
+
+  test('rejects an invalid email address', async () => {
+    const { manager } = createManager();
+    assert.equal(await manager.setupEmailChannel('not-an-email'), false);
+    assert.match(output.text(), /Invalid email address: not-an-email/);
+  });
+
+  test('writes the suites into the Checkly template', async () => {
+    const { manager } = createManager();
+    await manager.setTestFolder('source/smoke');
+    assert.equal(await manager.updateChecklyConfig(), true);
+    const editor = checklyConfig();
+    assert.deepEqual(editor.getArrayElements(['checks', 'checkMatch']), ["'smoke/**/*.check.ts'", "'suites.check.ts'"]);
+    assert.equal(editor.getValue(['checks', 'browserChecks', 'testMatch']), undefined);
+    assert.equal(editor.getString(['projectName']), 'Boilerplate Project');
+    assert.match(fs.readFileSync(path.join(root, 'suites.check.ts'), 'utf-8'), /new CheckGroup\('suite-smoke'/);
+  });
+
+  test('syncs changes from the original folder', async () => {
+    const { manager } = createManager();
+    await manager.setTestFolder('source/smoke');
+    await manager.syncOriginalFolder();
+    writeFiles(root, { 'source/smoke/cart.spec.ts': "test('adds', async () => {});\n" });
+    assert.equal(await manager.syncOriginalFolder({ dryRun: true }), true);
+    assert.equal(fs.existsSync(path.join(root, 'smoke', 'cart.spec.ts')), false);
+    assert.equal(await manager.syncOriginalFolder(), true);
+    assert.ok(fs.existsSync(path.join(root, 'smoke', 'cart.spec.ts')));
+    assert.match(output.text(), /Syncing completed: 1 copied, 0 removed, 0 kept\./);
+  });
+});
+
+describe('TestManager new checks', () => {
+  test('creates a multistep spec that the suite group leaves to its own check', async () => {
+    const { manager } = createManager();
+    await manager.setTestFolder('source/smoke');
+    assert.deepEqual(await manager.createCheck({ type: 'multistep', name: 'Orders API', url: 'https://api.example.com/orders', assertions: [], template: null }), [
+      'orders-api.spec.ts',
+      'orders-api.check.ts',
+    ]);
+    assert.deepEqual(manager.findTestFiles(), ['home.spec.ts', 'orders-api.spec.ts']);
+    assert.equal(await manager.updateChecklyConfig(), true);
+    assert.match(fs.readFileSync(path.join(root, 'suites.check.ts'), 'utf-8'), /browserChecks: { testMatch: \['smoke\/home\.spec\.ts'\] }/);
+    assert.equal(await manager.createCheck({ type: 'browser', name: 'orders api', url: 'https://shop.example.com', assertions: [], template: null }), null);
+    assert.match(output.text(), /orders-api\.spec\.ts already exists/);
+  });
+
+  test('refuses a project template of the wrong kind', async () => {
+    writeFiles(root, { '.checkly-manager/templates/health.check.ts': '// {{assertions}}\n' });
+    const { manager } = createManager();
+    await manager.setTestFolder('source/smoke');
+    assert.equal(await manager.createCheck({ type: 'browser', name: 'Home', url: 'https://shop.example.com', assertions: [], template: 'health' }), null);
+    assert.match(output.text(), /Template "health" is a check template, browser checks are created from spec templates\./);
+    assert.equal(fs.existsSync(path.join(root, 'smoke', 'home.check.ts')), false);
+  });
+
+  test('asks for the check in the menu and runs its spec once', async () => {
+    onPlaywright([{ title: 'Cart', status: 'expected' }]);
+    const { manager: setup } = createManager();
+    await setup.setTestFolder('source/smoke');
+
+    const { manager, prompts } = createManager([
+      { action: 'newCheck' },
+      { type: 'browser' },
+      { name: 'Cart', url: 'https://shop.example.com/cart', assertions: ['text=Your cart'] },
+      { run: true },
+      { action: 'exit' },
+    ]);
+    manager.loadSavedFolder();
+    await manager.mainMenu();
+    assert.equal(prompts.remaining(), 0);
+    assert.match(fs.readFileSync(path.join(root, 'smoke', 'cart.spec.ts'), 'utf-8'), /getByText\('Your cart'\)/);
+    assert.ok(new RegExp(runner.callsTo('npx playwright test')[0].args[3]).test(path.join(root, 'smoke', 'cart.spec.ts')));
+    assert.match(output.text(), /- cart\.spec\.ts \(1\)/);
+  });
+});
+
+describe('TestManager deploys', () => {
+  beforeEach(async () => {
+    await createManager().manager.setTestFolder('source/smoke');
+    runner
+      .on('npx checkly deploy --preview', { output: preview })
+      .on('npx checkly deploy --force', { output: preview });
+  });
+
+  test('runs the tests, previews and deploys', async () => {
+    onPlaywright([{ title: 'has a title @smoke', status: 'expected' }, { title: 'lists products', status: 'flaky' }]);
+    const { manager } = createManager();
+    manager.loadSavedFolder();
+    assert.equal(await manager.deployToCheckly({ yes: true }), 'deployed');
+
+    const [playwright] = runner.callsTo('npx playwright test');
+    assert.equal(playwright.options.cwd, root);
+    assert.equal(runner.callsTo('npx checkly deploy --force --output').length, 1);
+    assert.deepEqual(manager.listDeployments()[0].checks, { created: 1, updated: 1, deleted: 0 });
+    assert.equal(manager.listRuns()[0].totals.flaky, 1);
+    assert.match(output.text(), /\+ BrowserCheck: check-smoke-home-spec-ts/);
+  });
+
+  test('runs every suite from its own folder without rewriting the Playwright config', async () => {
+    writeFiles(root, { 'source/checkout/cart.spec.ts': exampleSpec });
+    const { manager } = createManager();
+    await manager.setTestFolder('source/checkout');
+    await manager.switchSuite('smoke');
+    const config = fs.readFileSync(path.join(root, 'playwright.config.ts'), 'utf-8');
+    const backups = manager.listConfigBackups().length;
+
+    const testDirs: string[] = [];
+    runner.on('npx playwright test', (args, options) => {
+      const runConfig = fs.readFileSync(path.join(root, args[args.indexOf('--config') + 1]), 'utf-8');
+      testDirs.push(/testDir: "(.*)"/.exec(runConfig)![1]);
+      fs.writeFileSync(options.env!.PLAYWRIGHT_JSON_OUTPUT_NAME!, playwrightReport('home.spec.ts', [{ title: 'has a title', status: 'expected' }]));
+      return {};
+    });
+    assert.equal(await manager.runTests(), 'passed');
+    assert.deepEqual(testDirs, [path.join(root, 'smoke'), path.join(root, 'checkout')].map((folder) => folder.split(path.sep).join('/')));
+    assert.equal(fs.readFileSync(path.join(root, 'playwright.config.ts'), 'utf-8'), config);
+    assert.equal(manager.listConfigBackups().length, backups);
+  });
+
+  test('deploys the whole project after a filtered test run', async () => {
+    writeFiles(root, { 'smoke/cart.spec.ts': "import { test } from '@playwright/test';\n\ntest('adds to the cart', async () => {});\n" });
+    onPlaywright([{ title: 'has a title @smoke', status: 'expected' }]);
+    const { manager } = createManager();
+    manager.loadSavedFolder();
+    assert.equal(await manager.deployToCheckly({ yes: true, filter: { tags: ['@smoke'], grep: null, files: [] } }), 'deployed');
+
+    assert.ok(runner.callsTo('npx playwright test')[0].args.includes('--grep'));
+    assert.deepEqual(checklyConfig().getArrayElements(['checks', 'checkMatch']), ["'smoke/**/*.check.ts'", "'suites.check.ts'"]);
+    assert.match(fs.readFileSync(path.join(root, 'suites.check.ts'), 'utf-8'), /testMatch: 'smoke\/\*\*\/\*\.\{spec,test\}\.\{ts,tsx,js,jsx,mjs,cjs\}'/);
+    assert.match(output.text(), /the whole project is deployed/);
+  });
+
+  test('narrows a filtered checkly test run and puts the config back', async () => {
+    writeFiles(root, { 'smoke/cart.spec.ts': "import { test } from '@playwright/test';\n\ntest('adds to the cart', async () => {});\n" });
+    const { manager } = createManager();
+    manager.loadSavedFolder();
+    await manager.updateChecklyConfig();
+    const config = fs.readFileSync(path.join(root, 'checkly.config.ts'), 'utf-8');
+    const groups = fs.readFileSync(path.join(root, 'suites.check.ts'), 'utf-8');
+
+    let narrowed = '';
+    runner.on('npx checkly test', (_args, options) => {
+      narrowed = fs.readFileSync(path.join(root, 'suites.check.ts'), 'utf-8');
+      fs.writeFileSync(options.env!.CHECKLY_REPORTER_JSON_OUTPUT!, checklyReport('eu-west-1', [{ name: 'home', passed: true }]));
+      return {};
+    });
+    assert.equal(await manager.testInCheckly({ filter: { tags: ['@smoke'], grep: null, files: [] } }), 'passed');
+    assert.match(narrowed, /testMatch: \['smoke\/home\.spec\.ts'\]/); // cart.spec.ts is left out of the group
+    assert.equal(fs.readFileSync(path.join(root, 'checkly.config.ts'), 'utf-8'), config);
+    assert.equal(fs.readFileSync(path.join(root, 'suites.check.ts'), 'utf-8'), groups);
+  });
+
+  test('finds .test.ts specs and runs Playwright on the suite\'s spec files', async () => {
+    writeFiles(root, { 'source/api/orders.test.ts': exampleSpec, 'source/api/helpers.ts': 'export const user = 1;\n' });
+    const { manager } = createManager();
+    await manager.setTestFolder('source/api');
+    assert.deepEqual(manager.findTestFiles(), ['orders.test.ts']);
+
+    let runConfig = '';
+    runner.on('npx playwright test', (args, options) => {
+      runConfig = fs.readFileSync(path.join(root, args[args.indexOf('--config') + 1]), 'utf-8');
+      fs.writeFileSync(options.env!.PLAYWRIGHT_JSON_OUTPUT_NAME!, playwrightReport('orders.test.ts', [{ title: 'has a title', status: 'expected' }]));
+      return {};
+    });
+    assert.equal(await manager.runTests(), 'passed');
+    assert.match(runConfig, /  testMatch: "\*\*\/\*\.\{spec,test\}\.\{ts,tsx,js,jsx,mjs,cjs\}",/);
+  });
+
+  test('stops when the policy blocks and failing tests should fail the deploy', async () => {
+    onPlaywright([{ title: 'has a title @smoke', status: 'unexpected', error: 'Expected title' }], 1);
+    const { manager } = createManager();
+    manager.loadSavedFolder();
+    assert.equal(await manager.deployToCheckly({ yes: true, failOnTestFailure: true }), 'tests-failed');
+    assert.equal(runner.callsTo('npx checkly deploy').length, 0);
+    assert.match(output.text(), /1 test\(s\) failed: home\.spec\.ts > has a title @smoke\./);
+  });
+
+  test('stops a blocked deploy with --yes unless the policy is ignored', async () => {
+    onPlaywright([{ title: 'has a title @smoke', status: 'unexpected', error: 'Expected title' }], 1);
+    const { manager } = createManager();
+    manager.loadSavedFolder();
+    assert.equal(await manager.deployToCheckly({ yes: true }), 'tests-failed');
+    assert.equal(runner.callsTo('npx checkly deploy').length, 0);
+    assert.match(output.text(), /Pass --ignore-policy to deploy anyway\./);
+
+    assert.equal(await manager.deployToCheckly({ yes: true, ignorePolicy: true }), 'deployed');
+    assert.equal(runner.callsTo('npx checkly deploy --force').length, 1);
+    assert.equal(await manager.deployToCheckly({ yes: true, ignorePolicy: true, failOnTestFailure: true }), 'tests-failed');
+  });
+
+  test('asks before deploying and cancels when declined', async () => {
+    onPlaywright([{ title: 'has a title @smoke', status: 'expected' }]);
+    const { manager, prompts } = createManager([{ confirm: false }]);
+    manager.loadSavedFolder();
+    assert.equal(await manager.deployToCheckly(), 'canceled');
+    assert.deepEqual(prompts.questions, ['confirm']);
+    assert.equal(runner.callsTo('npx checkly deploy --force').length, 0);
+    assert.equal(manager.listRuns()[0].outcome, 'canceled');
+  });
+
+  test('aborts on validation errors before running anything', async () => {
+    writeFiles(root, { 'smoke/broken.spec.ts': "import { helper } from './missing';\n" });
+    const { manager } = createManager();
+    manager.loadSavedFolder();
+    assert.equal(await manager.deployToCheckly({ yes: true }), 'failed');
+    assert.equal(runner.calls.length, 0);
+    assert.match(output.text(), /smoke\/broken\.spec\.ts:1: error: Cannot find "\.\/missing"\./);
+  });
+
+  test('gates on a run in Checkly with the checkly test runner', async () => {
+    runner.on('npx checkly test', (args, options) => {
+      const location = args[args.indexOf('--location') + 1];
+      fs.writeFileSync(options.env!.CHECKLY_REPORTER_JSON_OUTPUT!, checklyReport(location, [{ name: 'home', passed: location !== 'us-east-1' }]));
+      return { exitCode: location === 'us-east-1' ? 1 : 0 };
+    });
+    const { manager } = createManager();
+    manager.loadSavedFolder();
+    assert.equal(await manager.deployToCheckly({ yes: true, failOnTestFailure: true, testRunner: 'checkly', locations: ['eu-west-1', 'us-east-1'] }), 'tests-failed');
+    assert.equal(runner.callsTo('npx checkly test').length, 2);
+    assert.equal(runner.callsTo('npx playwright').length, 0);
+    assert.match(output.text(), /home   us-east-1  ✗ fail/);
+  });
+
+  test('applies the active profile to the config and refuses missing secrets', async () => {
+    const { manager } = createManager();
+    manager.loadSavedFolder();
+    assert.equal(await manager.saveProfile('prod', { baseUrl: 'https://example.com', locations: ['ap-south-1'], frequency: 30, secrets: ['TEST_MANAGER_SECRET'] }), true);
+    assert.equal(await manager.useProfile('prod'), true);
+    assert.equal(playwrightConfig().getValue(['use', 'baseURL']), 'process.env.BASE_URL');
+
+    assert.equal(await manager.updateChecklyConfig(), false);
+    assert.match(output.text(), /needs these secrets in the environment: TEST_MANAGER_SECRET/);
+
+    process.env.TEST_MANAGER_SECRET = 'secret';
+    try {
+      assert.equal(await manager.updateChecklyConfig(), true);
+    } finally {
+      delete process.env.TEST_MANAGER_SECRET;
+    }
+    const groups = fs.readFileSync(path.join(root, 'suites.check.ts'), 'utf-8');
+    assert.match(groups, /import \{ CheckGroup, Frequency \} from 'checkly\/constructs';/);
+    assert.match(groups, /  locations: \['ap-south-1'\],\n  frequency: Frequency\.EVERY_30M,\n  environmentVariables: \[.*\{ key: 'TEST_MANAGER_SECRET', value: process\.env\.TEST_MANAGER_SECRET \?\? '', secret: true \}\],/);
+    assert.doesNotMatch(groups, /'secret'/);
+    assert.deepEqual(checklyConfig().getArrayElements(['checks', 'locations']), ["'us-east-1'", "'eu-west-1'"]); // the project's own defaults
+  });
+
+  test('leaves nothing of a profile behind once no profile is active', async () => {
+    const { manager } = createManager();
+    manager.loadSavedFolder();
+    await manager.saveProfile('prod', { baseUrl: 'https://example.com', environmentVariables: { REGION: 'eu' }, locations: ['ap-south-1'], frequency: 5 });
+    await manager.useProfile('prod');
+    assert.equal(playwrightConfig().getValue(['use', 'baseURL']), 'process.env.BASE_URL');
+    assert.equal(await manager.updateChecklyConfig(), true);
+    assert.match(fs.readFileSync(path.join(root, 'suites.check.ts'), 'utf-8'), /locations: \['ap-south-1'\]/);
+
+    await manager.useProfile(null);
+    assert.equal(playwrightConfig().getValue(['use', 'baseURL']), undefined);
+    assert.equal(await manager.updateChecklyConfig(), true);
+    assert.doesNotMatch(fs.readFileSync(path.join(root, 'suites.check.ts'), 'utf-8'), /locations|frequency|environmentVariables|REGION/);
+    assert.equal(checklyConfig().getValue(['checks', 'frequency']), 'Frequency.EVERY_10M');
+    assert.equal(checklyConfig().getValue(['checks', 'environmentVariables']), undefined);
+    assert.doesNotMatch(fs.readFileSync(path.join(root, 'checkly.config.ts'), 'utf-8'), /ap-south-1/);
+
+    // Editing or removing the active profile updates the base URL too
+    await manager.useProfile('prod');
+    await manager.saveProfile('prod', { baseUrl: null });
+    assert.equal(playwrightConfig().getValue(['use', 'baseURL']), undefined);
+    await manager.saveProfile('prod', { baseUrl: 'https://example.com' });
+    assert.equal(playwrightConfig().getValue(['use', 'baseURL']), 'process.env.BASE_URL');
+    assert.equal(await manager.removeProfile('prod'), true);
+    assert.equal(playwrightConfig().getValue(['use', 'baseURL']), undefined);
+  });
+});
+
+describe('TestManager reports', () => {
+  test('reports the suite, the latest local results, the alert channels and the last deploy', async () => {
+    const { manager } = createManager();
+    await manager.setTestFolder('source/smoke');
+    await manager.setupEmailChannel('alerts@example.com');
+    onPlaywright([{ title: 'has a title @smoke', status: 'expected' }, { title: 'lists products', status: 'unexpected', error: 'Timed out' }], 1);
+    await manager.runTests();
+
+    const files = manager.generateReport();
+    assert.ok(files);
+    assert.equal(files.html, path.join(root, '.checkly-manager', 'reports', 'report.html'));
+    const markdown = fs.readFileSync(files.markdown, 'utf-8');
+    assert.match(markdown, /^## Checkly monitoring report: Boilerplate Project/);
+    assert.match(markdown, /\*\*smoke\*\*: 2 test\(s\) in 1 spec file\(s\)/);
+    assert.match(markdown, /Local Playwright run, finished [^:]+:\d\d UTC: 1 passed, 1 failed/);
+    assert.match(markdown, /lists products \[chromium\]: Timed out/);
+    assert.match(markdown, /\| `email-channel-1` \| Email \| alerts@example\.com \| failure, recovery \|/);
+    assert.match(markdown, /Not deployed yet\./);
+    assert.match(fs.readFileSync(files.html, 'utf-8'), /<h1>Checkly monitoring report: Boilerplate Project<\/h1>/);
+  });
+});
+
+describe('TestManager runs in Checkly', () => {
+  test('runs checkly test once per location and reports the results', async () => {
+    runner.on('npx checkly test', (args, options) => {
+      const location = args[args.indexOf('--location') + 1];
+      fs.writeFileSync(options.env!.CHECKLY_REPORTER_JSON_OUTPUT!, checklyReport(location, [{ name: 'home', passed: true }]));
+      return {};
+    });
+    const { manager } = createManager();
+    await manager.setTestFolder('source/smoke');
+    assert.equal(await manager.testInCheckly({ locations: ['eu-west-1', 'us-east-1'] }), 'passed');
+    assert.deepEqual(runner.callsTo('npx checkly test').map((call) => call.args[call.args.length - 1]), ['eu-west-1', 'us-east-1']);
+    assert.match(output.text(), /2 passed, 0 failed, 0 flaky\./);
+  });
+
+  test('counts a run without a report as failed', async () => {
+    const { manager } = createManager();
+    assert.equal(await manager.triggerChecks({ tags: ['production'] }), 'failed');
+    assert.deepEqual(runner.callsTo('npx checkly trigger')[0].args.slice(-2), ['--tags', 'production']);
+    assert.match(output.text(), /did not write a JSON report/);
+  });
+});
+
+describe('TestManager accounts', () => {
+  test('passes the saved account to the Checkly CLI', async () => {
+    runner.on('npx checkly whoami', (_args, options) => (options.env?.CHECKLY_ACCOUNT_ID === '1234-abcd' ? { output: whoami } : { exitCode: 1 }));
+    const { manager } = createManager();
+    assert.equal(await manager.saveAccount('acme', { accountId: '1234-abcd', apiKeyVariable: 'TEST_MANAGER_API_KEY' }), true);
+    assert.equal(await manager.useAccount('acme'), true);
+    assert.equal(manager.getStatus().account, 'acme');
+    assert.match(output.text(), /reads its API key from TEST_MANAGER_API_KEY, which is not set/);
+    assert.deepEqual(await manager.checkCredentials(), { accountName: 'Acme', accountId: '1234-abcd', userName: 'Jane Doe', source: 'account' });
+
+    assert.equal(await manager.useAccount('other'), false);
+    assert.equal(manager.removeAccount('acme'), true);
+    assert.equal(await manager.checkCredentials(), null);
+  });
+
+  test('offers checkly login only without working credentials', async () => {
+    runner.on('npx checkly whoami', { exitCode: 1 });
+    const { manager, prompts } = createManager([{ login: true }]);
+    await manager.loginToCheckly();
+    assert.deepEqual(prompts.questions, ['login']);
+    assert.equal(runner.callsTo('npx checkly login')[0].options.interactive, true);
+  });
+});
+
+describe('TestManager menu', () => {
+  test('starts up, sets up the folder and email, then exits from the menu', async () => {
+    runner.on('npx checkly whoami', { output: whoami });
+    const source = path.join(root, 'source', 'smoke');
+    const { manager, prompts } = createManager([
+      { selected: source }, // the folder prompt starts at the project root
+      { selected: source }, // Select This Folder
+      { email: 'alerts@example.com' },
+      { action: 'exit' },
+    ]);
+    await manager.init();
+    assert.equal(prompts.remaining(), 0);
+    assert.deepEqual(prompts.questions, ['selected', 'selected', 'email', 'action']);
+    assert.equal(runner.callsTo('npm').length, 0); // both configs exist
+    assert.match(output.text(), /Checkly Account: Acme \(1234-abcd\)/);
+    assert.match(output.text(), /Goodbye!/);
+  });
+
+  test('runs the chosen actions until exit', async () => {
+    runner.on('npx checkly test', (_args, options) => {
+      fs.writeFileSync(options.env!.CHECKLY_REPORTER_JSON_OUTPUT!, checklyReport('eu-west-1', [{ name: 'home', passed: true }]));
+      return {};
+    });
+    onPlaywright([{ title: 'has a title @smoke', status: 'expected' }]);
+    const { manager: setup } = createManager();
+    await setup.setTestFolder('source/smoke');
+
+    const { manager, prompts } = createManager([
+      { action: 'validate' },
+      { action: 'run' },
+      { tags: ['smoke'], grep: '', files: [] },
+      { action: 'checklyTest' },
+      { locations: ['eu-west-1'] },
+      { tags: [], grep: '', files: [] },
+      { action: 'addEmail' },
+      { email: 'alerts@example.com' },
+      { action: 'policy' },
+      { testRunner: 'playwright', checklyLocations: [], blockOnFailure: true, blockOnFlaky: true, minPassRate: '', knownFlaky: [] },
+      { action: 'exit' },
+    ]);
+    manager.loadSavedFolder();
+    await manager.mainMenu();
+    assert.equal(prompts.remaining(), 0);
+    assert.equal(manager.getStatus().email, 'alerts@example.com');
+    assert.equal(manager.getDeployPolicy().blockOnFlaky, true);
+    assert.equal(runner.callsTo('npx playwright test').length, 1);
+    assert.equal(runner.callsTo('npx checkly test').length, 1);
+    assert.match(output.text(), /- home\.spec\.ts:4 home page > has a title @smoke/);
+  });
+});
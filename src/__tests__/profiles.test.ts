@@ -0,0 +1,54 @@
+// profiles.test.ts
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { describeProfile, emptyProfile, missingSecrets, ProfileRegistry, profileEnvironment, profileGroupProps, validateProfile } from '../profiles';
+import { StateStore } from '../state';
+import { createProject, removeProject } from './helpers';
+
+const prod = { ...emptyProfile('prod'), baseUrl: 'https://example.com', environmentVariables: { REGION: 'eu' }, secrets: ['API_TOKEN'], locations: ['eu-west-1'], frequency: 5 };
+
+describe('profiles', () => {
+  test('are validated', () => {
+    assert.deepEqual(validateProfile(prod), []);
+    assert.equal(validateProfile({ ...prod, baseUrl: 'example.com' }).length, 1);
+    assert.equal(validateProfile({ ...prod, environmentVariables: { BASE_URL: 'x' } }).length, 1);
+    assert.equal(validateProfile({ ...prod, environmentVariables: { API_TOKEN: 'x' } }).length, 1);
+  });
+
+  test('pass the base URL and variables to local runs', () => {
+    assert.deepEqual(profileEnvironment(prod), { REGION: 'eu', BASE_URL: 'https://example.com' });
+    assert.deepEqual(missingSecrets(prod, {}), ['API_TOKEN']);
+    assert.deepEqual(missingSecrets(prod, { API_TOKEN: 'x' }), []);
+  });
+
+  test('give the suite groups their locations, frequency and variables', () => {
+    assert.deepEqual(profileGroupProps(prod), {
+      locations: "['eu-west-1']",
+      frequency: 'Frequency.EVERY_5M',
+      environmentVariables: "[{ key: 'REGION', value: 'eu' }, { key: 'BASE_URL', value: 'https://example.com' }, { key: 'API_TOKEN', value: process.env.API_TOKEN ?? '', secret: true }]",
+    });
+    assert.deepEqual(profileGroupProps(emptyProfile('bare')), {});
+  });
+
+  test('are described in one line', () => {
+    assert.equal(describeProfile(prod), 'prod: https://example.com, 1 variable(s), 1 secret(s), eu-west-1, every 5 min');
+  });
+});
+
+describe('ProfileRegistry', () => {
+  test('keeps the active profile in the state', () => {
+    const root = createProject();
+    try {
+      const profiles = new ProfileRegistry(new StateStore(root));
+      profiles.put(prod);
+      profiles.put({ ...prod, frequency: 10 });
+      assert.throws(() => profiles.setActive('staging'), /No profile named "staging"/);
+      profiles.setActive('prod');
+      assert.equal(profiles.getActive()?.frequency, 10);
+      assert.equal(profiles.remove('prod'), true);
+      assert.equal(profiles.getActive(), null);
+    } finally {
+      removeProject(root);
+    }
+  });
+});
@@ -0,0 +1,84 @@
+// project-settings.test.ts
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { ConfigEditor } from '../config-editor';
+import { parseRetryStrategy } from '../checks';
+import { applyProjectSettings, describeProjectSettings, readProjectSettings, validateProjectSettings } from '../project-settings';
+import { checklyConfigTemplate } from './helpers';
+
+const template = () => new ConfigEditor('checkly.config.ts', checklyConfigTemplate);
+
+describe('project settings', () => {
+  test('are read from the checks defaults', () => {
+    assert.deepEqual(readProjectSettings(template()), {
+      frequency: 10,
+      locations: ['us-east-1', 'eu-west-1'],
+      privateLocations: [],
+      runtimeId: '2024.09',
+      retryStrategy: null,
+      tags: ['mac'],
+    });
+    const edited = new ConfigEditor('checkly.config.ts', checklyConfigTemplate.replace('Frequency.EVERY_10M', '60'));
+    assert.equal(readProjectSettings(edited).frequency, 60);
+  });
+
+  test('refuse code they cannot read', () => {
+    const edited = new ConfigEditor('checkly.config.ts', checklyConfigTemplate.replace("tags: ['mac']", 'tags: process.env.TAGS'));
+    assert.throws(() => readProjectSettings(edited), /checks\.tags/);
+    const computed = new ConfigEditor('checkly.config.ts', checklyConfigTemplate.replace('Frequency.EVERY_10M', 'frequency()'));
+    assert.throws(() => readProjectSettings(computed), /sets frequency \(frequency\(\)\)/);
+  });
+
+  test('are validated against the values Checkly accepts', () => {
+    const settings = readProjectSettings(template());
+    assert.deepEqual(validateProjectSettings(settings), []);
+    assert.deepEqual(validateProjectSettings({
+      ...settings,
+      frequency: 7,
+      locations: ['mars-1'],
+      privateLocations: ['Office Amsterdam'],
+      runtimeId: '2019.01',
+      retryStrategy: { type: 'fixed', maxRetries: 11 },
+    }), [
+      'Invalid frequency 7. Use one of: 1, 2, 5, 10, 15, 30, 60, 120, 180, 360, 720, 1440 minutes.',
+      'Unknown location(s): mars-1. Use Checkly locations, e.g. us-east-1, us-east-2, us-west-1.',
+      'Private locations must be slugs, e.g. office-amsterdam.',
+      'Invalid runtime "2019.01". Use one of: 2023.09, 2024.02, 2024.09, 2025.04.',
+      'Max retries must be between 1 and 10.',
+    ]);
+    assert.deepEqual(validateProjectSettings({ ...settings, locations: [] }), ['Checks need at least one location or private location.']);
+    assert.deepEqual(validateProjectSettings({ ...settings, locations: [], privateLocations: ['office-amsterdam'] }), []);
+  });
+
+  test('write only the changed settings and their imports', () => {
+    const editor = template();
+    applyProjectSettings(editor, {
+      frequency: 5,
+      privateLocations: ['office-amsterdam'],
+      retryStrategy: parseRetryStrategy('linear:2:30'),
+      tags: [],
+    });
+    assert.match(editor.text, /import \{ Frequency, RetryStrategyBuilder \} from 'checkly\/constructs'/);
+    assert.match(editor.text, /frequency: Frequency\.EVERY_5M,/);
+    assert.match(editor.text, /privateLocations: \['office-amsterdam'\]/);
+    assert.match(editor.text, /retryStrategy: RetryStrategyBuilder\.linearStrategy\(\{ maxRetries: 2, baseBackoffSeconds: 30 \}\)/);
+    assert.doesNotMatch(editor.text, /tags:/);
+    assert.match(editor.text, /locations: \['us-east-1', 'eu-west-1'\],/);
+    assert.deepEqual(readProjectSettings(editor).retryStrategy, { type: 'linear', maxRetries: 2, baseBackoffSeconds: 30 });
+
+    applyProjectSettings(editor, { frequency: null, retryStrategy: null, runtimeId: null });
+    assert.match(editor.text, /^import \{ defineConfig \} from 'checkly'\n\n/); // the unused constructs import is gone
+    assert.doesNotMatch(editor.text, /frequency:|retryStrategy:|runtimeId:/);
+  });
+
+  test('are described one per line', () => {
+    assert.deepEqual(describeProjectSettings({ ...readProjectSettings(template()), retryStrategy: parseRetryStrategy('none'), runtimeId: null }), [
+      'Frequency: every 10 minute(s)',
+      'Locations: us-east-1, eu-west-1',
+      'Private locations: none',
+      "Runtime: the account's default",
+      'Retries: none',
+      'Tags: mac',
+    ]);
+  });
+});
@@ -0,0 +1,60 @@
+// reports.test.ts
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { defaultAlertPolicy } from '../alert-policy';
+import { channelTarget, renderHtmlReport, renderMarkdownReport, ReportData } from '../reports';
+import type { AlertChannelConfig } from '../alert-channel';
+
+const slack: AlertChannelConfig = { id: 'slack-ops', type: 'slack', sendFailure: true, sendRecovery: false, sendDegraded: false, settings: { url: 'https://hooks.slack.com/secret', channel: '#ops' } };
+const data: ReportData = {
+  generatedAt: '2026-01-05T14:02:11.000Z',
+  project: 'Shop',
+  suite: {
+    name: 'smoke',
+    folder: 'smoke',
+    testMatch: '**/*.spec.ts',
+    tests: [
+      { file: 'home.spec.ts', titlePath: ['home page', 'has a title @smoke'], tags: ['@smoke'], line: 4 },
+      { file: 'home.spec.ts', titlePath: ['home page', 'lists <products>'], tags: [], line: 8 },
+    ],
+  },
+  alertChannels: [slack],
+  alertPolicy: defaultAlertPolicy,
+  results: {
+    source: 'Local Playwright run',
+    finishedAt: '2026-01-05T14:00:00.000Z',
+    results: [
+      { suite: null, file: 'home.spec.ts', title: 'home page > has a title @smoke', project: 'chromium', outcome: 'passed', durationMs: 10 },
+      { suite: null, file: 'home.spec.ts', title: 'home page > lists <products>', project: 'chromium', outcome: 'failed', durationMs: 10, error: 'expected 3 | got 0' },
+    ],
+  },
+  deployment: { id: 4, action: 'deploy', deployedAt: '2026-01-05T13:00:00.000Z', profile: 'prod', git: null, checks: { created: 1, updated: 2, deleted: 0 } },
+};
+
+describe('reports', () => {
+  test('summarize the suite, results, alerting and last deploy in Markdown', () => {
+    const markdown = renderMarkdownReport(data);
+    assert.match(markdown, /^## Checkly monitoring report: Shop\n\nGenerated 2026-01-05 14:02 UTC\./);
+    assert.match(markdown, /\*\*smoke\*\*: 2 test\(s\) in 1 spec file\(s\), `smoke\/\*\*\/\*\.spec\.ts`/);
+    assert.match(markdown, /\| ❌ `home\.spec\.ts` \| 1 \| 1 \| 0 \| 0 \|/);
+    assert.match(markdown, /- ❌ `home\.spec\.ts` › home page > lists <products> \[chromium\]: expected 3 \| got 0/);
+    assert.match(markdown, /\| `slack-ops` \| Slack \| #ops \| failure \|/);
+    assert.match(markdown, /### Last deploy\n\n#4 2026-01-05 13:00 deploy \[prod\]: 1 created, 2 updated, 0 deleted/);
+    assert.match(renderMarkdownReport({ ...data, suite: null, results: null, deployment: null }), /No test suite set\.[^]*No local Playwright results yet\.[^]*Not deployed yet\./);
+  });
+
+  test('render a self-contained HTML page with escaped values', () => {
+    const html = renderHtmlReport(data);
+    assert.match(html, /^<!DOCTYPE html>/);
+    assert.match(html, /<style>/);
+    assert.doesNotMatch(html, /<script|<link|src=/);
+    assert.match(html, /home page › lists &lt;products&gt;/);
+    assert.match(html, /<span class="failed">failed<\/span>/);
+  });
+
+  test('leave secret channel settings out', () => {
+    assert.equal(channelTarget(slack), '#ops');
+    assert.equal(channelTarget({ ...slack, type: 'webhook', settings: { name: 'Deploy hook', url: 'https://example.com/secret' } }), 'Deploy hook');
+    assert.doesNotMatch(renderHtmlReport(data) + renderMarkdownReport(data), /hooks\.slack\.com/);
+  });
+});
@@ -0,0 +1,200 @@
+// state.test.ts
+import { test, describe, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs-extra';
+import path from 'path';
+import { emptyState, findProjectRoot, StateError, StateStore, stateVersion, validateState } from '../state';
+import { defaultDeployPolicy } from '../deploy-policy';
+import { captureConsole, createProject, removeProject, writeFiles } from './helpers';
+import { mock } from 'node:test';
+
+let root: string;
+afterEach(() => {
+  mock.restoreAll();
+  removeProject(root);
+});
+
+const suite = (name: string, folder: string) => ({ name, folder, originalFolder: folder, testMatch: '**/*.spec.ts', alertChannels: [] });
+
+describe('StateStore', () => {
+  test('reads an empty state when there is no file', () => {
+    root = createProject();
+    assert.deepEqual(new StateStore(root).read(), emptyState());
+    assert.equal(fs.existsSync(path.join(root, '.checkly-manager')), false);
+  });
+
+  test('writes updates and reads them back', () => {
+    root = createProject();
+    const store = new StateStore(root);
+    store.update((state) => {
+      state.suites = [suite('smoke', path.join(root, 'tests'))];
+      state.activeSuite = 'smoke';
+    });
+    assert.equal(new StateStore(root).read().activeSuite, 'smoke');
+  });
+
+  test('refuses to write an invalid state', () => {
+    root = createProject();
+    const store = new StateStore(root);
+    assert.throws(() => store.update((state) => {
+      state.activeSuite = 'missing';
+    }), StateError);
+    assert.equal(fs.existsSync(store.filePath), false);
+  });
+
+  test('migrates a version 1 state file to the current version', () => {
+    root = createProject();
+    writeFiles(root, {
+      '.checkly-manager/state.json': JSON.stringify({
+        version: 1,
+        activeSuite: null,
+        suites: [],
+        alertChannels: [],
+        deployPolicy: { blockOnFailure: true, blockOnFlaky: false, knownFlaky: [], minPassRate: null },
+        syncManifests: {},
+        runHistory: [],
+      }),
+    });
+    const state = new StateStore(root).read();
+    assert.equal(state.version, stateVersion);
+    assert.deepEqual(state.checks, []);
+    assert.deepEqual(state.profiles, []);
+    assert.deepEqual(state.accounts, []);
+    assert.equal(state.deployPolicy.testRunner, 'playwright');
+    assert.equal(state.alertPolicy.escalation, null);
+    assert.equal(fs.readJsonSync(path.join(root, '.checkly-manager', 'state.json')).version, stateVersion);
+  });
+
+  test('rejects a state written by a newer version', () => {
+    root = createProject({ '.checkly-manager/state.json': JSON.stringify({ version: stateVersion + 1 }) });
+    assert.throws(() => new StateStore(root).read(), /newer version/);
+  });
+
+  test('moves saved alert channel secrets to environment variables', () => {
+    const slack = { id: 'slack-ops', type: 'slack', sendFailure: true, sendRecovery: true, sendDegraded: false, settings: { url: 'https://hooks.slack.com/services/T0/B0/x' } };
+    root = createProject({ '.checkly-manager/state.json': JSON.stringify({ ...emptyState(), version: 8, alertChannels: [slack] }) });
+    const output = captureConsole();
+    assert.deepEqual(new StateStore(root).read().alertChannels[0].settings, { url: 'SLACK_OPS_URL' });
+    assert.doesNotMatch(fs.readFileSync(path.join(root, '.checkly-manager', 'state.json'), 'utf-8'), /hooks\.slack\.com/);
+    assert.match(output.text(), /Set: SLACK_OPS_URL \(slack-ops url\)/);
+  });
+
+  test('reports a damaged state file with the problems', () => {
+    root = createProject({ '.checkly-manager/state.json': '{ "version": ' });
+    assert.throws(() => new StateStore(root).read(), (error: StateError) => error.problems[0].startsWith("It can't be read as JSON"));
+  });
+
+  test('migrates the legacy files and moves them away', () => {
+    root = createProject({
+      'savedFolder.json': JSON.stringify({ folder: 'tests', originalFolder: 'original' }),
+      'email.json': JSON.stringify({ email: 'alerts@example.com' }),
+    });
+    const output = captureConsole();
+    const state = new StateStore(root).read();
+    assert.equal(state.activeSuite, 'tests');
+    assert.equal(state.alertChannels[0].settings.address, 'alerts@example.com');
+    assert.ok(fs.existsSync(path.join(root, '.checkly-manager', 'legacy', 'email.json')));
+    assert.equal(fs.existsSync(path.join(root, 'savedFolder.json')), false);
+    assert.match(output.text(), /Moved savedFolder.json, email.json/);
+  });
+
+  test('exports folders relative to the project and imports them back', () => {
+    root = createProject();
+    const store = new StateStore(root);
+    store.update((state) => {
+      state.suites = [suite('smoke', path.join(root, 'tests'))];
+      state.activeSuite = 'smoke';
+      state.accounts = [{ name: 'prod', accountId: 'abc-123', apiKeyVariable: null }];
+    });
+    const setup = store.exportSetup();
+    assert.equal(setup.suites[0].folder, 'tests');
+    assert.equal('accounts' in setup, false);
+
+    const other = createProject();
+    try {
+      fs.writeJsonSync(path.join(other, 'setup.json'), setup);
+      const imported = new StateStore(other).importSetup(path.join(other, 'setup.json'));
+      assert.equal(imported.suites[0].folder, path.join(other, 'tests'));
+      assert.equal(imported.activeSuite, 'smoke');
+    } finally {
+      removeProject(other);
+    }
+  });
+
+  test('fills the deploy policy of older setups with the defaults', () => {
+    root = createProject({ 'setup.json': JSON.stringify({ version: 4, deployPolicy: { blockOnFailure: false } }) });
+    const state = new StateStore(root).importSetup(path.join(root, 'setup.json'));
+    assert.deepEqual(state.deployPolicy, { ...defaultDeployPolicy, blockOnFailure: false });
+  });
+
+  test('migrates older setups and rejects newer ones', () => {
+    const check = { suite: 'smoke', file: 'home.spec.ts', name: 'Home', frequency: null, locations: [], tags: [], retryStrategy: null, alertChannels: [] };
+    root = createProject({
+      'setup.json': JSON.stringify({ version: 6, checks: [check] }),
+      'newer.json': JSON.stringify({ version: stateVersion + 1 }),
+    });
+    const store = new StateStore(root);
+    store.update((state) => {
+      state.alertPolicy = { ...state.alertPolicy, escalation: { type: 'run', threshold: 2, reminders: 0, reminderInterval: 5, failingLocations: null } };
+    });
+    const state = store.importSetup(path.join(root, 'setup.json'));
+    assert.equal(state.checks[0].alertEscalation, null);
+    assert.equal(state.alertPolicy.escalation?.threshold, 2); // the setup had no policy to replace it with
+    assert.throws(() => store.importSetup(path.join(root, 'newer.json')), /newer version of the manager/);
+  });
+
+  test('shares the alert channels by the names of their secret variables', () => {
+    root = createProject();
+    const slack = { id: 'slack-ops', type: 'slack' as const, sendFailure: true, sendRecovery: true, sendDegraded: false, settings: { url: 'SLACK_OPS_URL', channel: '#ops' } };
+    const store = new StateStore(root);
+    store.update((state) => {
+      state.alertChannels = [slack];
+      state.suites = [{ ...suite('smoke', path.join(root, 'tests')), alertChannels: ['slack-ops'] }];
+    });
+    fs.writeJsonSync(path.join(root, 'setup.json'), store.exportSetup());
+    const other = createProject();
+    try {
+      const imported = new StateStore(other).importSetup(path.join(root, 'setup.json'));
+      assert.deepEqual(imported.alertChannels, [slack]);
+      assert.deepEqual(imported.suites[0].alertChannels, ['slack-ops']);
+    } finally {
+      removeProject(other);
+    }
+  });
+
+  test('refuses setups using alert channels it has no way to add', () => {
+    root = createProject();
+    const store = new StateStore(root);
+    fs.writeJsonSync(path.join(root, 'setup.json'), {
+      version: stateVersion,
+      suites: [{ name: 'smoke', folder: 'tests', originalFolder: 'tests', testMatch: '**/*.spec.ts', alertChannels: ['pagerduty-ops'] }],
+      alertChannels: [],
+    });
+    assert.throws(() => store.importSetup(path.join(root, 'setup.json')), (error: StateError) => {
+      assert.deepEqual(error.problems, [
+        'Suite "smoke" uses the unknown alert channel "pagerduty-ops".',
+        'Export the setup again with these channels, or add them here before importing.',
+      ]);
+      return true;
+    });
+    assert.deepEqual(store.read().suites, []);
+  });
+});
+
+describe('validateState', () => {
+  test('accepts the empty state', () => {
+    assert.deepEqual(validateState(emptyState()), []);
+  });
+
+  test('names the broken fields', () => {
+    const state = { ...emptyState(), suites: [suite('a', 'x'), suite('a', 'y')], activeAccount: 'nobody' };
+    assert.deepEqual(validateState(state), ['suites must have unique names', 'activeAccount "nobody" is not one of the accounts']);
+  });
+});
+
+describe('findProjectRoot', () => {
+  test('walks up to the folder with the configs', () => {
+    root = createProject({ 'tests/cart/a.spec.ts': '' });
+    assert.equal(findProjectRoot(path.join(root, 'tests', 'cart')), root);
+  });
+});
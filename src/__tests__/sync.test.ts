@@ -0,0 +1,68 @@
+// sync.test.ts
+import { test, describe, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs-extra';
+import path from 'path';
+import { describeSyncPlan, hasSyncChanges, SyncEngine } from '../sync';
+import { StateStore } from '../state';
+import { createProject, removeProject, writeFiles } from './helpers';
+
+let root: string;
+let engine: SyncEngine;
+const read = (folder: string, file: string) => fs.readFileSync(path.join(root, folder, file), 'utf-8');
+const statuses = () => engine.plan().map((entry) => `${entry.status}${entry.localEdit ? ' (local)' : ''} ${entry.path}`);
+
+beforeEach(async () => {
+  root = createProject({ 'original/a.spec.ts': 'a1', 'original/cart/b.spec.ts': 'b1' });
+  engine = new SyncEngine(path.join(root, 'original'), path.join(root, 'tests'), new StateStore(root));
+  await engine.apply(engine.plan(), () => 'skip');
+});
+afterEach(() => removeProject(root));
+
+describe('SyncEngine', () => {
+  test('copies new files on the first sync', () => {
+    assert.equal(read('tests', 'cart/b.spec.ts'), 'b1');
+    assert.deepEqual(statuses(), ['unchanged a.spec.ts', 'unchanged cart/b.spec.ts']);
+    assert.equal(hasSyncChanges(engine.plan()), false);
+  });
+
+  test('classifies changes against the last sync', () => {
+    writeFiles(root, { 'original/a.spec.ts': 'a2', 'original/c.spec.ts': 'c1', 'tests/cart/b.spec.ts': 'b-local' });
+    fs.removeSync(path.join(root, 'original', 'cart'));
+    writeFiles(root, { 'original/cart/b.spec.ts': 'b1' });
+    assert.deepEqual(statuses(), ['modified a.spec.ts', 'added c.spec.ts', 'unchanged (local) cart/b.spec.ts']);
+
+    fs.removeSync(path.join(root, 'original', 'c.spec.ts'));
+    writeFiles(root, { 'original/cart/b.spec.ts': 'b2' });
+    assert.deepEqual(statuses(), ['modified a.spec.ts', 'conflict cart/b.spec.ts']);
+  });
+
+  test('applies a plan and resolves conflicts with the callback', async () => {
+    writeFiles(root, { 'original/a.spec.ts': 'a2', 'tests/a.spec.ts': 'a-local' });
+    fs.removeSync(path.join(root, 'original', 'cart'));
+
+    const asked: string[] = [];
+    const result = await engine.apply(engine.plan(), (entry) => {
+      asked.push(entry.path);
+      return 'test';
+    });
+    assert.deepEqual(asked, ['a.spec.ts']);
+    assert.deepEqual(result, { copied: 0, removed: 1, kept: 1, skipped: [] });
+    assert.equal(read('tests', 'a.spec.ts'), 'a-local');
+    assert.equal(fs.existsSync(path.join(root, 'tests', 'cart')), false);
+    assert.deepEqual(statuses(), ['unchanged (local) a.spec.ts']);
+  });
+
+  test('plans only the given paths', () => {
+    writeFiles(root, { 'original/a.spec.ts': 'a2', 'original/cart/b.spec.ts': 'b2' });
+    assert.deepEqual(engine.plan(['cart']).map((entry) => entry.path), ['cart/b.spec.ts']);
+  });
+
+  test('describes the plan', () => {
+    writeFiles(root, { 'original/a.spec.ts': 'a2', 'tests/a.spec.ts': 'a-local' });
+    assert.deepEqual(describeSyncPlan(engine.plan()), [
+      '! a.spec.ts (changed in both folders)',
+      '0 added, 0 modified, 0 deleted, 1 conflicting, 1 unchanged.',
+    ]);
+  });
+});
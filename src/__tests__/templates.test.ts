@@ -0,0 +1,78 @@
+// templates.test.ts
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { fileBase, listProjectTemplates, parseAssertion, renderScaffold, ScaffoldRequest, validateScaffold } from '../templates';
+import { createProject, removeProject } from './helpers';
+
+const suite = { name: 'smoke', folder: '/p/smoke', originalFolder: '/src/smoke', testMatch: '**/*.spec.ts', alertChannels: [] };
+const request = (changes: Partial<ScaffoldRequest>): ScaffoldRequest => ({
+  type: 'browser',
+  name: 'Shop Home',
+  url: 'https://shop.example.com',
+  assertions: [],
+  template: null,
+  ...changes,
+});
+
+describe('validateScaffold', () => {
+  test('accepts the assertions of the check type', () => {
+    assert.deepEqual(validateScaffold(request({ assertions: [parseAssertion('title=Shop')!, parseAssertion('status=200')!] })), []);
+    assert.deepEqual(validateScaffold(request({ type: 'heartbeat', url: null })), []);
+  });
+
+  test('reports the URL, the name and assertions the type does not support', () => {
+    assert.deepEqual(validateScaffold(request({ type: 'api', name: '!!', url: 'shop.example.com', assertions: [parseAssertion('title=Shop')!, parseAssertion('responseTime=fast')!] })), [
+      'The check needs a name with letters or digits.',
+      'The target URL must start with http:// or https://.',
+      'title=Shop: api checks support status, text, header, responseTime assertions.',
+      'responseTime=fast: the response time must be a number of milliseconds.',
+    ]);
+    assert.equal(parseAssertion('status'), null);
+  });
+});
+
+describe('renderScaffold', () => {
+  test('writes a browser spec asserting the status by default', () => {
+    const [spec, ...rest] = renderScaffold(request({}), suite, '/p/suites.check.ts');
+    assert.equal(rest.length, 0);
+    assert.equal(spec.file, 'shop-home.spec.ts');
+    assert.match(spec.content, /test\('Shop Home', async \({ page }\) => {\n  const response = await page.goto\('https:\/\/shop\.example\.com'\);\n  expect\(response\?\.status\(\)\)\.toBe\(200\);\n}\);/);
+  });
+
+  test('writes a multistep spec with its own MultiStepCheck', () => {
+    const files = renderScaffold(request({ type: 'multistep', name: 'Orders API', assertions: [parseAssertion('header=Content-Type:application/json')!] }), suite, '/p/suites.check.ts');
+    assert.deepEqual(files.map((file) => file.file), ['orders-api.spec.ts', 'orders-api.check.ts']);
+    assert.match(files[0].content, /    expect\(response\.headers\(\)\['content-type'\]\)\.toContain\('application\/json'\);/);
+    assert.match(files[1].content, /import { smokeSuite } from '\.\.\/suites\.check';/);
+    assert.match(files[1].content, /new MultiStepCheck\('multistep-smoke-orders-api', {[^]*code: { entrypoint: '\.\/orders-api\.spec\.ts' },/);
+  });
+
+  test('writes API and heartbeat checks', () => {
+    const [api] = renderScaffold(request({ type: 'api', name: 'Health', assertions: [parseAssertion('status=204')!, parseAssertion('responseTime=500')!] }), suite, '/p/suites.check.ts');
+    assert.equal(api.file, 'health.check.ts');
+    assert.match(api.content, /    assertions: \[\n      AssertionBuilder\.statusCode\(\)\.equals\(204\),\n      AssertionBuilder\.responseTime\(\)\.lessThan\(500\),\n    \],/);
+
+    const [heartbeat] = renderScaffold(request({ type: 'heartbeat', name: 'Nightly Backup', url: null }), suite, '/p/suites.check.ts');
+    assert.match(heartbeat.content, /new HeartbeatCheck\('heartbeat-smoke-nightly-backup', {/);
+  });
+
+  test('fills in a project template', () => {
+    const root = createProject({
+      'templates/login.spec.ts': "test('{{name}}', async ({ page }) => {\n  const response = await page.goto('{{url}}/login');\n  // {{assertions}}\n});\n",
+      'templates/notes.txt': 'not a template',
+    });
+    try {
+      const [template] = listProjectTemplates(path.join(root, 'templates'));
+      assert.deepEqual([template.name, template.kind], ['login', 'spec']);
+      const [spec] = renderScaffold(request({ assertions: [parseAssertion('text=Sign in')!] }), suite, '/p/suites.check.ts', template);
+      assert.equal(spec.content, "test('Shop Home', async ({ page }) => {\n  const response = await page.goto('https://shop.example.com/login');\n  await expect(page.getByText('Sign in').first()).toBeVisible();\n});\n");
+    } finally {
+      removeProject(root);
+    }
+  });
+
+  test('names the files after the check', () => {
+    assert.equal(fileBase('  Checkout Flow (EU)! '), 'checkout-flow-eu');
+  });
+});
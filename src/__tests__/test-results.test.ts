@@ -0,0 +1,67 @@
+// test-results.test.ts
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { countResults, formatResults, readPlaywrightReport, specKey } from '../test-results';
+import { compareRuns, describeRun, RunHistory } from '../run-history';
+import { StateStore } from '../state';
+import { createProject, playwrightReport, removeProject } from './helpers';
+
+describe('readPlaywrightReport', () => {
+  test('flattens the JSON report into one result per test', () => {
+    const root = createProject({
+      'report.json': playwrightReport('cart.spec.ts', [
+        { title: 'adds an item', status: 'expected' },
+        { title: 'applies a coupon', status: 'unexpected', error: '\u001b[31mExpected: 10\u001b[39m\nReceived: 9' },
+        { title: 'checks out', status: 'flaky' },
+      ]),
+    });
+    try {
+      const results = readPlaywrightReport(path.join(root, 'report.json'), 'checkout');
+      assert.deepEqual(results.map((result) => result.outcome), ['passed', 'failed', 'flaky']);
+      assert.equal(results[1].error, 'Expected: 10');
+      assert.equal(specKey(results[0]), 'checkout/cart.spec.ts');
+    } finally {
+      removeProject(root);
+    }
+  });
+});
+
+describe('result summaries', () => {
+  const results = [
+    { suite: null, file: 'cart.spec.ts', title: 'adds', project: 'chromium', outcome: 'passed' as const, durationMs: 1 },
+    { suite: null, file: 'cart.spec.ts', title: 'pays', project: 'chromium', outcome: 'failed' as const, durationMs: 1, error: 'boom' },
+    { suite: null, file: 'login.spec.ts', title: 'logs in', project: 'chromium', outcome: 'skipped' as const, durationMs: 0 },
+  ];
+
+  test('count the pass rate over the tests that ran', () => {
+    assert.deepEqual(countResults(results), { passed: 1, failed: 1, flaky: 0, skipped: 1, passRate: 50 });
+    assert.equal(countResults([]).passRate, 100);
+  });
+
+  test('are a table per spec file', () => {
+    assert.deepEqual(formatResults(results), [
+      'Spec           Passed  Failed  Flaky  Skipped',
+      'cart.spec.ts        1       1      0        0  ✗',
+      '  ✗ pays [chromium]: boom',
+      'login.spec.ts       0       0      0        1  ✓',
+      '1 passed, 1 failed, 0 flaky, 1 skipped (50% pass rate).',
+    ]);
+  });
+
+  test('are kept in the run history and compared', () => {
+    const root = createProject();
+    try {
+      const history = new RunHistory(new StateStore(root), 2);
+      const run = { startedAt: '2024-05-01T10:00:00.000Z', finishedAt: '2024-05-01T10:01:00.000Z', suites: [], gate: { allowed: true, reasons: [] }, outcome: 'deployed' as const };
+      history.add({ ...run, results });
+      history.add({ ...run, results: results.map((result) => ({ ...result, outcome: 'passed' as const })) });
+      const third = history.add({ ...run, results: [] });
+      assert.deepEqual(history.list().map((saved) => saved.id), [2, 3]);
+      assert.equal(describeRun(third), '#3 2024-05-01 10:00  0 passed, 0 failed, 0 flaky, 0 skipped  allowed, deployed');
+      assert.deepEqual(compareRuns(history.get(2)!, third).map((change) => change.after), ['missing', 'missing', 'missing']);
+    } finally {
+      removeProject(root);
+    }
+  });
+});
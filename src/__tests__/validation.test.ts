@@ -0,0 +1,126 @@
+// validation.test.ts
+import { test, describe, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { formatDiagnostic, formatDiagnostics, hasErrors, validateProject } from '../validation';
+import { checklyConfigTemplate, createProject, exampleSpec, removeProject } from './helpers';
+
+let root: string;
+afterEach(() => removeProject(root));
+
+const target = (suites: Array<{ name: string; folder: string }> = [{ name: 'smoke', folder: 'tests' }]) => ({
+  projectRoot: root,
+  checklyConfigPath: path.join(root, 'checkly.config.ts'),
+  playwrightConfigPath: path.join(root, 'playwright.config.ts'),
+  statePath: path.join(root, '.checkly-manager', 'state.json'),
+  suites: suites.map((suite) => ({
+    name: suite.name,
+    folder: path.join(root, suite.folder),
+    originalFolder: path.join(root, suite.folder),
+    testMatch: '**/*.spec.ts',
+    alertChannels: [],
+  })),
+  checks: [],
+  profiles: [],
+  alertChannels: [],
+});
+
+describe('validateProject', () => {
+  test('passes the templates with a spec', () => {
+    root = createProject({ 'tests/home.spec.ts': exampleSpec });
+    assert.deepEqual(validateProject(target()), []);
+  });
+
+  test('reports missing imports with their line', () => {
+    root = createProject({
+      'tests/home.spec.ts': `${exampleSpec}import { login } from './helpers/login';\nimport secrets from '../../outside';\n`,
+      'tests/cart.spec.ts': "import { test } from '@playwright/test';\nimport _ from 'lodash';\nimport left from 'left-pad';\nimport fs from 'node:fs';\n",
+    });
+    const diagnostics = validateProject(target());
+    assert.deepEqual(diagnostics.map(formatDiagnostic), [
+      'tests/cart.spec.ts:2: warning: "lodash" is not in package.json, local Playwright runs can\'t import it. [dependency]',
+      'tests/cart.spec.ts:3: error: "left-pad" is not available in Checkly\'s runtime 2024.09, checks importing it fail. [dependency]',
+      'tests/home.spec.ts:13: error: Cannot find "./helpers/login". [local-import]',
+      'tests/home.spec.ts:14: error: Cannot find "../../outside". [local-import]',
+    ]);
+    assert.ok(hasErrors(diagnostics));
+  });
+
+  test('skips imports and exports of only types', () => {
+    root = createProject({
+      'tests/home.spec.ts': [
+        "import type { Page } from 'left-pad';",
+        "import { type Locator } from './types';",
+        "export type { Options } from 'right-pad';",
+        "export { type Fixture } from './fixtures';",
+        "type Lazy = typeof import('center-pad');",
+        "import { test, type Browser } from 'pad-start';",
+        "export { helper } from './helpers';",
+        "const config = require('./config');",
+        '',
+      ].join('\n'),
+    });
+    assert.deepEqual(validateProject(target()).map(formatDiagnostic), [
+      'tests/home.spec.ts:6: error: "pad-start" is not available in Checkly\'s runtime 2024.09, checks importing it fail. [dependency]',
+      'tests/home.spec.ts:7: error: Cannot find "./helpers". [local-import]',
+      'tests/home.spec.ts:8: error: Cannot find "./config". [local-import]',
+    ]);
+  });
+
+  test('checks packages against the configured runtime', () => {
+    const spec = "import { test } from '@playwright/test';\nimport { clerk } from '@clerk/testing/playwright';\nimport { DateTime } from 'luxon';\n";
+    root = createProject({ 'tests/home.spec.ts': spec, 'package.json': JSON.stringify({ devDependencies: { '@playwright/test': '*', '@clerk/testing': '*', luxon: '*' } }) });
+    assert.deepEqual(validateProject(target()), []);
+    removeProject(root);
+
+    root = createProject({
+      'checkly.config.ts': checklyConfigTemplate.replace("runtimeId: '2024.09'", "runtimeId: '2023.09'"),
+      'tests/home.spec.ts': spec,
+    });
+    assert.deepEqual(validateProject(target()).filter((diagnostic) => diagnostic.severity === 'error').map(formatDiagnostic), [
+      'tests/home.spec.ts:2: error: "@clerk/testing" is not available in Checkly\'s runtime 2023.09, checks importing it fail. [dependency]',
+      'tests/home.spec.ts:3: error: "luxon" is not available in Checkly\'s runtime 2023.09, checks importing it fail. [dependency]',
+    ]);
+  });
+
+  test('follows local imports once', () => {
+    root = createProject({
+      'tests/home.spec.ts': "import { a } from './support';\n",
+      'tests/support/index.ts': "import { b } from '../home.spec';\nimport axios from 'axios';\n",
+    });
+    assert.deepEqual(validateProject(target()).map((diagnostic) => `${diagnostic.file}:${diagnostic.line}`), ['tests/support/index.ts:2']);
+  });
+
+  test('reports config problems at the config line', () => {
+    root = createProject({
+      'checkly.config.ts': "import { defineConfig } from 'checkly';\n\nexport default defineConfig({\n  projectName: 'Shop',\n});\n",
+      'playwright.config.ts': "export default {\n  testDir: './e2e',\n};\n",
+      'tests/home.spec.ts': exampleSpec,
+    });
+    assert.deepEqual(validateProject(target()).map(formatDiagnostic), [
+      'checkly.config.ts:3: error: The config has no logicalId, checkly deploy needs one. [checkly-config]',
+      'checkly.config.ts:3: error: The config has no checks object, the suites, locations and alert channels are written into it. [checkly-config]',
+      'playwright.config.ts:2: error: testDir points at a folder that does not exist: ./e2e [playwright-config]',
+    ]);
+  });
+
+  test('reports unparseable configs and missing suite folders', () => {
+    root = createProject({ 'checkly.config.ts': 'const config = {;\n', 'tests/home.spec.ts': exampleSpec });
+    const diagnostics = validateProject(target([{ name: 'smoke', folder: 'missing' }]));
+    assert.deepEqual(diagnostics.map((diagnostic) => [diagnostic.rule, diagnostic.severity]), [
+      ['checkly-config', 'error'],
+      ['suite-folder', 'error'],
+    ]);
+    assert.equal(formatDiagnostics(diagnostics).pop(), '2 error(s), 0 warning(s).');
+  });
+
+  test('reports alert channels that do not exist', () => {
+    root = createProject({ 'tests/home.spec.ts': exampleSpec });
+    const slack = { id: 'slack-ops', type: 'slack' as const, sendFailure: true, sendRecovery: true, sendDegraded: false, settings: { url: 'SLACK_OPS_URL' } };
+    const smoke = target();
+    const suites = [{ ...smoke.suites[0], alertChannels: ['slack-ops', 'pagerduty-ops'] }];
+    assert.deepEqual(validateProject({ ...smoke, suites, alertChannels: [slack] }).map(formatDiagnostic), [
+      '.checkly-manager/state.json: error: Suite "smoke" uses the unknown alert channel "pagerduty-ops". [alert-channel]',
+    ]);
+  });
+});
@@ -0,0 +1,122 @@
+// accounts.ts
+import type { StateStore } from './state';
+
+// A Checkly account the manager can deploy to, e.g. the team's staging and production accounts
+export interface ChecklyAccount {
+  name: string;
+  accountId: string;
+  apiKeyVariable: string | null; // Environment variable holding the API key, null to use the key of `checkly login`
+}
+
+// Where the credentials of the Checkly commands come from
+export type CredentialSource = 'account' | 'environment' | 'login';
+
+// The account the Checkly CLI runs against, as reported by `checkly whoami`
+export interface ChecklySession {
+  accountName: string;
+  accountId: string;
+  userName: string;
+  source: CredentialSource;
+}
+
+export const apiKeyVariable = 'CHECKLY_API_KEY';
+export const accountIdVariable = 'CHECKLY_ACCOUNT_ID';
+
+// Problems with an account, empty when it can be saved
+export function validateAccount(account: ChecklyAccount) {
+  const problems: string[] = [];
+  if (!/^[A-Za-z0-9_-]+$/.test(account.name ?? '')) {
+    problems.push(`Invalid account name "${account.name}". Use only letters, digits, _ and -.`);
+  }
+  if (typeof account.accountId !== 'string' || !/^[A-Za-z0-9-]+$/.test(account.accountId)) {
+    problems.push('The account id must be the id shown in Checkly\'s account settings.');
+  }
+  if (account.apiKeyVariable !== null && !/^[A-Za-z_][A-Za-z0-9_]*$/.test(account.apiKeyVariable ?? '')) {
+    problems.push('The API key variable must be an environment variable name, e.g. CHECKLY_API_KEY_PROD.');
+  }
+  return problems;
+}
+
+// CHECKLY_ACCOUNT_ID and CHECKLY_API_KEY for the Checkly CLI, the key is read from the account's variable.
+// Without one the key is set empty, so the CLI uses the key of `checkly login` and never a CHECKLY_API_KEY of another account
+export function accountEnvironment(account: ChecklyAccount, env: NodeJS.ProcessEnv = process.env): Record<string, string> {
+  const apiKey = account.apiKeyVariable ? env[account.apiKeyVariable] : undefined;
+  return { [accountIdVariable]: account.accountId, [apiKeyVariable]: apiKey ?? '' };
+}
+
+// Credentials set in the environment: both, one of them (the CLI then fails) or none
+export function environmentCredentials(env: NodeJS.ProcessEnv = process.env) {
+  const apiKey = Boolean(env[apiKeyVariable]);
+  const accountId = Boolean(env[accountIdVariable]);
+  return apiKey && accountId ? 'complete' : apiKey || accountId ? 'partial' : 'none';
+}
+
+// Read 'You are currently on account "Acme" (1234-...) as Jane.', null when the output has no account
+export function parseWhoami(output: string, source: CredentialSource): ChecklySession | null {
+  const match = output.replace(/\u001b\[[0-9;]*m/g, '').match(/account "(.*)" \(([^)]+)\) as (.*)\./);
+  return match ? { accountName: match[1], accountId: match[2], userName: match[3], source } : null;
+}
+
+// e.g. 'Acme (1234-...) as Jane, from CHECKLY_API_KEY and CHECKLY_ACCOUNT_ID'
+export function describeSession(session: ChecklySession, account: ChecklyAccount | null = null) {
+  const sources: Record<CredentialSource, string> = {
+    account: `saved account "${account?.name}"`,
+    environment: `${apiKeyVariable} and ${accountIdVariable}`,
+    login: 'checkly login',
+  };
+  return `${session.accountName} (${session.accountId}) as ${session.userName}, from ${sources[session.source]}`;
+}
+
+export function describeAccount(account: ChecklyAccount) {
+  return `${account.name}: ${account.accountId}, API key from ${account.apiKeyVariable ?? 'checkly login'}`;
+}
+
+// Saved accounts and the selected one, kept in the state file between runs
+export class AccountRegistry {
+  constructor(private readonly store: StateStore) {}
+
+  list() {
+    return this.store.read().accounts;
+  }
+
+  get(name: string) {
+    return this.list().find((account) => account.name === name);
+  }
+
+  getActive() {
+    const { activeAccount, accounts } = this.store.read();
+    return accounts.find((account) => account.name === activeAccount) ?? null;
+  }
+
+  // Select an account for the following runs, null to use the environment or checkly login
+  setActive(name: string | null) {
+    if (name !== null && !this.get(name)) {
+      throw new Error(`No account named "${name}".`);
+    }
+    this.store.update((state) => {
+      state.activeAccount = name;
+    });
+  }
+
+  // Add an account or replace the one with the same name, throws if it is invalid
+  put(account: ChecklyAccount) {
+    const problems = validateAccount(account);
+    if (problems.length > 0) {
+      throw new Error(`Invalid account "${account.name}": ${problems.join(' ')}`);
+    }
+    this.store.update((state) => {
+      state.accounts = [...state.accounts.filter((existing) => existing.name !== account.name), account];
+    });
+  }
+
+  remove(name: string) {
+    const exists = this.get(name) !== undefined;
+    if (exists) {
+      this.store.update((state) => {
+        state.accounts = state.accounts.filter((account) => account.name !== name);
+        if (state.activeAccount === name) state.activeAccount = null;
+      });
+    }
+    return exists;
+  }
+}
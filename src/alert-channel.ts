@@ -1,11 +1,287 @@
 // alert-channel.ts
 import { EmailAlertChannel } from 'checkly/constructs';
+import type { StateStore } from './state';
+import { defaultNotifications, NotificationSettings } from './alert-policy';
 
-export function createEmailAlertChannel(email: string) {
-  return new EmailAlertChannel('email-alert-channel', {
-    address: email,
-    sendFailure: true,
-    sendRecovery: true,
-    sendDegraded: false,
+export function createEmailAlertChannel(email: string, notifications: NotificationSettings = defaultNotifications) {
+  return new EmailAlertChannel('email-alert-channel', { address: email, ...notifications });
+}
+
+// Checkly alert channel types the manager can create
+export type AlertChannelType = 'email' | 'slack' | 'webhook' | 'sms' | 'pagerduty' | 'opsgenie';
+
+// A saved alert channel, rendered into a Checkly construct on write
+export interface AlertChannelConfig {
+  id: string; // Logical id of the construct, e.g. 'slack-ops'
+  type: AlertChannelType;
+  sendFailure: boolean;
+  sendRecovery: boolean;
+  sendDegraded: boolean;
+  sslExpiry?: boolean; // Alert before the certificate of a checked site expires, off when missing
+  sslExpiryThreshold?: number; // Days before the expiry, 30 when missing
+  settings: Record<string, string>; // Type specific props, e.g. { url, channel } for Slack
+}
+
+// A type specific prop asked for when creating or editing a channel
+export interface AlertChannelField {
+  name: string;
+  message: string;
+  optional?: boolean;
+  choices?: string[];
+  initial?: string;
+  validate?: (value: string) => boolean;
+  secret?: boolean; // Credentials, the setting names the environment variable holding them and the value is never saved
+}
+
+const isVariableName = (value: string) => /^[A-Za-z_][A-Za-z0-9_]*$/.test(value);
+
+// Basic email address check shared by the prompts and the CLI
+export function isValidEmail(input: string) {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(input);
+}
+
+// Construct class and props for every channel type
+export const alertChannelTypes: Record<AlertChannelType, { title: string; construct: string; fields: AlertChannelField[] }> = {
+  email: {
+    title: 'Email',
+    construct: 'EmailAlertChannel',
+    fields: [{ name: 'address', message: 'Email address', validate: isValidEmail }],
+  },
+  slack: {
+    title: 'Slack',
+    construct: 'SlackAlertChannel',
+    fields: [
+      { name: 'url', message: 'Environment variable holding the Slack incoming webhook URL', validate: isVariableName, secret: true },
+      { name: 'channel', message: 'Slack channel, e.g. #alerts', optional: true },
+    ],
+  },
+  webhook: {
+    title: 'Webhook',
+    construct: 'WebhookAlertChannel',
+    fields: [
+      { name: 'name', message: 'Webhook name' },
+      { name: 'url', message: 'Environment variable holding the webhook URL', validate: isVariableName, secret: true },
+      { name: 'method', message: 'HTTP method', choices: ['POST', 'PUT', 'PATCH', 'GET'], initial: 'POST' },
+      { name: 'template', message: 'Request body template', optional: true },
+    ],
+  },
+  sms: {
+    title: 'SMS',
+    construct: 'SmsAlertChannel',
+    fields: [
+      { name: 'phoneNumber', message: 'Phone number in international format, e.g. +31612345678', validate: (value) => /^\+\d{6,15}$/.test(value) },
+      { name: 'name', message: 'Recipient name', optional: true },
+    ],
+  },
+  pagerduty: {
+    title: 'PagerDuty',
+    construct: 'PagerdutyAlertChannel',
+    fields: [
+      { name: 'serviceKey', message: 'Environment variable holding the PagerDuty integration (service) key', validate: isVariableName, secret: true },
+      { name: 'serviceName', message: 'PagerDuty service name', optional: true },
+      { name: 'account', message: 'PagerDuty account', optional: true },
+    ],
+  },
+  opsgenie: {
+    title: 'Opsgenie',
+    construct: 'OpsgenieAlertChannel',
+    fields: [
+      { name: 'name', message: 'Opsgenie integration name' },
+      { name: 'apiKey', message: 'Environment variable holding the Opsgenie API key', validate: isVariableName, secret: true },
+      { name: 'region', message: 'Opsgenie region', choices: ['EU', 'US'], initial: 'US' },
+      { name: 'priority', message: 'Alert priority', choices: ['P1', 'P2', 'P3', 'P4', 'P5'], initial: 'P3' },
+    ],
+  },
+};
+
+// Check a channel before it is saved, returns a list of problems
+export function validateAlertChannel(channel: AlertChannelConfig) {
+  const problems: string[] = [];
+  const definition = alertChannelTypes[channel.type];
+
+  if (!definition) {
+    return [`Unknown alert channel type "${channel.type}". Use one of: ${Object.keys(alertChannelTypes).join(', ')}.`];
+  }
+  if (!/^[A-Za-z0-9_\-/#.]+$/.test(channel.id)) {
+    problems.push(`Invalid id "${channel.id}". Only letters, digits and _-/#. are allowed.`);
+  }
+
+  for (const field of definition.fields) {
+    const value = channel.settings[field.name];
+    if (!value) {
+      if (!field.optional) problems.push(`Missing "${field.name}" (${field.message}).`);
+      continue;
+    }
+    if (field.secret && !isVariableName(value)) {
+      // never echo the value, it is likely the secret itself
+      problems.push(`Invalid ${field.name}, give the name of the environment variable holding it, e.g. ${secretVariable(channel.id, field.name)}.`);
+    } else if (field.choices && !field.choices.includes(value)) {
+      problems.push(`Invalid ${field.name} "${value}". Use one of: ${field.choices.join(', ')}.`);
+    } else if (field.validate && !field.validate(value)) {
+      problems.push(`Invalid ${field.name} "${value}".`);
+    }
+  }
+
+  if (channel.sslExpiryThreshold !== undefined && (!Number.isInteger(channel.sslExpiryThreshold) || channel.sslExpiryThreshold < 1 || channel.sslExpiryThreshold > 30)) {
+    problems.push('The SSL expiry threshold must be between 1 and 30 days.');
+  }
+
+  const known = definition.fields.map((field) => field.name);
+  for (const name of Object.keys(channel.settings)) {
+    if (!known.includes(name)) problems.push(`Unknown setting "${name}" for ${definition.title} channels.`);
+  }
+  return problems;
+}
+
+// Names of the secret settings of a channel type, e.g. ['url'] for Slack
+export function secretFields(type: AlertChannelType) {
+  return (alertChannelTypes[type]?.fields ?? []).filter((field) => field.secret).map((field) => field.name);
+}
+
+// Environment variable suggested for a secret setting, e.g. 'slack-ops' and 'url' -> 'SLACK_OPS_URL'
+export function secretVariable(id: string, field: string) {
+  const name = `${id}_${field}`.replace(/([a-z0-9])([A-Z])/g, '$1_$2').replace(/[^A-Za-z0-9]+/g, '_').replace(/^_+|_+$/g, '').toUpperCase();
+  return /^[0-9]/.test(name) ? `_${name}` : name;
+}
+
+// The secret settings saved before they were read from the environment, replaced by the variables to set them in
+// Returns the channels and one 'VARIABLE (channel setting)' entry per moved secret
+export function moveSecretsToVariables(channels: AlertChannelConfig[]) {
+  const moved: string[] = [];
+  const updated = channels.map((channel) => {
+    const settings = { ...channel.settings };
+    for (const name of secretFields(channel.type)) {
+      if (!settings[name] || isVariableName(settings[name])) continue;
+      settings[name] = secretVariable(channel.id, name);
+      moved.push(`${settings[name]} (${channel.id} ${name})`);
+    }
+    return { ...channel, settings };
   });
+  return { channels: updated, moved };
+}
+
+// Environment variables of the channels' secret settings that are not set
+export function missingChannelSecrets(channels: AlertChannelConfig[], env: NodeJS.ProcessEnv = process.env) {
+  return channels.flatMap((channel) => secretFields(channel.type).map((name) => channel.settings[name]))
+    .filter((variable) => variable && !env[variable]);
+}
+
+// The value that identifies where a channel sends alerts, for listings
+export function describeAlertChannel(channel: AlertChannelConfig) {
+  const target = channel.settings.address ?? channel.settings.url ?? channel.settings.phoneNumber
+    ?? channel.settings.serviceName ?? channel.settings.name ?? '';
+  const events = [
+    channel.sendFailure && 'failure',
+    channel.sendRecovery && 'recovery',
+    channel.sendDegraded && 'degraded',
+    channel.sslExpiry && `SSL expiry ${channel.sslExpiryThreshold ?? 30}d`,
+  ].filter(Boolean).join(', ');
+  return `${channel.id} (${alertChannelTypes[channel.type]?.title ?? channel.type}) ${target} [${events || 'muted'}]`;
+}
+
+// Variable name a channel is exported as, e.g. 'slack-ops' -> 'slackOpsChannel'
+export function alertChannelVariable(channel: AlertChannelConfig) {
+  const words = channel.id.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  const name = words.map((word, index) => (index === 0 ? word.toLowerCase() : word[0].toUpperCase() + word.slice(1))).join('');
+  const variable = /^[0-9]/.test(name) ? `channel${name}` : name;
+  return /channel/i.test(variable) ? variable : `${variable}Channel`;
+}
+
+// Source of a module exporting one construct per channel
+export function renderAlertChannelsModule(channels: AlertChannelConfig[]) {
+  const constructs = [...new Set(channels.map((channel) => alertChannelTypes[channel.type].construct))];
+  const lines = [
+    '// Generated by the Checkly Test Manager. Manage alert channels from its menu or CLI,',
+    '// changes made to this file are overwritten.',
+    `import { ${constructs.join(', ')} } from 'checkly/constructs';`,
+  ];
+
+  for (const channel of channels) {
+    const secrets = secretFields(channel.type); // read from the environment when Checkly deploys, never written out
+    const props = {
+      ...channel.settings,
+      sendFailure: channel.sendFailure,
+      sendRecovery: channel.sendRecovery,
+      sendDegraded: channel.sendDegraded,
+      ...(channel.sslExpiry ? { sslExpiry: true, sslExpiryThreshold: channel.sslExpiryThreshold ?? 30 } : {}),
+    };
+    lines.push(
+      '',
+      `export const ${alertChannelVariable(channel)} = new ${alertChannelTypes[channel.type].construct}(${literal(channel.id)}, {`,
+      ...Object.entries(props).map(([key, value]) => `  ${key}: ${secrets.includes(key) ? `process.env.${value} ?? ''` : literal(value)},`),
+      '});'
+    );
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+// Escapes of the characters that end a single-quoted string or its line
+const literalEscapes: Record<string, string> = { '\\': '\\\\', "'": "\\'", '\n': '\\n', '\r': '\\r', '\u2028': '\\u2028', '\u2029': '\\u2029' };
+
+// A TypeScript literal for generated code, strings in single quotes
+export function literal(value: string | boolean | number) {
+  return typeof value !== 'string' ? String(value) : `'${value.replace(/[\\'\n\r\u2028\u2029]/g, (character) => literalEscapes[character])}'`;
+}
+
+// Saved alert channels, kept in the state file between runs
+export class AlertChannelRegistry {
+  constructor(private readonly store: StateStore) {}
+
+  list(): AlertChannelConfig[] {
+    return this.store.read().alertChannels;
+  }
+
+  get(id: string) {
+    return this.list().find((channel) => channel.id === id);
+  }
+
+  // Add a new channel, throws if the id is taken or the channel is invalid
+  add(channel: AlertChannelConfig) {
+    const channels = this.list();
+    if (channels.some((existing) => existing.id === channel.id)) {
+      throw new Error(`An alert channel with id "${channel.id}" already exists.`);
+    }
+    if (channels.some((existing) => alertChannelVariable(existing) === alertChannelVariable(channel))) {
+      throw new Error(`The id "${channel.id}" is too similar to an existing channel. Pick another id.`);
+    }
+    this.assertValid(channel);
+    this.save([...channels, channel]);
+  }
+
+  // Replace an existing channel's settings, the id and type stay the same
+  update(id: string, changes: Partial<Omit<AlertChannelConfig, 'id' | 'type'>>) {
+    const channels = this.list();
+    const index = channels.findIndex((channel) => channel.id === id);
+    if (index === -1) {
+      throw new Error(`No alert channel with id "${id}".`);
+    }
+
+    const updated = { ...channels[index], ...changes, id, type: channels[index].type };
+    this.assertValid(updated);
+    channels[index] = updated;
+    this.save(channels);
+    return updated;
+  }
+
+  // Remove a channel, returns false if it didn't exist
+  remove(id: string) {
+    const channels = this.list();
+    const remaining = channels.filter((channel) => channel.id !== id);
+    if (remaining.length === channels.length) return false;
+    this.save(remaining);
+    return true;
+  }
+
+  private assertValid(channel: AlertChannelConfig) {
+    const problems = validateAlertChannel(channel);
+    if (problems.length > 0) {
+      throw new Error(`Invalid alert channel "${channel.id}": ${problems.join(' ')}`);
+    }
+  }
+
+  private save(channels: AlertChannelConfig[]) {
+    this.store.update((state) => {
+      state.alertChannels = channels;
+    });
+  }
 }
@@ -0,0 +1,159 @@
+// alert-policy.ts
+import type { StateStore } from './state';
+
+// Run-based escalation alerts after a number of failed runs in a row, time-based after the check failed for some minutes
+export type EscalationType = 'run' | 'time';
+
+// When Checkly sends the first alert for a failing check and how often it reminds
+export interface EscalationSettings {
+  type: EscalationType;
+  threshold: number; // Failed runs in a row (1-5) for run-based, minutes failing (5, 10, 15 or 30) for time-based
+  reminders: number; // Reminders after the first alert, 0-5
+  reminderInterval: number; // Minutes between reminders: 5, 10, 15 or 30
+  failingLocations: number | null; // Percentage of the locations of a parallel run that must fail, null to alert on any
+}
+
+// Which events alert channels notify about
+export interface NotificationSettings {
+  sendFailure: boolean;
+  sendRecovery: boolean;
+  sendDegraded: boolean;
+  sslExpiry: boolean; // Alert before the certificate of a checked site expires
+  sslExpiryThreshold: number; // Days before the expiry, 1-30
+}
+
+// The project-wide alert settings
+export interface AlertPolicy {
+  escalation: EscalationSettings | null; // Written into every suite group, null keeps the Checkly account's alert settings
+  notifications: NotificationSettings; // Used for new alert channels, and for every channel when applied to them
+}
+
+export const defaultNotifications: NotificationSettings = {
+  sendFailure: true,
+  sendRecovery: true,
+  sendDegraded: false,
+  sslExpiry: false,
+  sslExpiryThreshold: 30,
+};
+
+export const defaultAlertPolicy: AlertPolicy = { escalation: null, notifications: defaultNotifications };
+
+// Values Checkly accepts for the escalation settings
+export const failedRunThresholds = [1, 2, 3, 4, 5];
+export const minutesFailingThresholds = [5, 10, 15, 30];
+export const reminderIntervals = [5, 10, 15, 30];
+
+// The saved policy, the defaults until one is saved
+export function loadAlertPolicy(store: StateStore): AlertPolicy {
+  return store.read().alertPolicy;
+}
+
+export function saveAlertPolicy(store: StateStore, policy: AlertPolicy) {
+  assertValidAlertPolicy(policy);
+  store.update((state) => {
+    state.alertPolicy = policy;
+  });
+}
+
+// Throws if a policy can't be rendered, e.g. 7 reminders
+export function assertValidAlertPolicy(policy: AlertPolicy) {
+  const problems = [
+    ...(policy?.escalation ? validateEscalation(policy.escalation) : []),
+    ...validateNotifications(policy?.notifications),
+  ];
+  if (problems.length > 0) {
+    throw new Error(`Invalid alert policy: ${problems.join(' ')}`);
+  }
+}
+
+// Problems with escalation settings, empty when Checkly accepts them
+export function validateEscalation(escalation: EscalationSettings) {
+  const problems: string[] = [];
+  if (escalation.type === 'run') {
+    if (!failedRunThresholds.includes(escalation.threshold)) problems.push(`Run-based escalation alerts after ${failedRunThresholds.join(', ')} failed runs.`);
+  } else if (escalation.type === 'time') {
+    if (!minutesFailingThresholds.includes(escalation.threshold)) problems.push(`Time-based escalation alerts after ${minutesFailingThresholds.join(', ')} minutes.`);
+  } else {
+    problems.push(`Invalid escalation "${escalation.type}". Use run or time.`);
+  }
+  if (!Number.isInteger(escalation.reminders) || escalation.reminders < 0 || escalation.reminders > 5) {
+    problems.push('Reminders must be between 0 and 5.');
+  }
+  if (!reminderIntervals.includes(escalation.reminderInterval)) {
+    problems.push(`Reminders are sent every ${reminderIntervals.join(', ')} minutes.`);
+  }
+  if (escalation.failingLocations !== null && (!Number.isInteger(escalation.failingLocations) || escalation.failingLocations < 10 || escalation.failingLocations > 100 || escalation.failingLocations % 10 !== 0)) {
+    problems.push('The failing locations percentage must be 10, 20, ... or 100.');
+  }
+  return problems;
+}
+
+export function validateNotifications(notifications: Partial<NotificationSettings> | undefined) {
+  const problems: string[] = [];
+  const flags = ['sendFailure', 'sendRecovery', 'sendDegraded', 'sslExpiry'] as const;
+  if (!notifications || flags.some((flag) => typeof notifications[flag] !== 'boolean')) {
+    problems.push(`${flags.join(', ')} must be true or false.`);
+  }
+  const threshold = notifications?.sslExpiryThreshold;
+  if (!Number.isInteger(threshold) || threshold! < 1 || threshold! > 30) {
+    problems.push('The SSL expiry threshold must be between 1 and 30 days.');
+  }
+  return problems;
+}
+
+// 'run:2' -> alert after 2 failed runs, 'time:10:3:15:50' -> after 10 minutes, 3 reminders every 15 minutes, when 50% of the locations fail
+// 'default' -> null, the suite group's or the account's settings
+export function parseEscalation(value: string): EscalationSettings | null {
+  if (value === 'default') return null;
+  const [type, threshold, reminders, reminderInterval, failingLocations] = value.split(':');
+  return {
+    type: type as EscalationType,
+    threshold: Number(threshold),
+    reminders: reminders ? Number(reminders) : 0,
+    reminderInterval: reminderInterval ? Number(reminderInterval) : 5,
+    failingLocations: failingLocations ? Number(failingLocations) : null,
+  };
+}
+
+// The parseEscalation() form of the settings, the trailing parts are left out while they are the defaults
+export function formatEscalation(escalation: EscalationSettings | null) {
+  if (!escalation) return 'default';
+  const parts = [escalation.type, escalation.threshold, escalation.reminders, escalation.reminderInterval, escalation.failingLocations ?? ''];
+  if (escalation.failingLocations === null) {
+    parts.pop();
+    if (escalation.reminders === 0 && escalation.reminderInterval === 5) parts.splice(2);
+  }
+  return parts.join(':');
+}
+
+// e.g. 'after 2 failed runs, 3 reminders every 10 minutes, when 50% of the locations fail'
+export function describeEscalation(escalation: EscalationSettings | null) {
+  if (!escalation) return "the Checkly account's alert settings";
+  return [
+    escalation.type === 'run' ? `after ${escalation.threshold} failed run(s)` : `after ${escalation.threshold} minutes failing`,
+    escalation.reminders > 0 ? `${escalation.reminders} reminder(s) every ${escalation.reminderInterval} minutes` : 'no reminders',
+    ...(escalation.failingLocations !== null ? [`when ${escalation.failingLocations}% of the locations fail`] : []),
+  ].join(', ');
+}
+
+export function describeAlertPolicy(policy: AlertPolicy) {
+  const { notifications } = policy;
+  const events = [
+    notifications.sendFailure && 'failure',
+    notifications.sendRecovery && 'recovery',
+    notifications.sendDegraded && 'degraded',
+  ].filter(Boolean).join(', ');
+  return [
+    `Escalation: ${describeEscalation(policy.escalation)}`,
+    `Notify on: ${events || 'nothing'}`,
+    `SSL expiry alerts: ${notifications.sslExpiry ? `${notifications.sslExpiryThreshold} days before` : 'off'}`,
+  ];
+}
+
+// The AlertEscalationBuilder call for generated check and group files
+export function renderEscalation(escalation: EscalationSettings) {
+  const builder = escalation.type === 'run' ? 'runBasedEscalation' : 'timeBasedEscalation';
+  const reminders = `{ amount: ${escalation.reminders}, interval: ${escalation.reminderInterval} }`;
+  const locations = escalation.failingLocations !== null ? `, { enabled: true, percentage: ${escalation.failingLocations} }` : '';
+  return `AlertEscalationBuilder.${builder}(${escalation.threshold}, ${reminders}${locations})`;
+}
@@ -0,0 +1,101 @@
+// checkly-runs.ts
+import fs from 'fs-extra';
+import type { TestResult } from './test-results';
+
+// `checkly test` runs the project's checks as they are on disk, `checkly trigger` the deployed ones
+export type ChecklyRunMode = 'test' | 'trigger';
+
+// One check run in Checkly's runtime, from the Checkly CLI's JSON reporter
+export interface CheckRunResult {
+  name: string;
+  checkType: string; // e.g. BROWSER or API
+  file: string | null; // Check or spec file, null for triggered checks
+  location: string;
+  passed: boolean;
+  retries: number; // Attempts before the final result, a pass after retries is flaky
+  durationMs: number | null;
+  link: string | null; // Result details in the Checkly web app, only set for recorded runs
+  error?: string;
+}
+
+// The summary written by `--reporter json` to CHECKLY_REPORTER_JSON_OUTPUT
+interface ChecklyJsonReport {
+  testSessionId?: string;
+  runLocation: string;
+  checks: Array<{
+    result: 'Pass' | 'Fail';
+    name: string;
+    checkType: string;
+    durationMilliseconds: number | null;
+    filename: string | null;
+    link: string | null;
+    runError: unknown;
+    retries?: number;
+  }>;
+}
+
+// Arguments of `npx checkly test|trigger` for one location, the run is recorded so results get a link
+export function checklyRunArgs(mode: ChecklyRunMode, location: string | null, options: { tags?: string[]; grep?: string | null } = {}) {
+  return [
+    'checkly',
+    mode,
+    '--reporter',
+    'json',
+    '--record',
+    ...(location ? ['--location', location] : []),
+    ...(options.tags && options.tags.length > 0 ? ['--tags', options.tags.join(',')] : []),
+    ...(mode === 'test' && options.grep ? ['--grep', options.grep] : []),
+  ];
+}
+
+// Read the JSON report of one `checkly test` or `checkly trigger` run
+export function readChecklyReport(reportPath: string): CheckRunResult[] {
+  const report: ChecklyJsonReport = JSON.parse(fs.readFileSync(reportPath, 'utf-8'));
+  return report.checks.map((check) => ({
+    name: check.name,
+    checkType: check.checkType,
+    file: check.filename ?? null,
+    location: report.runLocation,
+    passed: check.result === 'Pass',
+    retries: check.retries ?? 0,
+    durationMs: check.durationMilliseconds ?? null,
+    link: check.link ?? null,
+    ...(check.result === 'Fail' && check.runError ? { error: String(check.runError).split('\n')[0].trim() } : {}),
+  }));
+}
+
+// Results in the shape of a Playwright run, so the deploy policy and run history treat them alike
+// The location takes the place of the Playwright project
+export function toTestResults(results: CheckRunResult[]): TestResult[] {
+  return results.map((result) => ({
+    suite: null,
+    file: result.file ?? result.name,
+    title: result.name,
+    project: result.location,
+    outcome: !result.passed ? 'failed' : result.retries > 0 ? 'flaky' : 'passed',
+    durationMs: result.durationMs ?? 0,
+    ...(result.error ? { error: result.error } : {}),
+  }));
+}
+
+// Table of the results per check and location, with the link to each result below it
+export function formatCheckRunResults(results: CheckRunResult[]) {
+  if (results.length === 0) return ['Checkly ran no checks.'];
+
+  const nameWidth = Math.max(5, ...results.map((result) => result.name.length));
+  const locationWidth = Math.max(8, ...results.map((result) => result.location.length));
+  const lines = [`${'Check'.padEnd(nameWidth)}  ${'Location'.padEnd(locationWidth)}  ${'Result'.padEnd(7)}  Duration`];
+
+  for (const result of results) {
+    const outcome = !result.passed ? '✗ fail' : result.retries > 0 ? '~ flaky' : '✓ pass';
+    const duration = result.durationMs === null ? '-' : `${(result.durationMs / 1000).toFixed(1)}s`;
+    lines.push(`${result.name.padEnd(nameWidth)}  ${result.location.padEnd(locationWidth)}  ${outcome.padEnd(7)}  ${duration.padStart(8)}`);
+    if (result.error) lines.push(`  ${result.error}`);
+    if (result.link) lines.push(`  ${result.link}`);
+  }
+
+  const failed = results.filter((result) => !result.passed).length;
+  const flaky = results.filter((result) => result.passed && result.retries > 0).length;
+  lines.push(`${results.length - failed - flaky} passed, ${failed} failed, ${flaky} flaky.`);
+  return lines;
+}
@@ -0,0 +1,253 @@
+// checks.ts
+import fs from 'fs-extra';
+import path from 'path';
+import crypto from 'crypto';
+import { AlertChannelConfig, alertChannelVariable, literal } from './alert-channel';
+import { groupVariable, TestSuite } from './suites';
+import { EscalationSettings, renderEscalation, validateEscalation } from './alert-policy';
+import type { StateStore } from './state';
+
+export type RetryType = 'none' | 'fixed' | 'linear' | 'exponential';
+
+export interface RetrySettings {
+  type: RetryType;
+  maxRetries?: number;
+  baseBackoffSeconds?: number;
+}
+
+// Settings of the BrowserCheck generated for one spec file
+export interface CheckSettings {
+  suite: string;
+  file: string; // Spec file, posix path relative to the suite folder
+  name: string;
+  frequency: number | null; // Minutes, null to use the project default
+  locations: string[]; // Empty to use the project default
+  tags: string[];
+  retryStrategy: RetrySettings | null; // null to use the project default
+  alertChannels: string[]; // Alert channel ids, empty to use the suite's channels
+  alertEscalation: EscalationSettings | null; // null to use the alert policy's escalation
+}
+
+// Where a spec's check file stands
+export type CheckFileStatus = 'missing' | 'generated' | 'edited';
+
+// Check frequencies in minutes and their Frequency constant
+export const checkFrequencies: Record<number, string> = {
+  1: 'EVERY_1M',
+  2: 'EVERY_2M',
+  5: 'EVERY_5M',
+  10: 'EVERY_10M',
+  15: 'EVERY_15M',
+  30: 'EVERY_30M',
+  60: 'EVERY_1H',
+  120: 'EVERY_2H',
+  180: 'EVERY_3H',
+  360: 'EVERY_6H',
+  720: 'EVERY_12H',
+  1440: 'EVERY_24H',
+};
+
+const retryBuilders: Record<RetryType, string> = {
+  none: 'noRetries',
+  fixed: 'fixedStrategy',
+  linear: 'linearStrategy',
+  exponential: 'exponentialStrategy',
+};
+
+const hashPrefix = '// checkly-manager-hash: ';
+
+// Settings for a spec that has none yet, named after the file
+export function defaultCheckSettings(suite: string, file: string): CheckSettings {
+  const base = path.posix.basename(file).replace(/\.(spec|test)\.[cm]?[jt]sx?$/, '');
+  const name = base.split(/[-_.\s]+/).filter(Boolean).map((word) => word[0].toUpperCase() + word.slice(1)).join(' ');
+  return { suite, file, name: name || file, frequency: null, locations: [], tags: [], retryStrategy: null, alertChannels: [], alertEscalation: null };
+}
+
+// Problems with a check's settings, empty when it can be generated
+export function validateCheckSettings(settings: CheckSettings) {
+  const problems: string[] = [];
+  if (!settings.name?.trim()) problems.push('The check needs a name.');
+  if (settings.frequency !== null && !checkFrequencies[settings.frequency]) {
+    problems.push(`Invalid frequency ${settings.frequency}. Use one of: ${Object.keys(checkFrequencies).join(', ')} minutes.`);
+  }
+  if (!Array.isArray(settings.locations) || settings.locations.some((location) => !/^[a-z0-9-]+$/.test(location))) {
+    problems.push('Locations must be Checkly location ids, e.g. eu-west-1.');
+  }
+  if (!Array.isArray(settings.tags) || settings.tags.some((tag) => typeof tag !== 'string' || !tag.trim())) {
+    problems.push('Tags must be non-empty strings.');
+  }
+  if (!Array.isArray(settings.alertChannels) || settings.alertChannels.some((id) => typeof id !== 'string')) {
+    problems.push('Alert channels must be a list of channel ids.');
+  }
+
+  if (settings.retryStrategy !== null) problems.push(...validateRetryStrategy(settings.retryStrategy));
+  if (settings.alertEscalation) problems.push(...validateEscalation(settings.alertEscalation));
+  return problems;
+}
+
+// Problems with a retry strategy, empty when Checkly accepts it
+export function validateRetryStrategy(retry: RetrySettings) {
+  const problems: string[] = [];
+  if (!retryBuilders[retry?.type]) {
+    problems.push(`Invalid retry strategy "${retry?.type}". Use one of: ${Object.keys(retryBuilders).join(', ')}.`);
+  } else if (retry.type !== 'none') {
+    if (retry.maxRetries !== undefined && (!Number.isInteger(retry.maxRetries) || retry.maxRetries < 1 || retry.maxRetries > 10)) {
+      problems.push('Max retries must be between 1 and 10.');
+    }
+    if (retry.baseBackoffSeconds !== undefined && (!Number.isInteger(retry.baseBackoffSeconds) || retry.baseBackoffSeconds < 0 || retry.baseBackoffSeconds > 600)) {
+      problems.push('Retry backoff must be between 0 and 600 seconds.');
+    }
+  }
+  return problems;
+}
+
+// 'fixed:2:60' -> fixed strategy, 2 retries, 60 seconds backoff; 'none' disables retries
+export function parseRetryStrategy(value: string): RetrySettings | null {
+  if (value === 'default') return null;
+  const [type, maxRetries, baseBackoffSeconds] = value.split(':');
+  return {
+    type: type as RetryType,
+    ...(maxRetries ? { maxRetries: Number(maxRetries) } : {}),
+    ...(baseBackoffSeconds ? { baseBackoffSeconds: Number(baseBackoffSeconds) } : {}),
+  };
+}
+
+export function describeRetryStrategy(retry: RetrySettings | null) {
+  if (!retry) return 'default';
+  if (retry.type === 'none') return 'none';
+  return [retry.type, retry.maxRetries, retry.baseBackoffSeconds].filter((part) => part !== undefined).join(':');
+}
+
+// A RetryStrategyBuilder call, e.g. 'RetryStrategyBuilder.fixedStrategy({ maxRetries: 2, baseBackoffSeconds: 60 })'
+export function renderRetryStrategy(retry: RetrySettings) {
+  const options = retry.type !== 'none'
+    ? Object.entries({ maxRetries: retry.maxRetries, baseBackoffSeconds: retry.baseBackoffSeconds })
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${key}: ${value}`)
+    : [];
+  return `RetryStrategyBuilder.${retryBuilders[retry.type]}(${options.length > 0 ? `{ ${options.join(', ')} }` : ''})`;
+}
+
+// Retry settings from a RetryStrategyBuilder call, undefined for any other code
+export function parseRetryStrategyCode(code: string): RetrySettings | undefined {
+  const match = /^RetryStrategyBuilder\.(\w+)\(([^)]*)\)$/.exec(code.trim());
+  const type = match && (Object.keys(retryBuilders) as RetryType[]).find((key) => retryBuilders[key] === match[1]);
+  if (!match || !type) return undefined;
+
+  const option = (name: string) => {
+    const value = new RegExp(`\\b${name}\\s*:\\s*(\\d+)`).exec(match[2]);
+    return value ? { [name]: Number(value[1]) } : {};
+  };
+  return { type, ...(type !== 'none' ? { ...option('maxRetries'), ...option('baseBackoffSeconds') } : {}) };
+}
+
+// The .check.ts file next to a spec, e.g. login.spec.ts -> login.check.ts
+export function checkFilePath(suite: TestSuite, file: string) {
+  const specPath = path.join(suite.folder, ...file.split('/'));
+  return specPath.replace(/\.(spec|test)\.[cm]?[jt]sx?$/, '') + '.check.ts';
+}
+
+// Source of a check file, the hash line lets later runs tell generated files from edited ones
+export function renderCheckFile(
+  settings: CheckSettings,
+  suite: TestSuite,
+  channels: AlertChannelConfig[],
+  modules: { suitesModule: string; alertChannelsModule: string }
+) {
+  const filePath = checkFilePath(suite, settings.file);
+  const importPath = (target: string) => {
+    const relative = path.relative(path.dirname(filePath), target).split(path.sep).join('/').replace(/\.ts$/, '');
+    return relative.startsWith('.') ? relative : `./${relative}`;
+  };
+  const checkChannels = channels.filter((channel) => settings.alertChannels.includes(channel.id));
+
+  const constructs = ['BrowserCheck'];
+  if (settings.frequency !== null) constructs.push('Frequency');
+  if (settings.retryStrategy) constructs.push('RetryStrategyBuilder');
+  if (settings.alertEscalation) constructs.push('AlertEscalationBuilder');
+
+  const body = [
+    "import { " + constructs.join(', ') + " } from 'checkly/constructs';",
+    `import { ${groupVariable(suite)} } from '${importPath(modules.suitesModule)}';`,
+    ...(checkChannels.length > 0 ? [`import { ${checkChannels.map(alertChannelVariable).join(', ')} } from '${importPath(modules.alertChannelsModule)}';`] : []),
+    '',
+    `new BrowserCheck(${literal(checkLogicalId(settings))}, {`,
+    `  name: ${literal(settings.name)},`,
+    `  group: ${groupVariable(suite)},`,
+    `  code: { entrypoint: ${literal(`./${path.posix.basename(settings.file)}`)} },`,
+    ...(settings.frequency !== null ? [`  frequency: Frequency.${checkFrequencies[settings.frequency]},`] : []),
+    ...(settings.locations.length > 0 ? [`  locations: [${settings.locations.map(literal).join(', ')}],`] : []),
+    ...(settings.tags.length > 0 ? [`  tags: [${settings.tags.map(literal).join(', ')}],`] : []),
+    ...(settings.retryStrategy ? [`  retryStrategy: ${renderRetryStrategy(settings.retryStrategy)},`] : []),
+    ...(settings.alertEscalation ? [`  alertEscalationPolicy: ${renderEscalation(settings.alertEscalation)},`] : []),
+    ...(checkChannels.length > 0 ? [`  alertChannels: [${checkChannels.map(alertChannelVariable).join(', ')}],`] : []),
+    '});',
+    '',
+  ].join('\n');
+
+  return [
+    `// Generated by the Checkly Test Manager from ${path.posix.basename(settings.file)}. Once edited by hand,`,
+    '// the manager stops regenerating this file.',
+    `${hashPrefix}${hash(body)}`,
+    body,
+  ].join('\n');
+}
+
+// Whether a check file is still exactly as generated
+export function checkFileStatus(filePath: string): CheckFileStatus {
+  if (!fs.existsSync(filePath)) return 'missing';
+  const lines = fs.readFileSync(filePath, 'utf-8').split('\n');
+  const hashLine = lines.findIndex((line) => line.startsWith(hashPrefix));
+  if (hashLine === -1) return 'edited';
+  return lines[hashLine].slice(hashPrefix.length).trim() === hash(lines.slice(hashLine + 1).join('\n')) ? 'generated' : 'edited';
+}
+
+// Logical id of a generated check, stable while the suite and spec keep their names
+export function checkLogicalId(settings: Pick<CheckSettings, 'suite' | 'file'>) {
+  return `check-${settings.suite}-${settings.file}`.replace(/[^A-Za-z0-9_-]+/g, '-').toLowerCase();
+}
+
+// Saved check settings, kept in the state file between runs
+export class CheckRegistry {
+  constructor(private readonly store: StateStore) {}
+
+  list(suite?: string) {
+    return this.store.read().checks.filter((check) => suite === undefined || check.suite === suite);
+  }
+
+  get(suite: string, file: string) {
+    return this.list(suite).find((check) => check.file === file);
+  }
+
+  // Add or replace the settings of a spec's check, throws if they are invalid
+  put(settings: CheckSettings) {
+    const problems = validateCheckSettings(settings);
+    if (problems.length > 0) {
+      throw new Error(`Invalid check settings for ${settings.file}: ${problems.join(' ')}`);
+    }
+    this.store.update((state) => {
+      state.checks = [...state.checks.filter((check) => !(check.suite === settings.suite && check.file === settings.file)), settings];
+    });
+  }
+
+  remove(suite: string, file: string) {
+    const exists = this.get(suite, file) !== undefined;
+    if (exists) {
+      this.store.update((state) => {
+        state.checks = state.checks.filter((check) => !(check.suite === suite && check.file === file));
+      });
+    }
+    return exists;
+  }
+
+  // Drop the checks of a removed suite
+  removeSuite(suite: string) {
+    this.store.update((state) => {
+      state.checks = state.checks.filter((check) => check.suite !== suite);
+    });
+  }
+}
+
+function hash(content: string) {
+  return crypto.createHash('sha256').update(content).digest('hex').slice(0, 16);
+}
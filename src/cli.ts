@@ -0,0 +1,1185 @@
+// cli.ts
+import { parseArgs } from 'util'; // Node's built-in argument parser
+import fs from 'fs-extra';
+import type { TestManager } from './main';
+import { ConflictResolution, conflictResolutions } from './sync';
+import { TestFilter, validateFilter } from './discovery';
+import { describeProfile, emptyProfile, Profile } from './profiles';
+import { ChecklyAccount, describeAccount } from './accounts';
+import { hasErrors, rules } from './validation';
+import { DeployPolicy, describeDeployPolicy, TestRunner, testRunners } from './deploy-policy';
+import { checkFrequencies, CheckSettings, describeRetryStrategy, parseRetryStrategy } from './checks';
+import { parseAssertion, ScaffoldAssertion, ScaffoldType, scaffoldTypes } from './templates';
+import { AlertChannelConfig, AlertChannelType, alertChannelTypes, describeAlertChannel } from './alert-channel';
+import { AlertPolicy, describeAlertPolicy, parseEscalation, validateEscalation } from './alert-policy';
+import { describeBackup } from './config-backups';
+import { checklyRuntimes, describeProjectSettings, ProjectSettings } from './project-settings';
+
+// Exit codes returned by the non-interactive commands
+export const ExitCode = {
+  Success: 0,
+  Failure: 1, // The command ran but did not succeed
+  Usage: 2, // Unknown command, unknown flag or missing argument
+  TestsFailed: 3, // Tests failed with --fail-on-test-failure, or in a run
+  Canceled: 4, // The deployment was not confirmed
+} as const;
+
+const usage = `Usage: npm start -- <command> [options]
+
+Commands:
+  deploy [--yes] [--fail-on-test-failure] [--ignore-policy] [--test-runner <runner>] [--locations <ids>] [filters]
+                                            Run the tests and deploy to Checkly
+  preview                                   Show the checks a deploy would create, update and delete
+  validate [--json] [--rules]               Check the configs, suite folders, spec imports and dependencies
+  deployments [--json] [--limit <n>]        List the saved deploys with their git commit and check counts
+  destroy --confirm <project name>          Delete the project and all its checks from Checkly
+  tests [--json] [filters]                  List the tests of the active suite
+  run [filters]                             Run the Playwright tests without deploying
+  checkly test [--locations <ids>] [filters]
+                                            Run the project's checks in Checkly's runtime without deploying
+  checkly trigger [--locations <ids>] [--tags <list>]
+                                            Run the checks already deployed to Checkly
+  folder set <path> [--suite <name>]        Copy <path> into the project and use it as the test folder
+  folder remove                             Forget the active suite's test folder
+  suites list [--json]                      List the test suites
+  suites add <name> <path>                  Add a suite from <path> and make it active
+  suites edit <name>                        Change a suite's --test-match or --alert-channels
+  suites use <name>                         Make <name> the active suite
+  suites remove <name>                      Remove a suite
+  alerts email add <address>                Send Checkly alerts to <address>
+  alerts email remove                       Remove the email alert channels
+  alerts list [--json]                      List the alert channels
+  alerts add <type> <id> --set key=value    Add a ${Object.keys(alertChannelTypes).join('/')} alert channel
+  alerts edit <id> [--set key=value]        Change an alert channel's settings
+  alerts remove <id>                        Remove an alert channel
+  alerts policy [--json]                    Show the alert escalation and notification policy
+  alerts policy set [--escalation <policy>] [--send-failure <bool>] [--send-recovery <bool>] [--send-degraded <bool>] [--ssl-expiry <days|off>] [--apply-to-channels]
+                                            Change the alert policy, new channels use its notifications
+  checks list [--json]                      List the active suite's spec files and their checks
+  checks set <spec>|--all [--name <name>] [--frequency <n>] [--locations <ids>] [--tags <list>] [--retries <strategy>] [--escalation <policy>] [--alert-channels <ids>]
+                                            Give spec files their own BrowserCheck file
+  checks remove <spec>                      Remove a spec's check settings and its generated file
+  checks generate [--force]                 Regenerate the check files, --force overwrites edited ones
+  new <type> <name> [--url <url>] [--assert kind=value] [--template <name>] [--run]
+                                            Create a ${Object.keys(scaffoldTypes).join('/')} check in the test folder
+  profiles list [--json]                    List the deploy profiles
+  profiles add|edit <name> [--base-url <url>] [--env KEY=value] [--secret NAME] [--locations <ids>] [--frequency <n>] [--alert-channels <ids>]
+                                            Add or change a profile
+  profiles use <name>|none                  Use a profile for the following runs and deploys
+  profiles remove <name>                    Remove a profile
+  accounts list [--json]                    List the saved Checkly accounts
+  accounts add|edit <name> [--account-id <id>] [--api-key-env NAME]
+                                            Save a Checkly account
+  accounts use <name>|none                  Use a saved account, none for CHECKLY_API_KEY/CHECKLY_ACCOUNT_ID or checkly login
+  accounts remove <name>                    Remove a saved account
+  accounts current                          Show the account the Checkly commands run against
+  sync [--dry-run] [--on-conflict <choice>] Bring the test folder up to date with the original folder
+  watch [--run-tests]                       Mirror changes to the original folder until Ctrl+C
+  history [--json] [--limit <n>]            List the saved deploy runs
+  history compare [<before> <after>]        Show the tests whose outcome changed between two runs
+  policy                                    Show the deploy policy
+  policy set [--test-runner <runner>] [--checkly-locations <ids>] [--block-on-failure <bool>] [--block-on-flaky <bool>] [--min-pass-rate <n|none>] [--known-flaky <list>]
+                                            Change the deploy policy
+  settings [--json]                         Show the frequency, locations, runtime, retries and tags checks inherit
+  settings set [--frequency <n>] [--locations <ids>] [--private-locations <slugs>] [--runtime <id>] [--retries <strategy>] [--tags <list>]
+                                            Change the project's check defaults in checkly.config.ts
+  report [--out <folder>] [--markdown]      Write an HTML report and a Markdown summary of the suite, results, alerts and last deploy
+  backups [--json] [--limit <n>]            List the backups of checkly.config.ts and playwright.config.ts
+  backups diff <id>                         Show what restoring a backup would change
+  backups restore <id>                      Roll a config file back to a backup
+  export [<file>]                           Write the suites, alert channels and policies to <file> or stdout
+  import <file>                             Merge a setup exported by a teammate
+  status [--json]                           Show the current configuration
+  help                                      Show this message
+
+Filters pick the tests of a run, or the tests gating a deploy (the whole project is still deployed):
+  --tag <tag>               Tests with this tag, e.g. @smoke (repeatable, any of them)
+  --grep <regex>            Tests whose file, title or tags match
+  --file <path>             Spec file, folder or glob relative to the suite folder (repeatable)
+
+Options:
+  -y, --yes                 Deploy without asking for confirmation, exits with code ${ExitCode.TestsFailed} when the deploy policy blocks
+  --fail-on-test-failure    Exit with code ${ExitCode.TestsFailed} instead of deploying when the deploy policy blocks
+  --ignore-policy           With --yes, deploy even when the deploy policy blocks
+  --json                    Print machine-readable output
+  --rules                   List the rules validate checks
+  --run-tests               Re-run changed .spec.ts files while watching
+  --dry-run                 Only report what sync would change
+  --on-conflict <choice>    Files changed in both folders: ${conflictResolutions.join('/')} (default skip)
+  --profile <name>          Use this profile for the command only (base URL, variables, locations, ...)
+  --account <name>          Use this saved Checkly account for the command only
+  --account-id <id>         Checkly account id of a saved account
+  --api-key-env NAME        Environment variable holding a saved account's API key (empty for checkly login)
+  --base-url <url>          Base URL of a profile, passed to the tests as BASE_URL (empty to remove)
+  --env KEY=value           Environment variable of a profile, repeatable (KEY= removes it)
+  --secret NAME             Secret of a profile, read from the NAME environment variable, repeatable (-NAME removes it)
+  --suite <name>            Use this suite for the command only, suites use saves it (names the new suite for folder set)
+  --test-match <glob>       Spec files of a suite, relative to its folder (default **/*.{spec,test}.{ts,tsx,js,jsx,mjs,cjs})
+  --alert-channels <ids>    Comma-separated alert channel ids of a suite, empty for all channels
+  --name <name>             Name of a check
+  --frequency <n|default>   Minutes between check runs (${Object.keys(checkFrequencies).join(', ')})
+  --locations <ids>         Comma-separated Checkly locations of a check or the project, or to run checks at, e.g. eu-west-1
+  --tags <list>             Comma-separated tags of a check or the project, or of the checks to trigger
+  --private-locations <slugs>
+                            Comma-separated private locations the project's checks run from, empty for none
+  --runtime <id|default>    Checkly runtime of the project's checks (${checklyRuntimes.join(', ')})
+  --retries <strategy>      default, none or fixed|linear|exponential:<max retries>:<backoff seconds>
+  --escalation <policy>     default, or run|time:<failed runs|minutes>[:<reminders>:<reminder minutes>[:<failing locations %>]],
+                            e.g. run:2:3:10:50 alerts after 2 failed runs, reminds 3 times every 10 minutes, when 50% of the locations fail
+  --all                     Apply checks set to every spec file of the suite
+  --force                   Overwrite check files that were edited by hand
+  --url <url>               Page or endpoint a new check tests
+  --assert kind=value       Assertion of a new check, repeatable: status=200, title=Shop, text=Welcome,
+                            header=content-type:json or responseTime=1000 (default status=200)
+  --template <name>         Create a new check from .checkly-manager/templates/<name>.spec.ts or .check.ts
+  --run                     Run a new spec once with Playwright
+  --set key=value           Alert channel setting, repeatable (e.g. --set url=SLACK_OPS_URL, secrets name their environment variable)
+  --out <folder>            Folder the report is written to (default .checkly-manager/reports)
+  --markdown                Also print the Markdown summary, e.g. to paste into a PR or an incident ticket
+  --limit <n>               Number of runs, deployments or backups to list (default 10)
+  --confirm <name>          The project name from checkly.config.ts, required to destroy it
+  --test-runner <runner>    Run the tests gating a deploy with ${testRunners.join(' or ')} (checkly runs checkly test)
+  --checkly-locations <ids> Comma-separated locations checkly test runs at before a deploy, empty for the default
+  --block-on-failure <bool> Block deployments when tests fail (default true)
+  --block-on-flaky <bool>   Block deployments when tests are flaky (default false)
+  --min-pass-rate <n|none>  Percentage of tests that must pass to deploy
+  --known-flaky <list>      Comma-separated spec files or 'file > test' titles that never block
+  --send-failure <bool>     Alert on failures (default true)
+  --send-recovery <bool>    Alert on recoveries (default true)
+  --send-degraded <bool>    Alert on degraded checks (default false)
+  --ssl-expiry <days|off>   Alert this many days (1-30) before a checked site's SSL certificate expires (default off)
+  --apply-to-channels       Give every alert channel the policy's notification settings
+`;
+
+type CliFlags = {
+  yes?: boolean;
+  'fail-on-test-failure'?: boolean;
+  'ignore-policy'?: boolean;
+  json?: boolean;
+  rules?: boolean;
+  'run-tests'?: boolean;
+  'dry-run'?: boolean;
+  'on-conflict'?: string;
+  help?: boolean;
+  suite?: string;
+  'test-match'?: string;
+  'alert-channels'?: string;
+  name?: string;
+  frequency?: string;
+  locations?: string;
+  tags?: string;
+  'private-locations'?: string;
+  runtime?: string;
+  retries?: string;
+  escalation?: string;
+  all?: boolean;
+  force?: boolean;
+  url?: string;
+  assert?: string[];
+  template?: string;
+  run?: boolean;
+  tag?: string[];
+  grep?: string;
+  file?: string[];
+  profile?: string;
+  account?: string;
+  'account-id'?: string;
+  'api-key-env'?: string;
+  'base-url'?: string;
+  env?: string[];
+  secret?: string[];
+  confirm?: string;
+  'test-runner'?: string;
+  'checkly-locations'?: string;
+  set?: string[];
+  limit?: string;
+  'block-on-failure'?: string;
+  'block-on-flaky'?: string;
+  'min-pass-rate'?: string;
+  'known-flaky'?: string;
+  'send-failure'?: string;
+  'send-recovery'?: string;
+  'send-degraded'?: string;
+  'ssl-expiry'?: string;
+  'apply-to-channels'?: boolean;
+  out?: string;
+  markdown?: boolean;
+};
+
+// Entry point for `npm start -- <command>`, resolves to the process exit code
+export async function runCli(manager: TestManager, argv: string[]): Promise<number> {
+  let flags: CliFlags;
+  let positionals: string[];
+
+  try {
+    const parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        yes: { type: 'boolean', short: 'y' },
+        'fail-on-test-failure': { type: 'boolean' },
+        'ignore-policy': { type: 'boolean' },
+        json: { type: 'boolean' },
+        rules: { type: 'boolean' },
+        'run-tests': { type: 'boolean' },
+        'dry-run': { type: 'boolean' },
+        'on-conflict': { type: 'string' },
+        help: { type: 'boolean', short: 'h' },
+        suite: { type: 'string' },
+        'test-match': { type: 'string' },
+        'alert-channels': { type: 'string' },
+        name: { type: 'string' },
+        frequency: { type: 'string' },
+        locations: { type: 'string' },
+        tags: { type: 'string' },
+        'private-locations': { type: 'string' },
+        runtime: { type: 'string' },
+        retries: { type: 'string' },
+        escalation: { type: 'string' },
+        all: { type: 'boolean' },
+        force: { type: 'boolean' },
+        url: { type: 'string' },
+        assert: { type: 'string', multiple: true },
+        template: { type: 'string' },
+        run: { type: 'boolean' },
+        tag: { type: 'string', multiple: true },
+        grep: { type: 'string' },
+        file: { type: 'string', multiple: true },
+        profile: { type: 'string' },
+        account: { type: 'string' },
+        'account-id': { type: 'string' },
+        'api-key-env': { type: 'string' },
+        'base-url': { type: 'string' },
+        env: { type: 'string', multiple: true },
+        secret: { type: 'string', multiple: true },
+        confirm: { type: 'string' },
+        'test-runner': { type: 'string' },
+        'checkly-locations': { type: 'string' },
+        set: { type: 'string', multiple: true },
+        limit: { type: 'string' },
+        'block-on-failure': { type: 'string' },
+        'block-on-flaky': { type: 'string' },
+        'min-pass-rate': { type: 'string' },
+        'known-flaky': { type: 'string' },
+        'send-failure': { type: 'string' },
+        'send-recovery': { type: 'string' },
+        'send-degraded': { type: 'string' },
+        'ssl-expiry': { type: 'string' },
+        'apply-to-channels': { type: 'boolean' },
+        out: { type: 'string' },
+        markdown: { type: 'boolean' },
+      },
+    });
+    flags = parsed.values;
+    positionals = parsed.positionals;
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    console.log(usage);
+    return ExitCode.Usage;
+  }
+
+  const [command, ...args] = positionals;
+  if (flags.help || command === 'help') {
+    console.log(usage);
+    return ExitCode.Success;
+  }
+
+  if (!manager.checkState()) return ExitCode.Failure;
+
+  try {
+    manager.loadSavedFolder(); // Commands work on the saved folder, never the folder prompt
+
+    // --suite only applies to this command, `suites use` saves the choice; `folder set` and `suites` use it as a name instead
+    if (flags.suite && command !== 'folder' && command !== 'suites' && !(await manager.switchSuite(flags.suite, false))) {
+      return ExitCode.Failure;
+    }
+    // --profile only applies to this command, `profiles use` saves the choice
+    if (flags.profile && command !== 'profiles' && !(await manager.useProfile(flags.profile, false))) {
+      return ExitCode.Failure;
+    }
+    // --account only applies to this command, `accounts use` saves the choice
+    if (flags.account && command !== 'accounts' && !(await manager.useAccount(flags.account, false))) {
+      return ExitCode.Failure;
+    }
+
+    switch (command) {
+      case 'deploy':
+        return await deployCommand(manager, flags);
+      case 'preview':
+        return (await manager.previewDeploy()) ? ExitCode.Success : ExitCode.Failure;
+      case 'validate':
+        return validateCommand(manager, flags);
+      case 'deployments':
+        return deploymentsCommand(manager, flags);
+      case 'destroy':
+        if (flags.confirm === undefined) {
+          console.error('Usage: destroy --confirm <project name>');
+          return ExitCode.Usage;
+        }
+        return (await manager.destroyProject(flags.confirm)) ? ExitCode.Success : ExitCode.Failure;
+      case 'tests':
+        return testsCommand(manager, flags);
+      case 'run':
+        return await runCommand(manager, flags);
+      case 'checkly':
+        return await checklyCommand(manager, args, flags);
+      case 'folder':
+        return await folderCommand(manager, args, flags);
+      case 'alerts':
+        return await alertsCommand(manager, args, flags);
+      case 'suites':
+        return await suitesCommand(manager, args, flags);
+      case 'checks':
+        return await checksCommand(manager, args, flags);
+      case 'new':
+        return await newCommand(manager, args, flags);
+      case 'profiles':
+        return await profilesCommand(manager, args, flags);
+      case 'accounts':
+        return await accountsCommand(manager, args, flags);
+      case 'sync':
+        return await syncCommand(manager, flags);
+      case 'watch':
+        return (await manager.watchOriginalFolder({ runTests: flags['run-tests'] })) ? ExitCode.Success : ExitCode.Failure;
+      case 'history':
+        return historyCommand(manager, args, flags);
+      case 'policy':
+        return await policyCommand(manager, args, flags);
+      case 'settings':
+        return await settingsCommand(manager, args, flags);
+      case 'report': {
+        const files = manager.generateReport(flags.out);
+        if (files && flags.markdown) console.log(`\n${fs.readFileSync(files.markdown, 'utf-8')}`);
+        return files ? ExitCode.Success : ExitCode.Failure;
+      }
+      case 'backups':
+        return await backupsCommand(manager, args, flags);
+      case 'export':
+        return manager.exportSetup(args[0]) ? ExitCode.Success : ExitCode.Failure;
+      case 'import':
+        if (!args[0]) {
+          console.error('Usage: import <file>');
+          return ExitCode.Usage;
+        }
+        return (await manager.importSetup(args[0])) ? ExitCode.Success : ExitCode.Failure;
+      case 'status':
+        return statusCommand(manager, flags);
+      default:
+        console.error(command ? `Unknown command: ${command}` : 'No command given.');
+        console.log(usage);
+        return ExitCode.Usage;
+    }
+  } catch (error) {
+    console.error(`Command failed: ${error instanceof Error ? error.message : error}`);
+    return ExitCode.Failure;
+  }
+}
+
+// deploy [--yes] [--fail-on-test-failure] [--ignore-policy] [--test-runner <runner>] [--locations <ids>]
+async function deployCommand(manager: TestManager, flags: CliFlags) {
+  if (!flags.yes && !process.stdin.isTTY) {
+    console.error('Refusing to ask for confirmation without a terminal. Pass --yes to deploy.');
+    return ExitCode.Usage;
+  }
+
+  const filter = testFilter(flags);
+  if (!isValidFilter(filter)) return ExitCode.Usage;
+  const testRunner = parseTestRunner(flags['test-runner']);
+  if (testRunner === null) return ExitCode.Usage;
+
+  const result = await manager.deployToCheckly({
+    yes: flags.yes,
+    failOnTestFailure: flags['fail-on-test-failure'],
+    ignorePolicy: flags['ignore-policy'],
+    filter,
+    testRunner,
+    locations: flags.locations !== undefined ? list(flags.locations) : undefined,
+  });
+
+  switch (result) {
+    case 'deployed':
+      return ExitCode.Success;
+    case 'tests-failed':
+      return ExitCode.TestsFailed;
+    case 'canceled':
+      return ExitCode.Canceled;
+    default:
+      return ExitCode.Failure;
+  }
+}
+
+// validate [--json] [--rules]
+function validateCommand(manager: TestManager, flags: CliFlags) {
+  if (flags.rules) {
+    Object.entries(rules).forEach(([rule, description]) => console.log(`${rule.padEnd(18)} ${description}`));
+    return ExitCode.Success;
+  }
+  if (!flags.json) {
+    return manager.showValidation() ? ExitCode.Success : ExitCode.Failure;
+  }
+
+  const diagnostics = manager.validateProject();
+  console.log(JSON.stringify(diagnostics, null, 2));
+  return hasErrors(diagnostics) ? ExitCode.Failure : ExitCode.Success;
+}
+
+// deployments [--json] [--limit <n>]
+function deploymentsCommand(manager: TestManager, flags: CliFlags) {
+  const limit = parseLimit(flags);
+  if (limit === null) return ExitCode.Usage;
+
+  if (flags.json) {
+    console.log(JSON.stringify(manager.listDeployments().slice(-limit), null, 2));
+  } else {
+    manager.showDeployments(limit);
+  }
+  return ExitCode.Success;
+}
+
+// tests [--json] [--tag <tag>] [--grep <regex>] [--file <path>]
+function testsCommand(manager: TestManager, flags: CliFlags) {
+  const filter = testFilter(flags);
+  if (!isValidFilter(filter)) return ExitCode.Usage;
+
+  if (flags.json) {
+    console.log(JSON.stringify(manager.listTests(filter), null, 2));
+  } else {
+    manager.showTests(filter);
+  }
+  return ExitCode.Success;
+}
+
+// run [--tag <tag>] [--grep <regex>] [--file <path>]
+async function runCommand(manager: TestManager, flags: CliFlags) {
+  const filter = testFilter(flags);
+  if (!isValidFilter(filter)) return ExitCode.Usage;
+
+  switch (await manager.runTests(filter)) {
+    case 'passed':
+      return ExitCode.Success;
+    case 'failed':
+      return ExitCode.TestsFailed;
+    case 'canceled':
+      return ExitCode.Canceled;
+    default:
+      return ExitCode.Failure;
+  }
+}
+
+// checkly test [--locations <ids>] [filters] | checkly trigger [--locations <ids>] [--tags <list>]
+async function checklyCommand(manager: TestManager, args: string[], flags: CliFlags) {
+  const [action] = args;
+  const locations = flags.locations !== undefined ? list(flags.locations) : [];
+  let result;
+
+  if (action === 'test') {
+    const filter = testFilter(flags);
+    if (!isValidFilter(filter)) return ExitCode.Usage;
+    result = await manager.testInCheckly({ locations, filter });
+  } else if (action === 'trigger') {
+    result = await manager.triggerChecks({ locations, tags: flags.tags !== undefined ? list(flags.tags) : [] });
+  } else {
+    console.error('Usage: checkly test [--locations <ids>] [filters] | checkly trigger [--locations <ids>] [--tags <list>]');
+    return ExitCode.Usage;
+  }
+
+  switch (result) {
+    case 'passed':
+      return ExitCode.Success;
+    case 'failed':
+      return ExitCode.TestsFailed;
+    case 'canceled':
+      return ExitCode.Canceled;
+    default:
+      return ExitCode.Failure;
+  }
+}
+
+// --test-runner as a runner, undefined when not given, null when it is invalid
+function parseTestRunner(value: string | undefined): TestRunner | undefined | null {
+  if (value === undefined) return undefined;
+  if (!testRunners.includes(value as TestRunner)) {
+    console.error(`Invalid --test-runner "${value}". Use one of: ${testRunners.join(', ')}.`);
+    return null;
+  }
+  return value as TestRunner;
+}
+
+// Comma-separated flag value as a list, e.g. --locations eu-west-1,us-east-1
+function list(value: string) {
+  return value.split(',').map((entry) => entry.trim()).filter(Boolean);
+}
+
+function isValidFilter(filter: TestFilter) {
+  const problems = validateFilter(filter);
+  problems.forEach((problem) => console.error(problem));
+  return problems.length === 0;
+}
+
+// --tag/--grep/--file as a test filter
+function testFilter(flags: CliFlags): TestFilter {
+  return { tags: flags.tag ?? [], grep: flags.grep ?? null, files: flags.file ?? [] };
+}
+
+// sync [--dry-run] [--on-conflict original|test|skip]
+async function syncCommand(manager: TestManager, flags: CliFlags) {
+  const onConflict = flags['on-conflict'];
+  if (onConflict && !conflictResolutions.includes(onConflict as ConflictResolution)) {
+    console.error(`Invalid --on-conflict "${onConflict}". Use one of: ${conflictResolutions.join(', ')}.`);
+    return ExitCode.Usage;
+  }
+
+  const synced = await manager.syncOriginalFolder({
+    dryRun: flags['dry-run'],
+    onConflict: onConflict as ConflictResolution | undefined,
+  });
+  return synced ? ExitCode.Success : ExitCode.Failure;
+}
+
+// folder set <path> [--suite <name>] | folder remove
+async function folderCommand(manager: TestManager, args: string[], flags: CliFlags) {
+  const [action, folderPath] = args;
+
+  if (action === 'set' && folderPath) {
+    return (await manager.setTestFolder(folderPath, flags.suite)) ? ExitCode.Success : ExitCode.Failure;
+  }
+  if (action === 'remove') {
+    return (await manager.removeTestFolder()) ? ExitCode.Success : ExitCode.Failure;
+  }
+
+  console.error('Usage: folder set <path> | folder remove');
+  return ExitCode.Usage;
+}
+
+// suites list|add|edit|use|remove
+async function suitesCommand(manager: TestManager, args: string[], flags: CliFlags) {
+  const [action, name, folderPath] = args;
+
+  if (action === 'list') {
+    const suites = manager.listSuites();
+    const active = manager.getStatus().activeSuite;
+    if (flags.json) {
+      console.log(JSON.stringify(suites.map((suite) => ({ ...suite, active: suite.name === active })), null, 2));
+    } else if (suites.length === 0) {
+      console.log('No test suites set.');
+    } else {
+      suites.forEach((suite) => console.log(`${suite.name === active ? '*' : '-'} ${suite.name}: ${suite.folder} (${suite.testMatch})`));
+    }
+    return ExitCode.Success;
+  }
+
+  if (action === 'add' && name && folderPath) {
+    if (!(await manager.setTestFolder(folderPath, name))) return ExitCode.Failure;
+    return hasSuiteChanges(flags) ? editSuite(manager, name, flags) : ExitCode.Success;
+  }
+  if (action === 'edit' && name && hasSuiteChanges(flags)) {
+    return editSuite(manager, name, flags);
+  }
+  if (action === 'use' && name) {
+    return (await manager.switchSuite(name)) ? ExitCode.Success : ExitCode.Failure;
+  }
+  if (action === 'remove' && name) {
+    return (await manager.removeSuite(name)) ? ExitCode.Success : ExitCode.Failure;
+  }
+
+  console.error('Usage: suites list | suites add <name> <path> | suites edit <name> --test-match <glob> --alert-channels <ids> | suites use <name> | suites remove <name>');
+  return ExitCode.Usage;
+}
+
+function hasSuiteChanges(flags: CliFlags) {
+  return flags['test-match'] !== undefined || flags['alert-channels'] !== undefined;
+}
+
+async function editSuite(manager: TestManager, name: string, flags: CliFlags) {
+  const changes = {
+    ...(flags['test-match'] !== undefined ? { testMatch: flags['test-match'] } : {}),
+    ...(flags['alert-channels'] !== undefined
+      ? { alertChannels: flags['alert-channels'].split(',').map((id) => id.trim()).filter(Boolean) }
+      : {}),
+  };
+  return (await manager.editSuite(name, changes)) ? ExitCode.Success : ExitCode.Failure;
+}
+
+// checks list|set|remove|generate
+async function checksCommand(manager: TestManager, args: string[], flags: CliFlags) {
+  const [action, file] = args;
+
+  if (action === 'list') {
+    const specs = manager.listChecks();
+    if (flags.json) {
+      console.log(JSON.stringify(specs, null, 2));
+    } else if (specs.length === 0) {
+      console.log('No spec files in the active suite.');
+    } else {
+      for (const spec of specs) {
+        const settings = spec.settings;
+        console.log(settings
+          ? `- ${spec.file}: ${settings.name}, every ${settings.frequency ?? 'default'} min, retries ${describeRetryStrategy(settings.retryStrategy)} (${spec.status})`
+          : `- ${spec.file}: part of the suite group`);
+      }
+    }
+    return ExitCode.Success;
+  }
+
+  if (action === 'set' && (file || flags.all)) {
+    const changes = parseCheckFlags(flags);
+    if (!changes) return ExitCode.Usage;
+    if (flags.all && changes.name !== undefined) {
+      console.error('--name can only be set for one spec file.');
+      return ExitCode.Usage;
+    }
+
+    const files = flags.all ? manager.listChecks().map((spec) => spec.file) : [file];
+    for (const specFile of files) {
+      if (!(await manager.configureCheck(specFile, changes))) return ExitCode.Failure;
+    }
+    return ExitCode.Success;
+  }
+  if (action === 'remove' && file) {
+    return manager.removeCheck(file) ? ExitCode.Success : ExitCode.Failure;
+  }
+  if (action === 'generate') {
+    return manager.generateChecks(flags.force) ? ExitCode.Success : ExitCode.Failure;
+  }
+
+  console.error('Usage: checks list | checks set <spec>|--all [options] | checks remove <spec> | checks generate [--force]');
+  return ExitCode.Usage;
+}
+
+// --name/--frequency/--locations/--tags/--retries/--escalation/--alert-channels as check settings, only the ones given
+function parseCheckFlags(flags: CliFlags) {
+  const changes: Partial<CheckSettings> = {};
+
+  if (flags.name !== undefined) changes.name = flags.name;
+  if (flags.frequency !== undefined) {
+    const frequency = parseFrequency(flags.frequency);
+    if (frequency === undefined) return null;
+    changes.frequency = frequency;
+  }
+  if (flags.locations !== undefined) changes.locations = list(flags.locations);
+  if (flags.tags !== undefined) changes.tags = list(flags.tags);
+  if (flags.retries !== undefined) changes.retryStrategy = parseRetryStrategy(flags.retries);
+  if (flags.escalation !== undefined) {
+    const escalation = parseEscalationFlag(flags.escalation);
+    if (escalation === undefined) return null;
+    changes.alertEscalation = escalation;
+  }
+  if (flags['alert-channels'] !== undefined) changes.alertChannels = list(flags['alert-channels']);
+  return changes;
+}
+
+// new <type> <name> [--url <url>] [--assert kind=value] [--template <name>] [--run]
+async function newCommand(manager: TestManager, args: string[], flags: CliFlags) {
+  const [type, name] = args;
+  if (!type || !name || args.length > 2) {
+    console.error('Usage: new <type> <name> [--url <url>] [--assert kind=value] [--template <name>] [--run]');
+    return ExitCode.Usage;
+  }
+  if (!(type in scaffoldTypes)) {
+    console.error(`Unknown check type "${type}". Use one of: ${Object.keys(scaffoldTypes).join(', ')}.`);
+    return ExitCode.Usage;
+  }
+
+  const assertions: ScaffoldAssertion[] = [];
+  for (const value of flags.assert ?? []) {
+    const assertion = parseAssertion(value);
+    if (!assertion) {
+      console.error(`Expected --assert kind=value, got "${value}".`);
+      return ExitCode.Usage;
+    }
+    assertions.push(assertion);
+  }
+
+  const files = await manager.createCheck({ type: type as ScaffoldType, name, url: flags.url ?? null, assertions, template: flags.template ?? null });
+  if (!files) return ExitCode.Failure;
+  const spec = files.find((file) => file.endsWith('.spec.ts'));
+  if (!flags.run) return ExitCode.Success;
+  if (!spec) {
+    console.log(`${type} checks have no Playwright spec, there is nothing to run locally.`);
+    return ExitCode.Success;
+  }
+
+  switch (await manager.runTests({ tags: [], grep: null, files: [spec] })) {
+    case 'passed':
+      return ExitCode.Success;
+    case 'failed':
+      return ExitCode.TestsFailed;
+    case 'canceled':
+      return ExitCode.Canceled;
+    default:
+      return ExitCode.Failure;
+  }
+}
+
+// profiles list|add|edit|use|remove
+async function profilesCommand(manager: TestManager, args: string[], flags: CliFlags) {
+  const [action, name] = args;
+
+  if (action === 'list') {
+    const profiles = manager.listProfiles();
+    const active = manager.getStatus().profile;
+    if (flags.json) {
+      console.log(JSON.stringify(profiles.map((profile) => ({ ...profile, active: profile.name === active })), null, 2));
+    } else if (profiles.length === 0) {
+      console.log('No profiles set.');
+    } else {
+      profiles.forEach((profile) => console.log(`${profile.name === active ? '*' : '-'} ${describeProfile(profile)}`));
+    }
+    return ExitCode.Success;
+  }
+
+  if ((action === 'add' || action === 'edit') && name) {
+    const exists = manager.listProfiles().some((profile) => profile.name === name);
+    if (exists !== (action === 'edit')) {
+      console.error(exists ? `Profile "${name}" already exists, use profiles edit.` : `No profile named "${name}".`);
+      return ExitCode.Failure;
+    }
+    const current = manager.listProfiles().find((profile) => profile.name === name) ?? emptyProfile(name);
+    const changes = parseProfileFlags(current, flags);
+    if (!changes) return ExitCode.Usage;
+    return (await manager.saveProfile(name, changes)) ? ExitCode.Success : ExitCode.Failure;
+  }
+  if (action === 'use' && name) {
+    return (await manager.useProfile(name === 'none' ? null : name)) ? ExitCode.Success : ExitCode.Failure;
+  }
+  if (action === 'remove' && name) {
+    return (await manager.removeProfile(name)) ? ExitCode.Success : ExitCode.Failure;
+  }
+
+  console.error('Usage: profiles list | profiles add <name> [options] | profiles edit <name> [options] | profiles use <name>|none | profiles remove <name>');
+  return ExitCode.Usage;
+}
+
+// Profile flags applied to `current`, only the ones given
+function parseProfileFlags(current: Profile, flags: CliFlags) {
+  const changes: Partial<Profile> = {};
+
+  if (flags['base-url'] !== undefined) changes.baseUrl = flags['base-url'] || null;
+  if (flags.env) {
+    const settings = parseSettings(flags.env);
+    if (!settings) return null;
+    changes.environmentVariables = withoutEmpty({ ...current.environmentVariables, ...settings });
+  }
+  if (flags.secret) {
+    const removed = flags.secret.filter((name) => name.startsWith('-')).map((name) => name.slice(1));
+    const added = flags.secret.filter((name) => !name.startsWith('-'));
+    changes.secrets = [...new Set([...current.secrets, ...added])].filter((name) => !removed.includes(name));
+  }
+  if (flags.locations !== undefined) changes.locations = list(flags.locations);
+  if (flags.frequency !== undefined) {
+    const frequency = parseFrequency(flags.frequency);
+    if (frequency === undefined) return null;
+    changes.frequency = frequency;
+  }
+  if (flags['alert-channels'] !== undefined) changes.alertChannels = list(flags['alert-channels']);
+  return changes;
+}
+
+// accounts list|add|edit|use|remove|current
+async function accountsCommand(manager: TestManager, args: string[], flags: CliFlags) {
+  const [action, name] = args;
+
+  if (action === 'list') {
+    const accounts = manager.listAccounts();
+    const active = manager.getStatus().account;
+    if (flags.json) {
+      console.log(JSON.stringify(accounts.map((account) => ({ ...account, active: account.name === active })), null, 2));
+    } else if (accounts.length === 0) {
+      console.log('No accounts saved.');
+    } else {
+      accounts.forEach((account) => console.log(`${account.name === active ? '*' : '-'} ${describeAccount(account)}`));
+    }
+    return ExitCode.Success;
+  }
+
+  if ((action === 'add' || action === 'edit') && name) {
+    const exists = manager.listAccounts().some((account) => account.name === name);
+    if (exists !== (action === 'edit')) {
+      console.error(exists ? `Account "${name}" already exists, use accounts edit.` : `No account named "${name}".`);
+      return ExitCode.Failure;
+    }
+    if (action === 'add' && flags['account-id'] === undefined) {
+      console.error('Usage: accounts add <name> --account-id <id> [--api-key-env NAME]');
+      return ExitCode.Usage;
+    }
+    const changes: Partial<ChecklyAccount> = {};
+    if (flags['account-id'] !== undefined) changes.accountId = flags['account-id'];
+    if (flags['api-key-env'] !== undefined) changes.apiKeyVariable = flags['api-key-env'] || null;
+    return (await manager.saveAccount(name, changes)) ? ExitCode.Success : ExitCode.Failure;
+  }
+  if (action === 'use' && name) {
+    return (await manager.useAccount(name === 'none' ? null : name)) ? ExitCode.Success : ExitCode.Failure;
+  }
+  if (action === 'remove' && name) {
+    return manager.removeAccount(name) ? ExitCode.Success : ExitCode.Failure;
+  }
+  if (action === 'current') {
+    return (await manager.showAccount()) ? ExitCode.Success : ExitCode.Failure;
+  }
+
+  console.error('Usage: accounts list | accounts add <name> --account-id <id> [--api-key-env NAME] | accounts edit <name> [options] | accounts use <name>|none | accounts remove <name> | accounts current');
+  return ExitCode.Usage;
+}
+
+// --frequency in minutes, null for 'default', undefined when it is invalid
+function parseFrequency(value: string) {
+  if (value === 'default') return null;
+  if (!checkFrequencies[Number(value)]) {
+    console.error(`Invalid --frequency "${value}". Use default or one of: ${Object.keys(checkFrequencies).join(', ')}.`);
+    return undefined;
+  }
+  return Number(value);
+}
+
+// --escalation as escalation settings, null for 'default', undefined when it is invalid
+function parseEscalationFlag(value: string) {
+  const escalation = parseEscalation(value);
+  const problems = escalation ? validateEscalation(escalation) : [];
+  if (problems.length > 0) {
+    console.error(`Invalid --escalation "${value}": ${problems.join(' ')}`);
+    return undefined;
+  }
+  return escalation;
+}
+
+// alerts email add|remove, alerts list|add|edit|remove, alerts policy [set]
+async function alertsCommand(manager: TestManager, args: string[], flags: CliFlags) {
+  const [action, ...rest] = args;
+
+  if (action === 'email') {
+    const [emailAction, address] = rest;
+    if (emailAction === 'add' && address) {
+      return (await manager.setupEmailChannel(address)) ? ExitCode.Success : ExitCode.Failure;
+    }
+    if (emailAction === 'remove') {
+      return (await manager.removeEmailChannel()) ? ExitCode.Success : ExitCode.Failure;
+    }
+  }
+
+  if (action === 'list') {
+    const channels = manager.listAlertChannels();
+    if (flags.json) {
+      console.log(JSON.stringify(channels, null, 2));
+    } else if (channels.length === 0) {
+      console.log('No alert channels set.');
+    } else {
+      channels.forEach((channel) => console.log(`- ${describeAlertChannel(channel)}`));
+    }
+    return ExitCode.Success;
+  }
+
+  if (action === 'add' && rest.length === 2) {
+    const [type, id] = rest;
+    if (!(type in alertChannelTypes)) {
+      console.error(`Unknown alert channel type "${type}". Use one of: ${Object.keys(alertChannelTypes).join(', ')}.`);
+      return ExitCode.Usage;
+    }
+
+    const events = parseEventFlags(flags);
+    const settings = parseSettings(flags.set);
+    if (!events || !settings) return ExitCode.Usage;
+
+    // Events without a flag come from the alert policy
+    const defaults = manager.getAlertPolicy().notifications;
+    const channel: AlertChannelConfig = {
+      id,
+      type: type as AlertChannelType,
+      sendFailure: events.sendFailure ?? defaults.sendFailure,
+      sendRecovery: events.sendRecovery ?? defaults.sendRecovery,
+      sendDegraded: events.sendDegraded ?? defaults.sendDegraded,
+      ...((events.sslExpiry ?? defaults.sslExpiry) ? { sslExpiry: true, sslExpiryThreshold: events.sslExpiryThreshold ?? defaults.sslExpiryThreshold } : {}),
+      settings: withoutEmpty({ ...defaultSettings(type as AlertChannelType), ...settings }),
+    };
+    return (await manager.addAlertChannel(channel)) ? ExitCode.Success : ExitCode.Failure;
+  }
+
+  if (action === 'edit' && rest.length === 1) {
+    const [id] = rest;
+    const current = manager.listAlertChannels().find((channel) => channel.id === id);
+    if (!current) {
+      console.error(`No alert channel with id "${id}".`);
+      return ExitCode.Failure;
+    }
+
+    const events = parseEventFlags(flags);
+    const settings = parseSettings(flags.set);
+    if (!events || !settings) return ExitCode.Usage;
+
+    const changes = { ...events, settings: withoutEmpty({ ...current.settings, ...settings }) };
+    return (await manager.editAlertChannel(id, changes)) ? ExitCode.Success : ExitCode.Failure;
+  }
+
+  if (action === 'remove' && rest.length === 1) {
+    return (await manager.removeAlertChannel(rest[0])) ? ExitCode.Success : ExitCode.Failure;
+  }
+
+  if (action === 'policy' && rest.length <= 1) {
+    return await alertPolicyCommand(manager, rest[0] ?? 'show', flags);
+  }
+
+  console.error('Usage: alerts email add <address> | alerts email remove | alerts list | alerts add <type> <id> | alerts edit <id> | alerts remove <id> | alerts policy [set]');
+  return ExitCode.Usage;
+}
+
+// --set key=value pairs as an object, an empty value removes the setting
+function parseSettings(pairs: string[] = []) {
+  const settings: Record<string, string> = {};
+  for (const pair of pairs) {
+    const separator = pair.indexOf('=');
+    if (separator <= 0) {
+      console.error(`Expected --set key=value, got "${pair}".`);
+      return null;
+    }
+    settings[pair.slice(0, separator)] = pair.slice(separator + 1);
+  }
+  return settings;
+}
+
+function withoutEmpty(settings: Record<string, string>) {
+  return Object.fromEntries(Object.entries(settings).filter(([, value]) => value !== ''));
+}
+
+// Defaults of the type's choice fields, e.g. method=POST for webhooks
+function defaultSettings(type: AlertChannelType) {
+  const defaults: Record<string, string> = {};
+  for (const field of alertChannelTypes[type].fields) {
+    if (field.initial) defaults[field.name] = field.initial;
+  }
+  return defaults;
+}
+
+// --send-failure/--send-recovery/--send-degraded as booleans and --ssl-expiry, only the ones given
+function parseEventFlags(flags: CliFlags) {
+  const events: Partial<Pick<AlertChannelConfig, 'sendFailure' | 'sendRecovery' | 'sendDegraded' | 'sslExpiry' | 'sslExpiryThreshold'>> = {};
+  const entries = [
+    ['send-failure', 'sendFailure'],
+    ['send-recovery', 'sendRecovery'],
+    ['send-degraded', 'sendDegraded'],
+  ] as const;
+
+  for (const [flag, key] of entries) {
+    const value = flags[flag];
+    if (value === undefined) continue;
+    if (value !== 'true' && value !== 'false') {
+      console.error(`--${flag} must be true or false.`);
+      return null;
+    }
+    events[key] = value === 'true';
+  }
+
+  const sslExpiry = flags['ssl-expiry'];
+  if (sslExpiry === 'off') {
+    events.sslExpiry = false;
+  } else if (sslExpiry !== undefined) {
+    if (!/^[0-9]+$/.test(sslExpiry)) {
+      console.error('--ssl-expiry must be a number of days or off.');
+      return null;
+    }
+    events.sslExpiry = true;
+    events.sslExpiryThreshold = Number(sslExpiry);
+  }
+  return events;
+}
+
+// alerts policy [show] [--json] | alerts policy set [--escalation <policy>] [event flags] [--apply-to-channels]
+async function alertPolicyCommand(manager: TestManager, action: string, flags: CliFlags) {
+  const policy = manager.getAlertPolicy();
+
+  if (action === 'show') {
+    if (flags.json) {
+      console.log(JSON.stringify(policy, null, 2));
+    } else {
+      describeAlertPolicy(policy).forEach((line) => console.log(line));
+    }
+    return ExitCode.Success;
+  }
+  if (action !== 'set') {
+    console.error(`Unknown alerts policy action: ${action}`);
+    return ExitCode.Usage;
+  }
+
+  const changes: Partial<AlertPolicy> = {};
+  if (flags.escalation !== undefined) {
+    const escalation = parseEscalationFlag(flags.escalation);
+    if (escalation === undefined) return ExitCode.Usage;
+    changes.escalation = escalation;
+  }
+  const events = parseEventFlags(flags);
+  if (!events) return ExitCode.Usage;
+  if (Object.keys(events).length > 0) changes.notifications = { ...policy.notifications, ...events };
+  if (Object.keys(changes).length === 0 && !flags['apply-to-channels']) {
+    console.error('Nothing to change. Pass --escalation, --send-failure, --send-recovery, --send-degraded, --ssl-expiry or --apply-to-channels.');
+    return ExitCode.Usage;
+  }
+
+  return (await manager.editAlertPolicy(changes, flags['apply-to-channels'])) ? ExitCode.Success : ExitCode.Failure;
+}
+
+// history [--json] [--limit <n>] | history compare [<before> <after>]
+function historyCommand(manager: TestManager, args: string[], flags: CliFlags) {
+  const [action = 'list', ...ids] = args;
+
+  if (action === 'compare') {
+    const [before, after] = ids.map(Number);
+    if (ids.length === 1 || ids.some((id) => !Number.isInteger(Number(id)))) {
+      console.error('Usage: history compare [<before> <after>]');
+      return ExitCode.Usage;
+    }
+    return manager.compareRunHistory(before, after) ? ExitCode.Success : ExitCode.Failure;
+  }
+  if (action !== 'list') {
+    console.error(`Unknown history action: ${action}`);
+    return ExitCode.Usage;
+  }
+
+  const limit = parseLimit(flags);
+  if (limit === null) return ExitCode.Usage;
+  if (flags.json) {
+    console.log(JSON.stringify(manager.listRuns().slice(-limit), null, 2));
+  } else {
+    manager.showRunHistory(limit);
+  }
+  return ExitCode.Success;
+}
+
+// backups [--json] [--limit <n>] | backups diff <id> | backups restore <id>
+async function backupsCommand(manager: TestManager, args: string[], flags: CliFlags) {
+  const [action = 'list', id] = args;
+
+  if (action === 'list' && args.length <= 1) {
+    const limit = parseLimit(flags);
+    if (limit === null) return ExitCode.Usage;
+    const backups = manager.listConfigBackups().slice(-limit).reverse();
+    if (flags.json) {
+      console.log(JSON.stringify(backups, null, 2));
+    } else if (backups.length === 0) {
+      console.log('No config backups yet.');
+    } else {
+      backups.forEach((backup) => console.log(describeBackup(backup)));
+    }
+    return ExitCode.Success;
+  }
+  if ((action === 'diff' || action === 'restore') && args.length === 2 && /^[0-9]+$/.test(id)) {
+    if (action === 'diff') return manager.showConfigBackup(Number(id)) ? ExitCode.Success : ExitCode.Failure;
+    return (await manager.restoreConfig(Number(id))) ? ExitCode.Success : ExitCode.Failure;
+  }
+
+  console.error('Usage: backups [--json] [--limit <n>] | backups diff <id> | backups restore <id>');
+  return ExitCode.Usage;
+}
+
+// --limit as a positive number, 10 by default, null when it is invalid
+function parseLimit(flags: CliFlags) {
+  const limit = flags.limit === undefined ? 10 : Number(flags.limit);
+  if (!Number.isInteger(limit) || limit < 1) {
+    console.error('--limit must be a positive number.');
+    return null;
+  }
+  return limit;
+}
+
+// policy [show] | policy set [--test-runner <runner>] [--checkly-locations <ids>] [--block-on-failure <bool>] [--block-on-flaky <bool>] [--min-pass-rate <n|none>] [--known-flaky <list>]
+async function policyCommand(manager: TestManager, args: string[], flags: CliFlags) {
+  const [action = 'show'] = args;
+
+  if (action === 'show') {
+    const policy = manager.getDeployPolicy();
+    if (flags.json) {
+      console.log(JSON.stringify(policy, null, 2));
+    } else {
+      describeDeployPolicy(policy).forEach((line) => console.log(line));
+    }
+    return ExitCode.Success;
+  }
+  if (action !== 'set') {
+    console.error(`Unknown policy action: ${action}`);
+    return ExitCode.Usage;
+  }
+
+  const changes: Partial<DeployPolicy> = {};
+  const testRunner = parseTestRunner(flags['test-runner']);
+  if (testRunner === null) return ExitCode.Usage;
+  if (testRunner) changes.testRunner = testRunner;
+  if (flags['checkly-locations'] !== undefined) changes.checklyLocations = list(flags['checkly-locations']);
+  for (const [flag, key] of [['block-on-failure', 'blockOnFailure'], ['block-on-flaky', 'blockOnFlaky']] as const) {
+    const value = flags[flag];
+    if (value === undefined) continue;
+    if (value !== 'true' && value !== 'false') {
+      console.error(`--${flag} must be true or false.`);
+      return ExitCode.Usage;
+    }
+    changes[key] = value === 'true';
+  }
+  if (flags['min-pass-rate'] !== undefined) {
+    changes.minPassRate = flags['min-pass-rate'] === 'none' ? null : Number(flags['min-pass-rate']);
+  }
+  if (flags['known-flaky'] !== undefined) {
+    changes.knownFlaky = flags['known-flaky'].split(',').map((entry) => entry.trim()).filter(Boolean);
+  }
+  if (Object.keys(changes).length === 0) {
+    console.error('Nothing to change. Pass --test-runner, --checkly-locations, --block-on-failure, --block-on-flaky, --min-pass-rate or --known-flaky.');
+    return ExitCode.Usage;
+  }
+
+  return (await manager.editDeployPolicy(changes)) ? ExitCode.Success : ExitCode.Failure;
+}
+
+// settings [show] [--json] | settings set [--frequency <n>] [--locations <ids>] [--private-locations <slugs>] [--runtime <id>] [--retries <strategy>] [--tags <list>]
+async function settingsCommand(manager: TestManager, args: string[], flags: CliFlags) {
+  const [action = 'show'] = args;
+
+  if (action === 'show') {
+    const settings = manager.getProjectSettings();
+    if (!settings) return ExitCode.Failure;
+    if (flags.json) {
+      console.log(JSON.stringify(settings, null, 2));
+    } else {
+      describeProjectSettings(settings).forEach((line) => console.log(line));
+    }
+    return ExitCode.Success;
+  }
+  if (action !== 'set') {
+    console.error(`Unknown settings action: ${action}`);
+    return ExitCode.Usage;
+  }
+
+  const changes: Partial<ProjectSettings> = {};
+  if (flags.frequency !== undefined) {
+    const frequency = parseFrequency(flags.frequency);
+    if (frequency === undefined) return ExitCode.Usage;
+    changes.frequency = frequency;
+  }
+  if (flags.locations !== undefined) changes.locations = list(flags.locations);
+  if (flags['private-locations'] !== undefined) changes.privateLocations = list(flags['private-locations']);
+  if (flags.runtime !== undefined) changes.runtimeId = flags.runtime === 'default' ? null : flags.runtime;
+  if (flags.retries !== undefined) changes.retryStrategy = parseRetryStrategy(flags.retries);
+  if (flags.tags !== undefined) changes.tags = list(flags.tags);
+  if (Object.keys(changes).length === 0) {
+    console.error('Nothing to change. Pass --frequency, --locations, --private-locations, --runtime, --retries or --tags.');
+    return ExitCode.Usage;
+  }
+
+  return (await manager.editProjectSettings(changes)) ? ExitCode.Success : ExitCode.Failure;
+}
+
+// status [--json]
+function statusCommand(manager: TestManager, flags: CliFlags) {
+  const status = manager.getStatus();
+
+  if (flags.json) {
+    console.log(JSON.stringify(status, null, 2));
+    return ExitCode.Success;
+  }
+
+  console.log(`Email Address: ${status.email ?? 'Not set'}`);
+  console.log(`Alert Channels: ${status.alertChannels.length > 0 ? status.alertChannels.map((channel) => channel.id).join(', ') : 'Not set'}`);
+  console.log(`Test Suite: ${status.activeSuite ?? 'Not set'}${status.suites.length > 1 ? ` (of ${status.suites.join(', ')})` : ''}`);
+  console.log(`Profile: ${status.profile ?? 'None'}`);
+  console.log(`Checkly Account: ${status.account ?? 'from the environment or checkly login'}`);
+  console.log(`Test Folder: ${status.testFolder ?? 'Not set'}`);
+  console.log(`Original Folder: ${status.originalFolder ?? 'Not set'}`);
+  console.log(`Playwright config: ${status.playwrightConfig ? 'found' : 'missing'}`);
+  console.log(`Checkly config: ${status.checklyConfig ? 'found' : 'missing'}`);
+  console.log(`Tests: ${status.tests.length > 0 ? status.tests.join(', ') : 'none'}`);
+  return ExitCode.Success;
+}
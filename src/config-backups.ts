@@ -0,0 +1,123 @@
+// config-backups.ts
+import fs from 'fs-extra';
+import path from 'path';
+import type { StateStore } from './state';
+
+// A copy of a config file taken before the manager rewrote it
+export interface ConfigBackup {
+  id: number;
+  file: string; // Config file, posix path relative to the project root
+  createdAt: string;
+  reason: string; // What rewrote the file, e.g. 'update the suites'
+  snapshot: string; // File name of the copy in .checkly-manager/backups
+}
+
+// One line of a diff: ' ' unchanged, '-' only in the old content, '+' only in the new one
+export interface DiffLine {
+  kind: ' ' | '-' | '+';
+  text: string;
+}
+
+// e.g. '#3 2026-01-05 14:02:11 checkly.config.ts (before: update the alert channels)'
+export function describeBackup(backup: ConfigBackup) {
+  return `#${backup.id} ${backup.createdAt.replace('T', ' ').slice(0, 19)} ${backup.file} (before: ${backup.reason})`;
+}
+
+// Line diff of two file contents, from their longest common subsequence
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // lengths[i][j]: common lines of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ kind: ' ', text: a[i++] });
+      j++;
+    } else if (j < b.length && (i === a.length || lengths[i][j + 1] > lengths[i + 1][j])) {
+      lines.push({ kind: '+', text: b[j++] });
+    } else {
+      lines.push({ kind: '-', text: a[i++] });
+    }
+  }
+  return lines;
+}
+
+// The changed lines with `context` unchanged lines around them, gaps shown as '...'; empty without changes
+export function formatDiff(lines: DiffLine[], context = 2) {
+  const changed = lines.map((line) => line.kind !== ' ');
+  if (!changed.includes(true)) return [];
+  const shown = lines.map((_line, index) => changed.slice(Math.max(0, index - context), index + context + 1).some(Boolean));
+  const output: string[] = [];
+  lines.forEach((line, index) => {
+    if (!shown[index]) {
+      if (index === 0 || shown[index - 1]) output.push('  ...');
+      return;
+    }
+    output.push(`${line.kind} ${line.text}`);
+  });
+  return output;
+}
+
+// Snapshots of checkly.config.ts and playwright.config.ts, the files live in .checkly-manager/backups
+// and their records in the state file, newest last
+export class ConfigBackupStore {
+  readonly folder: string;
+
+  constructor(private readonly store: StateStore, private readonly projectRoot: string, private readonly limit = 50) {
+    this.folder = path.join(projectRoot, '.checkly-manager', 'backups');
+  }
+
+  list(file?: string): ConfigBackup[] {
+    return this.store.read().configBackups.filter((backup) => file === undefined || backup.file === file);
+  }
+
+  get(id: number) {
+    return this.list().find((backup) => backup.id === id);
+  }
+
+  // Copy `content`, the file's content before a rewrite; only the newest `limit` backups are kept
+  add(filePath: string, content: string, reason: string) {
+    const backups = this.list();
+    const id = (backups[backups.length - 1]?.id ?? 0) + 1;
+    const createdAt = new Date().toISOString();
+    const snapshot = `${id}-${createdAt.replace(/[:.]/g, '-')}-${path.basename(filePath)}`;
+
+    fs.ensureDirSync(this.folder);
+    fs.writeFileSync(path.join(this.folder, snapshot), content, 'utf-8');
+    const record: ConfigBackup = { id, file: this.relative(filePath), createdAt, reason, snapshot };
+
+    const kept = [...backups, record].slice(-this.limit);
+    this.store.update((state) => {
+      state.configBackups = kept;
+    });
+    for (const dropped of backups.filter((backup) => !kept.includes(backup))) {
+      fs.removeSync(path.join(this.folder, dropped.snapshot));
+    }
+    return record;
+  }
+
+  // Content of a snapshot, null when its file was deleted
+  read(backup: ConfigBackup) {
+    const snapshotPath = path.join(this.folder, backup.snapshot);
+    return fs.existsSync(snapshotPath) ? fs.readFileSync(snapshotPath, 'utf-8') : null;
+  }
+
+  // Absolute path of the config file a backup was taken of
+  filePath(backup: ConfigBackup) {
+    return path.join(this.projectRoot, ...backup.file.split('/'));
+  }
+
+  private relative(filePath: string) {
+    return path.relative(this.projectRoot, filePath).split(path.sep).join('/');
+  }
+}
@@ -0,0 +1,488 @@
+// config-editor.ts
+import fs from 'fs-extra';
+import ts from 'typescript'; // The TypeScript compiler API is used to parse the config files
+
+// Thrown when a config file can't be parsed or doesn't have the expected shape
+export class ConfigEditError extends Error {
+  constructor(public readonly filePath: string, public readonly reason: string, public readonly line?: number) {
+    super(`${filePath}${line ? `:${line}` : ''}: ${reason}`);
+    this.name = 'ConfigEditError';
+  }
+}
+
+// Edits checkly.config.ts / playwright.config.ts in place.
+// Every change replaces only the text of the node it touches, so the rest of the
+// file (comments, quotes, indentation) stays exactly as the user wrote it.
+export class ConfigEditor {
+  private source: ts.SourceFile;
+
+  constructor(private readonly filePath: string, private content: string) {
+    this.source = this.parse(content);
+  }
+
+  // Read a config file from disk
+  static load(filePath: string) {
+    return new ConfigEditor(filePath, fs.readFileSync(filePath, 'utf-8'));
+  }
+
+  // The current (edited) content of the file
+  get text() {
+    return this.content;
+  }
+
+  // Wrap a string in the quote style the file already uses
+  quote(value: string) {
+    const quote = this.quoteChar();
+    const escaped = value.replace(/\\/g, '\\\\').replace(new RegExp(quote, 'g'), `\\${quote}`);
+    return `${quote}${escaped}${quote}`;
+  }
+
+  // Source text of a property value, e.g. getValue(['checks', 'checkMatch'])
+  getValue(propertyPath: string[]) {
+    const property = this.findProperty(propertyPath);
+    return property ? property.initializer.getText(this.source) : undefined;
+  }
+
+  // Value of a string property, undefined if it is missing or not a plain string
+  getString(propertyPath: string[]) {
+    const property = this.findProperty(propertyPath);
+    if (!property) return undefined;
+
+    const value = unwrap(property.initializer);
+    return ts.isStringLiteral(value) || ts.isNoSubstitutionTemplateLiteral(value) ? value.text : undefined;
+  }
+
+  // Line of a property, or of the config object for an empty path; undefined if the property is missing
+  getLine(propertyPath: string[]) {
+    const node = propertyPath.length > 0 ? this.findProperty(propertyPath) : this.getConfigObject();
+    return node ? this.source.getLineAndCharacterOfPosition(node.getStart(this.source)).line + 1 : undefined;
+  }
+
+  // Set a property to a string value
+  setString(propertyPath: string[], value: string) {
+    this.setValue(propertyPath, this.quote(value));
+  }
+
+  // Set a property to a raw code value, creating missing parent objects on the way
+  setValue(propertyPath: string[], code: string) {
+    let object = this.getConfigObject();
+
+    for (let i = 0; i < propertyPath.length; i++) {
+      const name = propertyPath[i];
+      const property = findPropertyIn(object, name);
+
+      if (!property) {
+        // Build the rest of the path as nested objects, e.g. { browserChecks: { testMatch: '...' } }
+        const value = propertyPath.slice(i + 1).reduceRight((inner, key) => `{ ${key}: ${inner} }`, code);
+        this.insertListItem(object, object.properties, `${name}: ${value}`);
+        return;
+      }
+
+      if (ts.isShorthandPropertyAssignment(property)) {
+        if (i === propertyPath.length - 1) {
+          this.replace(property.getStart(this.source), property.getEnd(), `${name}: ${code}`);
+          return;
+        }
+        throw this.error(`Expected "${propertyPath.slice(0, i + 1).join('.')}" to be an object literal.`, property);
+      }
+
+      if (i === propertyPath.length - 1) {
+        this.replace(property.initializer.getStart(this.source), property.initializer.getEnd(), code);
+        return;
+      }
+
+      const value = unwrap(property.initializer);
+      if (!ts.isObjectLiteralExpression(value)) {
+        throw this.error(`Expected "${propertyPath.slice(0, i + 1).join('.')}" to be an object literal.`, value);
+      }
+      object = value;
+    }
+  }
+
+  // Remove a property, returns false if it wasn't there
+  removeProperty(propertyPath: string[]) {
+    const parent = this.findObject(propertyPath.slice(0, -1));
+    if (!parent) return false;
+
+    const name = propertyPath[propertyPath.length - 1];
+    const index = parent.properties.findIndex((property) => propertyName(property) === name);
+    if (index === -1) return false;
+
+    this.removeListItem(parent, parent.properties, index);
+    return true;
+  }
+
+  // Add an element (as code) to an array property, creating the array if needed
+  addArrayElement(propertyPath: string[], code: string) {
+    const property = this.findProperty(propertyPath);
+    if (!property) {
+      this.setValue(propertyPath, `[${code}]`);
+      return;
+    }
+
+    const array = this.expectArray(propertyPath, property);
+    if (array.elements.some((element) => element.getText(this.source) === code)) return;
+    this.insertListItem(array, array.elements, code);
+  }
+
+  // Remove an element (matched by its code) from an array property
+  removeArrayElement(propertyPath: string[], code: string) {
+    const property = this.findProperty(propertyPath);
+    if (!property) return false;
+
+    const array = this.expectArray(propertyPath, property);
+    const index = array.elements.findIndex((element) => element.getText(this.source) === code);
+    if (index === -1) return false;
+
+    this.removeListItem(array, array.elements, index);
+    return true;
+  }
+
+  // Elements of an array property as code, an empty list if it's missing
+  getArrayElements(propertyPath: string[]) {
+    const property = this.findProperty(propertyPath);
+    if (!property) return [];
+    return this.expectArray(propertyPath, property).elements.map((element) => element.getText(this.source));
+  }
+
+  // Add `import { name } from 'module'`, merging into an existing import of that module
+  addImport(name: string, moduleName: string) {
+    const existing = this.findNamedImports(moduleName);
+    if (existing) {
+      const { namedImports } = existing;
+      if (namedImports.elements.some((element) => element.name.text === name)) return;
+      this.insertListItem(namedImports, namedImports.elements, name);
+      return;
+    }
+
+    const statement = `import { ${name} } from ${this.quote(moduleName)}${this.semicolon()}`;
+    const imports = this.source.statements.filter(ts.isImportDeclaration);
+    if (imports.length > 0) {
+      this.insertAt(imports[imports.length - 1].getEnd(), `\n${statement}`);
+    } else {
+      this.insertAt(0, `${statement}\n`);
+    }
+  }
+
+  // Remove a named import unless the name is still used somewhere in the file
+  removeImport(name: string, moduleName: string) {
+    const existing = this.findNamedImports(moduleName);
+    if (!existing || this.isReferenced(name)) return false;
+
+    const { declaration, namedImports } = existing;
+    const index = namedImports.elements.findIndex((element) => element.name.text === name);
+    if (index === -1) return false;
+
+    if (namedImports.elements.length === 1) {
+      this.removeStatement(declaration);
+    } else {
+      this.removeListItem(namedImports, namedImports.elements, index);
+    }
+    return true;
+  }
+
+  // Names imported from a module, e.g. ['defineConfig'] for 'checkly'
+  getImportedNames(moduleName: string) {
+    const existing = this.findNamedImports(moduleName);
+    return existing ? existing.namedImports.elements.map((element) => element.name.text) : [];
+  }
+
+  // Whether a top-level `const name = ...` exists
+  hasVariable(name: string) {
+    return !!this.findVariable(name);
+  }
+
+  // Create or update a top-level `const name = <initializer>` declared before the config
+  setVariable(name: string, initializer: string) {
+    const existing = this.findVariable(name);
+    if (existing?.initializer) {
+      this.replace(existing.initializer.getStart(this.source), existing.initializer.getEnd(), initializer);
+      return;
+    }
+    if (existing) {
+      throw this.error(`Variable "${name}" has no initializer.`, existing);
+    }
+
+    // Insert right before the statement holding the config so the constant exists when it runs
+    // (above any comment attached to that statement)
+    const configStatement = this.topLevelStatement(this.getConfigObject());
+    const comments = ts.getLeadingCommentRanges(this.content, configStatement.getFullStart());
+    const position = comments?.length ? comments[0].pos : configStatement.getStart(this.source);
+    this.insertAt(position, `const ${name} = ${initializer}${this.semicolon()}\n\n`);
+  }
+
+  // Remove a top-level `const name = ...`, returns false if it wasn't there
+  removeVariable(name: string) {
+    const declaration = this.findVariable(name);
+    if (!declaration) return false;
+
+    const list = declaration.parent as ts.VariableDeclarationList;
+    if (list.declarations.length === 1) {
+      this.removeStatement(list.parent as ts.VariableStatement);
+    } else {
+      this.removeListItem(list, list.declarations, list.declarations.indexOf(declaration));
+    }
+    return true;
+  }
+
+  // Whether an identifier is used outside of import statements
+  isReferenced(name: string) {
+    let referenced = false;
+    const visit = (node: ts.Node) => {
+      if (referenced || ts.isImportDeclaration(node)) return;
+      if (ts.isIdentifier(node) && node.text === name && !isPropertyKey(node)) {
+        referenced = true;
+        return;
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(this.source);
+    return referenced;
+  }
+
+  // Find the object passed to `export default defineConfig({ ... })` (or an exported variable holding it)
+  getConfigObject(): ts.ObjectLiteralExpression {
+    const exported = this.source.statements.find(
+      (statement): statement is ts.ExportAssignment => ts.isExportAssignment(statement) && !statement.isExportEquals
+    );
+    if (!exported) {
+      throw new ConfigEditError(this.filePath, 'No `export default` found. Expected `export default defineConfig({ ... })`.');
+    }
+
+    const config = this.resolveObject(exported.expression, new Set());
+    if (!config) {
+      throw this.error('The default export is not a config object. Expected `export default defineConfig({ ... })`.', exported);
+    }
+    return config;
+  }
+
+  private resolveObject(expression: ts.Expression, seen: Set<string>): ts.ObjectLiteralExpression | undefined {
+    const node = unwrap(expression);
+    if (ts.isObjectLiteralExpression(node)) return node;
+    if (ts.isCallExpression(node) && node.arguments.length > 0) return this.resolveObject(node.arguments[0], seen);
+    if (ts.isIdentifier(node) && !seen.has(node.text)) {
+      seen.add(node.text);
+      const declaration = this.findVariable(node.text);
+      return declaration?.initializer ? this.resolveObject(declaration.initializer, seen) : undefined;
+    }
+    return undefined;
+  }
+
+  private findObject(propertyPath: string[]) {
+    let object = this.getConfigObject();
+    for (const name of propertyPath) {
+      const property = findPropertyIn(object, name);
+      if (!property || !ts.isPropertyAssignment(property)) return undefined;
+
+      const value = unwrap(property.initializer);
+      if (!ts.isObjectLiteralExpression(value)) {
+        throw this.error(`Expected "${name}" to be an object literal.`, value);
+      }
+      object = value;
+    }
+    return object;
+  }
+
+  private findProperty(propertyPath: string[]) {
+    const parent = this.findObject(propertyPath.slice(0, -1));
+    const property = parent && findPropertyIn(parent, propertyPath[propertyPath.length - 1]);
+    return property && ts.isPropertyAssignment(property) ? property : undefined;
+  }
+
+  private expectArray(propertyPath: string[], property: ts.PropertyAssignment) {
+    const value = unwrap(property.initializer);
+    if (!ts.isArrayLiteralExpression(value)) {
+      throw this.error(`Expected "${propertyPath.join('.')}" to be an array literal.`, value);
+    }
+    return value;
+  }
+
+  private findNamedImports(moduleName: string) {
+    for (const statement of this.source.statements) {
+      if (
+        ts.isImportDeclaration(statement) &&
+        ts.isStringLiteral(statement.moduleSpecifier) &&
+        statement.moduleSpecifier.text === moduleName &&
+        !statement.importClause?.isTypeOnly &&
+        statement.importClause?.namedBindings &&
+        ts.isNamedImports(statement.importClause.namedBindings)
+      ) {
+        return { declaration: statement, namedImports: statement.importClause.namedBindings };
+      }
+    }
+    return undefined;
+  }
+
+  private findVariable(name: string) {
+    for (const statement of this.source.statements) {
+      if (!ts.isVariableStatement(statement)) continue;
+      const declaration = statement.declarationList.declarations.find(
+        (candidate) => ts.isIdentifier(candidate.name) && candidate.name.text === name
+      );
+      if (declaration) return declaration;
+    }
+    return undefined;
+  }
+
+  private topLevelStatement(node: ts.Node) {
+    let current = node;
+    while (current.parent && current.parent !== this.source) current = current.parent;
+    return current;
+  }
+
+  // Insert an item into an object/array/import list, following the list's existing layout
+  private insertListItem(container: ts.Node, list: ts.NodeArray<ts.Node>, item: string) {
+    const start = container.getStart(this.source);
+    const end = container.getEnd();
+
+    if (list.length === 0) {
+      const open = this.content[start];
+      const close = this.content[end - 1];
+      if (open === '[') {
+        this.replace(start, end, `[${item}]`);
+      } else if (ts.isNamedImports(container)) {
+        this.replace(start, end, `{ ${item} }`);
+      } else {
+        const indent = this.lineIndent(start);
+        this.replace(start, end, `${open}\n${indent}${this.indentUnit()}${item},\n${indent}${close}`);
+      }
+      return;
+    }
+
+    const last = list[list.length - 1];
+    const trailingComma = /^\s*,/.exec(this.content.slice(last.getEnd(), end));
+    const multiline = this.content.slice(start, last.getStart(this.source)).includes('\n');
+    const separator = multiline ? `\n${this.lineIndent(last.getStart(this.source))}` : ' ';
+
+    if (list.hasTrailingComma && trailingComma) {
+      this.insertAt(last.getEnd() + trailingComma[0].length, `${separator}${item},`);
+    } else {
+      this.insertAt(last.getEnd(), `,${separator}${item}`);
+    }
+  }
+
+  // Remove an item from an object/array/import list together with its separator
+  private removeListItem(container: ts.Node, list: ts.NodeArray<ts.Node>, index: number) {
+    const item = list[index];
+
+    if (list.length === 1) {
+      // Leave an empty {} or [] behind
+      this.replace(container.getStart(this.source) + 1, container.getEnd() - 1, '');
+    } else if (index < list.length - 1) {
+      // On multi-line lists the item's own line goes too, on single-line lists only "item, "
+      const next = list[index + 1];
+      const multiline = this.content.slice(item.getEnd(), next.getStart(this.source)).includes('\n');
+      this.replace(
+        multiline ? item.getFullStart() : item.getStart(this.source),
+        multiline ? next.getFullStart() : next.getStart(this.source),
+        ''
+      );
+    } else {
+      this.replace(list[index - 1].getEnd(), item.getEnd(), '');
+    }
+  }
+
+  // Remove a whole statement and the line break that follows it
+  private removeStatement(statement: ts.Statement) {
+    let start = statement.getStart(this.source);
+    while (start > 0 && (this.content[start - 1] === ' ' || this.content[start - 1] === '\t')) start--;
+
+    let end = statement.getEnd();
+    const trailing = /^[ \t]*\r?\n/.exec(this.content.slice(end));
+    if (trailing) end += trailing[0].length;
+
+    // Don't leave two blank lines where the statement used to be
+    const blankAfter = /^[ \t]*\r?\n/.exec(this.content.slice(end));
+    if (blankAfter && /\n[ \t]*\r?\n$/.test(this.content.slice(0, start))) end += blankAfter[0].length;
+
+    this.replace(start, end, '');
+  }
+
+  private insertAt(position: number, text: string) {
+    this.replace(position, position, text);
+  }
+
+  // Apply a text edit and re-parse; an edit that breaks the syntax is rejected
+  private replace(start: number, end: number, text: string) {
+    const updated = this.content.slice(0, start) + text + this.content.slice(end);
+    this.source = this.parse(updated);
+    this.content = updated;
+  }
+
+  private parse(content: string) {
+    const { diagnostics } = ts.transpileModule(content, { fileName: this.filePath, reportDiagnostics: true });
+    const syntaxError = diagnostics?.find((diagnostic) => diagnostic.category === ts.DiagnosticCategory.Error);
+    if (syntaxError) {
+      const line = syntaxError.file && syntaxError.start !== undefined
+        ? syntaxError.file.getLineAndCharacterOfPosition(syntaxError.start).line + 1
+        : undefined;
+      throw new ConfigEditError(this.filePath, `Syntax error: ${ts.flattenDiagnosticMessageText(syntaxError.messageText, '\n')}`, line);
+    }
+    return ts.createSourceFile(this.filePath, content, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+  }
+
+  private error(message: string, node: ts.Node) {
+    const line = this.source.getLineAndCharacterOfPosition(node.getStart(this.source)).line + 1;
+    return new ConfigEditError(this.filePath, message, line);
+  }
+
+  // Leading whitespace of the line a position is on
+  private lineIndent(position: number) {
+    const lineStart = this.content.lastIndexOf('\n', position - 1) + 1;
+    return /^[ \t]*/.exec(this.content.slice(lineStart))![0];
+  }
+
+  // Indentation step of the config object, two spaces if it can't be told
+  private indentUnit() {
+    const config = this.getConfigObject();
+    const first = config.properties[0];
+    if (!first) return '  ';
+
+    const inner = this.lineIndent(first.getStart(this.source));
+    const outer = this.lineIndent(config.getStart(this.source));
+    return inner.length > outer.length ? inner.slice(outer.length) : '  ';
+  }
+
+  // Quote character of the first import, single quotes by default
+  private quoteChar() {
+    const firstImport = this.source.statements.find(ts.isImportDeclaration);
+    return firstImport && firstImport.moduleSpecifier.getText(this.source).startsWith('"') ? '"' : "'";
+  }
+
+  // Whether statements in this file end with semicolons
+  private semicolon() {
+    const first = this.source.statements[0];
+    return !first || first.getText(this.source).trimEnd().endsWith(';') ? ';' : '';
+  }
+}
+
+// Strip parentheses and `as`/`satisfies` wrappers around an expression
+function unwrap(expression: ts.Expression): ts.Expression {
+  if (ts.isParenthesizedExpression(expression) || ts.isAsExpression(expression) || ts.isSatisfiesExpression(expression)) {
+    return unwrap(expression.expression);
+  }
+  return expression;
+}
+
+function propertyName(property: ts.ObjectLiteralElementLike) {
+  const name = property.name;
+  if (!name) return undefined;
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) return name.text;
+  return undefined;
+}
+
+function findPropertyIn(object: ts.ObjectLiteralExpression, name: string) {
+  return object.properties.find(
+    (property): property is ts.PropertyAssignment | ts.ShorthandPropertyAssignment =>
+      (ts.isPropertyAssignment(property) || ts.isShorthandPropertyAssignment(property)) && propertyName(property) === name
+  );
+}
+
+// Whether an identifier is only a key, e.g. `alertChannels` in `{ alertChannels: [...] }`
+function isPropertyKey(node: ts.Identifier) {
+  const parent = node.parent;
+  return (
+    (ts.isPropertyAssignment(parent) && parent.name === node) ||
+    (ts.isPropertyAccessExpression(parent) && parent.name === node)
+  );
+}
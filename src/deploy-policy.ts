@@ -0,0 +1,103 @@
+// deploy-policy.ts
+import type { StateStore } from './state';
+import { countResults, specKey, TestResult } from './test-results';
+
+// Where the tests gating a deployment run: locally with Playwright or in Checkly's runtime with `checkly test`
+export type TestRunner = 'playwright' | 'checkly';
+
+export const testRunners: TestRunner[] = ['playwright', 'checkly'];
+
+// When the results of a test run allow a deployment
+export interface DeployPolicy {
+  testRunner: TestRunner;
+  checklyLocations: string[]; // Locations `checkly test` runs in, empty for the config's default
+  blockOnFailure: boolean; // Any failing test blocks, except the known flaky ones
+  blockOnFlaky: boolean; // Tests that only passed on retry block, except the known flaky ones
+  knownFlaky: string[]; // Spec files ('cart.spec.ts') or tests ('cart.spec.ts > adds an item') that never block
+  minPassRate: number | null; // Percentage of tests that must pass, null for no minimum
+}
+
+export interface GateDecision {
+  allowed: boolean;
+  reasons: string[]; // Why the deployment is blocked, empty when allowed
+}
+
+export const defaultDeployPolicy: DeployPolicy = {
+  testRunner: 'playwright',
+  checklyLocations: [],
+  blockOnFailure: true,
+  blockOnFlaky: false,
+  knownFlaky: [],
+  minPassRate: null,
+};
+
+// The saved policy, the defaults until one is saved
+export function loadDeployPolicy(store: StateStore): DeployPolicy {
+  return store.read().deployPolicy;
+}
+
+export function saveDeployPolicy(store: StateStore, policy: DeployPolicy) {
+  assertValidPolicy(policy);
+  store.update((state) => {
+    state.deployPolicy = policy;
+  });
+}
+
+// Throws if a policy can't be applied, e.g. a pass rate above 100
+export function assertValidPolicy(policy: DeployPolicy) {
+  if (!testRunners.includes(policy.testRunner)) {
+    throw new Error(`Invalid deploy policy: testRunner must be one of ${testRunners.join(', ')}.`);
+  }
+  if (!Array.isArray(policy.checklyLocations) || policy.checklyLocations.some((location) => typeof location !== 'string' || !/^[a-z0-9-]+$/.test(location))) {
+    throw new Error('Invalid deploy policy: checklyLocations must be Checkly location ids, e.g. eu-west-1.');
+  }
+  if (typeof policy.blockOnFailure !== 'boolean' || typeof policy.blockOnFlaky !== 'boolean') {
+    throw new Error('Invalid deploy policy: blockOnFailure and blockOnFlaky must be true or false.');
+  }
+  if (!Array.isArray(policy.knownFlaky) || policy.knownFlaky.some((entry) => typeof entry !== 'string')) {
+    throw new Error('Invalid deploy policy: knownFlaky must be a list of spec files or test titles.');
+  }
+  if (policy.minPassRate !== null && (typeof policy.minPassRate !== 'number' || !Number.isFinite(policy.minPassRate) || policy.minPassRate < 0 || policy.minPassRate > 100)) {
+    throw new Error('Invalid deploy policy: minPassRate must be a percentage between 0 and 100.');
+  }
+}
+
+// Decide whether a run may be deployed, `missingReports` counts test runs without results
+export function evaluateDeployPolicy(policy: DeployPolicy, results: TestResult[], missingReports = 0): GateDecision {
+  const reasons: string[] = [];
+  const isKnownFlaky = (result: TestResult) => {
+    const spec = specKey(result);
+    return policy.knownFlaky.some((entry) => entry === spec || entry === result.file || entry === `${spec} > ${result.title}` || entry === `${result.file} > ${result.title}`);
+  };
+
+  if (missingReports > 0) {
+    reasons.push(`${missingReports} test run(s) did not produce results.`);
+  }
+
+  const failed = results.filter((result) => result.outcome === 'failed' && !isKnownFlaky(result));
+  if (policy.blockOnFailure && failed.length > 0) {
+    reasons.push(`${failed.length} test(s) failed: ${failed.map((result) => `${specKey(result)} > ${result.title}`).join(', ')}.`);
+  }
+
+  const flaky = results.filter((result) => result.outcome === 'flaky' && !isKnownFlaky(result));
+  if (policy.blockOnFlaky && flaky.length > 0) {
+    reasons.push(`${flaky.length} test(s) were flaky: ${flaky.map((result) => `${specKey(result)} > ${result.title}`).join(', ')}.`);
+  }
+
+  const { passRate } = countResults(results);
+  if (policy.minPassRate !== null && passRate < policy.minPassRate) {
+    reasons.push(`Pass rate ${passRate}% is below the required ${policy.minPassRate}%.`);
+  }
+
+  return { allowed: reasons.length === 0, reasons };
+}
+
+export function describeDeployPolicy(policy: DeployPolicy) {
+  return [
+    `Tests run: ${policy.testRunner === 'checkly' ? `in Checkly (${policy.checklyLocations.length > 0 ? policy.checklyLocations.join(', ') : 'default location'})` : 'locally with Playwright'}`,
+    `Block on failing tests: ${policy.blockOnFailure ? 'yes' : 'no'}`,
+    `Block on flaky tests: ${policy.blockOnFlaky ? 'yes' : 'no'}`,
+    `Minimum pass rate: ${policy.minPassRate === null ? 'none' : `${policy.minPassRate}%`}`,
+    `Known flaky: ${policy.knownFlaky.length > 0 ? policy.knownFlaky.join(', ') : 'none'}`,
+  ];
+}
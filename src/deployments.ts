@@ -0,0 +1,132 @@
+// deployments.ts
+import type { StateStore } from './state';
+import type { CommandRunner } from './process-runner';
+
+export type DeployAction = 'create' | 'update' | 'delete' | 'skip';
+
+// One resource in the output of `checkly deploy --preview` or `--output`
+export interface DeployChange {
+  action: DeployAction;
+  type: string; // Construct name, e.g. BrowserCheck or CheckGroup
+  logicalId: string;
+}
+
+export interface CheckCounts {
+  created: number;
+  updated: number; // Also counts the unchanged ones, the Checkly CLI doesn't tell them apart
+  deleted: number;
+}
+
+// Where the deployed files came from
+export interface GitInfo {
+  commit: string;
+  branch: string | null; // null on a detached HEAD
+  dirty: boolean; // Uncommitted changes were deployed too
+}
+
+// A deploy or destroy that reached Checkly
+export interface DeploymentRecord {
+  id: number;
+  action: 'deploy' | 'destroy';
+  deployedAt: string;
+  profile: string | null;
+  git: GitInfo | null; // null outside a git repository
+  checks: CheckCounts | null; // null when the Checkly CLI output could not be read
+}
+
+// Section headers of the Checkly CLI's change list
+const sections: Record<string, DeployAction> = {
+  'Create:': 'create',
+  'Update and Unchanged:': 'update',
+  'Delete:': 'delete',
+  'Skip (testOnly):': 'skip',
+};
+
+// Parse the change list printed by `checkly deploy --preview` and `checkly deploy --output`
+export function parseDeployOutput(output: string): DeployChange[] {
+  const changes: DeployChange[] = [];
+  let action: DeployAction | null = null;
+
+  for (const line of output.replace(/\u001b\[[0-9;]*m/g, '').split(/\r?\n/)) {
+    const header = sections[line.trim()];
+    if (header) {
+      action = header;
+      continue;
+    }
+    const entry = line.match(/^\s+(\w+): (\S+)\s*$/);
+    if (action && entry) {
+      changes.push({ action, type: entry[1], logicalId: entry[2] });
+    } else if (!line.trim()) {
+      action = null; // sections end with an empty line
+    }
+  }
+  return changes;
+}
+
+// Checks among the changes, check groups and alert channels are left out
+export function countChecks(changes: DeployChange[]): CheckCounts {
+  const checks = changes.filter((change) => /Check$/.test(change.type));
+  const count = (action: DeployAction) => checks.filter((change) => change.action === action).length;
+  return { created: count('create'), updated: count('update'), deleted: count('delete') };
+}
+
+// Lines listing what a deploy creates, updates and deletes
+export function describeDeployChanges(changes: DeployChange[]) {
+  if (changes.length === 0) return ['Checkly reported no changes.'];
+
+  const markers: Record<DeployAction, string> = { create: '+', update: '~', delete: '-', skip: ' ' };
+  const order: DeployAction[] = ['create', 'delete', 'update', 'skip'];
+  const lines = order.flatMap((action) => changes
+    .filter((change) => change.action === action)
+    .map((change) => `${markers[action]} ${change.type}: ${change.logicalId}${action === 'skip' ? ' (test only, not deployed)' : ''}`));
+
+  const { created, updated, deleted } = countChecks(changes);
+  lines.push(`Checks: ${created} created, ${updated} updated or unchanged, ${deleted} deleted.`);
+  return lines;
+}
+
+// The commit, branch and working tree state of `cwd`, null outside a git repository
+export async function readGitInfo(runner: CommandRunner, cwd: string): Promise<GitInfo | null> {
+  const git = async (...args: string[]) => {
+    const result = await runner.run('git', args, { cwd, quiet: true });
+    return result.exitCode === 0 ? result.output.trim() : null;
+  };
+
+  const commit = await git('rev-parse', 'HEAD');
+  if (!commit) return null;
+  const branch = await git('rev-parse', '--abbrev-ref', 'HEAD');
+  const status = await git('status', '--porcelain');
+  return { commit, branch: branch && branch !== 'HEAD' ? branch : null, dirty: Boolean(status) };
+}
+
+// e.g. '#3 2024-05-01 10:00 deploy [prod] 1a2b3c4 (main): 2 created, 5 updated, 0 deleted'
+export function describeDeployment(deployment: DeploymentRecord) {
+  const date = deployment.deployedAt.replace('T', ' ').slice(0, 16);
+  const profile = deployment.profile ? ` [${deployment.profile}]` : '';
+  const git = deployment.git
+    ? ` ${deployment.git.commit.slice(0, 7)}${deployment.git.branch ? ` (${deployment.git.branch})` : ''}${deployment.git.dirty ? ' with uncommitted changes' : ''}`
+    : '';
+  const checks = deployment.checks
+    ? `: ${deployment.checks.created} created, ${deployment.checks.updated} updated, ${deployment.checks.deleted} deleted`
+    : '';
+  return `#${deployment.id} ${date} ${deployment.action}${profile}${git}${checks}`;
+}
+
+// Past deploys and destroys, newest last, kept in the state file between runs
+export class DeploymentLog {
+  constructor(private readonly store: StateStore, private readonly limit = 100) {}
+
+  list(): DeploymentRecord[] {
+    return this.store.read().deployments;
+  }
+
+  // Save a deployment, only the newest `limit` are kept
+  add(deployment: Omit<DeploymentRecord, 'id'>) {
+    const deployments = this.list();
+    const record: DeploymentRecord = { id: (deployments[deployments.length - 1]?.id ?? 0) + 1, ...deployment };
+    this.store.update((state) => {
+      state.deployments = [...deployments, record].slice(-this.limit);
+    });
+    return record;
+  }
+}
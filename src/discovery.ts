@@ -0,0 +1,248 @@
+// discovery.ts
+import fs from 'fs-extra';
+import path from 'path';
+import ts from 'typescript'; // Spec files are parsed, not run, to list their tests
+
+const ignoredDirectories = ['node_modules', '.git'];
+
+// A test() call found in a spec file
+export interface DiscoveredTest {
+  file: string; // Spec file, posix path relative to the suite folder
+  titlePath: string[]; // Titles of the enclosing describe blocks, then the test's own
+  tags: string[]; // '@smoke' style tags from the titles and the `tag` option, inherited from describe blocks
+  line: number;
+}
+
+// Picks a subset of the tests, empty fields don't filter
+export interface TestFilter {
+  tags: string[]; // Tests with any of these tags
+  grep: string | null; // Regular expression matched like Playwright's --grep
+  files: string[]; // Spec files, folders or globs relative to the suite folder
+}
+
+export const emptyFilter: TestFilter = { tags: [], grep: null, files: [] };
+
+// Calls on `test` that declare a test, e.g. test.only('...'); test.step or test.use are left out
+const testModifiers = ['only', 'skip', 'fixme', 'fail', 'slow'];
+const testFunctions = ['test', 'it'];
+
+// Spec files below `folder` matching the suite's `testMatch` glob, as posix paths relative to the folder
+export function findSpecFiles(folder: string, testMatch: string) {
+  if (!fs.existsSync(folder)) return [];
+  const pattern = globToRegExp(testMatch);
+  return listFiles(folder).filter((file) => pattern.test(file)).sort();
+}
+
+// Every test of the spec files below `folder`, in file order
+export function discoverTests(folder: string, testMatch: string) {
+  return findSpecFiles(folder, testMatch).flatMap((file) => {
+    const source = fs.readFileSync(path.join(folder, ...file.split('/')), 'utf-8');
+    return parseSpecFile(file, source);
+  });
+}
+
+// The test() and test.describe() calls of a spec file, titles given as template strings are kept as written
+export function parseSpecFile(file: string, source: string): DiscoveredTest[] {
+  const sourceFile = ts.createSourceFile(file, source, ts.ScriptTarget.Latest, true);
+  const tests: DiscoveredTest[] = [];
+
+  const visit = (node: ts.Node, titlePath: string[], tags: string[]) => {
+    const call = ts.isCallExpression(node) ? describeCall(node) : null;
+    if (!call) {
+      ts.forEachChild(node, (child) => visit(child, titlePath, tags));
+      return;
+    }
+
+    const ownTags = [...tags, ...titleTags(call.title), ...call.tags];
+    if (call.kind === 'describe') {
+      const describePath = call.title ? [...titlePath, call.title] : titlePath;
+      call.body?.forEachChild((child) => visit(child, describePath, ownTags));
+    } else {
+      const { line } = sourceFile.getLineAndCharacterOfPosition(node.getStart());
+      tests.push({ file, titlePath: [...titlePath, call.title], tags: [...new Set(ownTags)], line: line + 1 });
+    }
+  };
+  visit(sourceFile, [], []);
+  return tests;
+}
+
+// Whether a test passes every part of the filter
+export function matchesFilter(test: DiscoveredTest, filter: TestFilter) {
+  if (filter.tags.length > 0 && !filter.tags.some((tag) => test.tags.includes(normalizeTag(tag)))) return false;
+  // Playwright matches --grep against the file, the titles and the tags, ignoring case
+  if (filter.grep && !new RegExp(filter.grep, 'i').test([test.file, ...test.titlePath, ...test.tags].join(' '))) return false;
+  if (filter.files.length > 0 && !filter.files.some((pattern) => matchesFile(test.file, pattern))) return false;
+  return true;
+}
+
+export function isEmptyFilter(filter: TestFilter) {
+  return filter.tags.length === 0 && !filter.grep && filter.files.length === 0;
+}
+
+// Problems with a filter, empty when it can be used
+export function validateFilter(filter: TestFilter) {
+  const problems: string[] = [];
+  if (filter.grep) {
+    try {
+      new RegExp(filter.grep);
+    } catch (error) {
+      problems.push(`Invalid grep "${filter.grep}": ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  if (filter.tags.some((tag) => !/^@?\S+$/.test(tag))) problems.push('Tags can not contain spaces.');
+  return problems;
+}
+
+// Arguments narrowing `npx playwright test` to the filter, files are resolved against `folder`
+export function playwrightFilterArgs(filter: TestFilter, folder: string, selectedFiles: string[]) {
+  const args: string[] = [];
+  if (filter.files.length > 0) {
+    // Playwright takes its file arguments as regular expressions on the absolute path
+    args.push(...selectedFiles.map((file) => escapeRegExp(path.join(folder, ...file.split('/')))));
+  }
+
+  const conditions = [
+    ...(filter.tags.length > 0 ? [`(?:${filter.tags.map((tag) => escapeRegExp(normalizeTag(tag))).join('|')})(?!\\S)`] : []),
+    ...(filter.grep ? [filter.grep] : []),
+  ];
+  if (conditions.length === 1 && filter.grep) {
+    args.push('--grep', filter.grep);
+  } else if (conditions.length > 0) {
+    // Every condition has to match somewhere in the title
+    args.push('--grep', `^${conditions.map((condition) => `(?=.*(?:${condition}))`).join('')}`);
+  }
+  return args;
+}
+
+// What one Playwright run changes about playwright.config.ts without rewriting it
+export interface PlaywrightRunOverrides {
+  testDir?: string; // Absolute path of the suite folder to run
+  testMatch?: string; // Glob of the suite's spec files, so local runs test the files that are deployed
+  baseUrlVariable?: string; // Environment variable use.baseURL is read from, e.g. BASE_URL set by the profile
+}
+
+// Source of a config extending playwright.config.ts with the overrides, for `npx playwright test --config`
+// It is written next to playwright.config.ts so relative paths in it resolve the same
+export function renderPlaywrightRunConfig(overrides: PlaywrightRunOverrides) {
+  return [
+    '// Written by the Checkly Test Manager for one test run and removed after it. Edit playwright.config.ts instead.',
+    "import config from './playwright.config';",
+    '',
+    'export default {',
+    '  ...config,',
+    ...(overrides.testDir ? [`  testDir: ${JSON.stringify(overrides.testDir.split(path.sep).join('/'))},`] : []),
+    ...(overrides.testMatch ? [`  testMatch: ${JSON.stringify(overrides.testMatch)},`] : []),
+    ...(overrides.baseUrlVariable ? [`  use: { ...config.use, baseURL: process.env.${overrides.baseUrlVariable} },`] : []),
+    '};',
+    '',
+  ].join('\n');
+}
+
+// e.g. 'cart/checkout.spec.ts:12 checkout > applies a coupon @smoke'
+export function describeTest(test: DiscoveredTest) {
+  const title = test.titlePath.join(' > ');
+  const tags = test.tags.filter((tag) => !titleTags(title).includes(tag)); // tags from the `tag` option
+  return `${test.file}:${test.line} ${title}${tags.length > 0 ? ` ${tags.join(' ')}` : ''}`;
+}
+
+// A test or describe call with its title, tag option and describe body
+function describeCall(node: ts.CallExpression) {
+  const names: string[] = [];
+  let callee: ts.Expression = node.expression;
+  while (ts.isPropertyAccessExpression(callee)) {
+    names.unshift(callee.name.text);
+    callee = callee.expression;
+  }
+  if (!ts.isIdentifier(callee)) return null;
+  names.unshift(callee.text);
+
+  const [first, second] = node.arguments;
+  const title = first ? stringValue(first) ?? first.getText() : null; // computed titles are shown as written
+  const body = node.arguments[node.arguments.length - 1];
+  const hasBody = body !== undefined && (ts.isArrowFunction(body) || ts.isFunctionExpression(body));
+  const details = node.arguments.length > 2 && second && ts.isObjectLiteralExpression(second) ? second : null;
+  const tags = details ? tagOption(details) : [];
+
+  if (names.includes('describe') && (names[0] === 'describe' || testFunctions.includes(names[0]))) {
+    return hasBody ? { kind: 'describe' as const, title: first === body ? '' : title ?? '', tags, body: body.body } : null;
+  }
+  // test.skip(condition, 'reason') without a body only annotates the current test
+  if (testFunctions.includes(names[0]) && names.slice(1).every((name) => testModifiers.includes(name)) && hasBody && first !== body && title !== null) {
+    return { kind: 'test' as const, title, tags, body: null };
+  }
+  return null;
+}
+
+// Text of a string literal, template strings with placeholders are returned as written, null for other expressions
+function stringValue(node: ts.Expression) {
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) return node.text;
+  if (ts.isTemplateExpression(node)) return node.getText().slice(1, -1);
+  return null;
+}
+
+// `{ tag: '@smoke' }` or `{ tag: ['@smoke', '@fast'] }`
+function tagOption(details: ts.ObjectLiteralExpression) {
+  const property = details.properties.find((prop): prop is ts.PropertyAssignment =>
+    ts.isPropertyAssignment(prop) && ts.isIdentifier(prop.name) && prop.name.text === 'tag');
+  if (!property) return [];
+  const values = ts.isArrayLiteralExpression(property.initializer) ? [...property.initializer.elements] : [property.initializer];
+  return values.map(stringValue).filter((value): value is string => value !== null);
+}
+
+// '@smoke' style words in a title
+function titleTags(title: string): string[] {
+  return title.match(/@\S+/g) ?? [];
+}
+
+function normalizeTag(tag: string) {
+  return tag.startsWith('@') ? tag : `@${tag}`;
+}
+
+// A spec file matches a path to it, a folder above it or a glob
+function matchesFile(file: string, pattern: string) {
+  const normalized = pattern.split(path.sep).join('/').replace(/^\.\//, '').replace(/\/$/, '');
+  return file === normalized || file.startsWith(`${normalized}/`) || globToRegExp(normalized).test(file);
+}
+
+// Supports **, *, ? and {a,b}, e.g. '**/*.{spec,test}.ts'
+export function globToRegExp(glob: string) {
+  let source = '';
+  for (let index = 0; index < glob.length; index++) {
+    const char = glob[index];
+    if (glob.startsWith('**/', index)) {
+      source += '(?:.*/)?';
+      index += 2;
+    } else if (glob.startsWith('**', index)) {
+      source += '.*';
+      index += 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      const end = glob.indexOf('}', index);
+      if (end === -1) {
+        source += '\\{';
+        continue;
+      }
+      source += `(?:${glob.slice(index + 1, end).split(',').map(escapeRegExp).join('|')})`;
+      index = end;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+// Every file below `dir`, as posix paths relative to `root`
+function listFiles(root: string, dir = root): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    if (ignoredDirectories.includes(entry.name)) return [];
+    const fullPath = path.join(dir, entry.name);
+    return entry.isDirectory() ? listFiles(root, fullPath) : [path.relative(root, fullPath).split(path.sep).join('/')];
+  });
+}
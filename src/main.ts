@@ -1,32 +1,226 @@
 import fs from 'fs-extra'; // Importing the 'fs-extra' module for file system operations (extends native 'fs' with additional features).
 import path from 'path'; // Importing the 'path' module to handle and transform file paths.
-import prompts from 'prompts'; // Importing 'prompts' for CLI-based interactive user input.
-import { execSync } from 'child_process'; // Importing 'execSync' to execute shell commands synchronously.
+import prompts, { Answers, PromptObject } from 'prompts'; // Importing 'prompts' for CLI-based interactive user input.
+import { runCli } from './cli'; // Importing the non-interactive command-line entry point.
+import { ConfigEditor } from './config-editor'; // Importing the AST-based editor for checkly.config.ts and playwright.config.ts.
+import { ConfigBackupStore, describeBackup, diffLines, formatDiff } from './config-backups'; // Importing the config file backups.
+import {
+  AlertChannelConfig,
+  AlertChannelRegistry,
+  AlertChannelType,
+  alertChannelTypes,
+  alertChannelVariable,
+  describeAlertChannel,
+  isValidEmail,
+  missingChannelSecrets,
+  renderAlertChannelsModule,
+  secretVariable,
+} from './alert-channel'; // Importing the alert channel registry and code generation.
+import { defaultTestMatch, renderSuitesModule, SuiteRegistry, TestSuite } from './suites'; // Importing the named test suites.
+import { FolderWatcher, waitForStop, WatchOptions } from './watcher'; // Importing the watch mode for the original folder.
+import { formatResults, readPlaywrightReport, TestResult } from './test-results'; // Importing the Playwright JSON report parsing.
+import {
+  AlertPolicy,
+  describeAlertPolicy,
+  formatEscalation,
+  loadAlertPolicy,
+  NotificationSettings,
+  parseEscalation,
+  saveAlertPolicy,
+  validateEscalation,
+} from './alert-policy'; // Importing the alert escalation and notification policy.
+import { DeployPolicy, describeDeployPolicy, evaluateDeployPolicy, GateDecision, loadDeployPolicy, saveDeployPolicy, TestRunner, testRunners } from './deploy-policy'; // Importing the deploy gate.
+import { CheckRunResult, checklyRunArgs, ChecklyRunMode, formatCheckRunResults, readChecklyReport, toTestResults } from './checkly-runs'; // Importing the runs in Checkly's runtime.
+import { compareRuns, describeRun, RunHistory } from './run-history'; // Importing the run history.
+import { describeTest, DiscoveredTest, discoverTests, emptyFilter, findSpecFiles, isEmptyFilter, matchesFilter, playwrightFilterArgs, PlaywrightRunOverrides, renderPlaywrightRunConfig, TestFilter, validateFilter } from './discovery'; // Importing the spec file and test discovery.
+import {
+  CheckRegistry,
+  checkFilePath,
+  checkFileStatus,
+  checkFrequencies,
+  CheckSettings,
+  defaultCheckSettings,
+  describeRetryStrategy,
+  parseRetryStrategy,
+  renderCheckFile,
+  validateRetryStrategy,
+} from './checks'; // Importing the check file generator.
+import { listProjectTemplates, parseAssertion, renderScaffold, ScaffoldAssertion, ScaffoldRequest, ScaffoldType, scaffoldTypes, validateScaffold } from './templates'; // Importing the templates of the New Check flow.
+import { baseUrlVariable, describeProfile, emptyProfile, missingSecrets, Profile, profileEnvironment, profileGroupProps, ProfileRegistry } from './profiles'; // Importing the deploy profiles.
+import {
+  AccountRegistry,
+  ChecklyAccount,
+  ChecklySession,
+  CredentialSource,
+  accountEnvironment,
+  accountIdVariable,
+  apiKeyVariable,
+  describeAccount,
+  describeSession,
+  environmentCredentials,
+  parseWhoami,
+} from './accounts'; // Importing the saved Checkly accounts and credential checks.
+import { CheckCounts, countChecks, DeployChange, DeploymentLog, DeploymentRecord, describeDeployChanges, describeDeployment, parseDeployOutput, readGitInfo } from './deployments'; // Importing the deploy preview and log.
+import { renderHtmlReport, renderMarkdownReport, ReportData } from './reports'; // Importing the HTML and Markdown reports.
+import { applyProjectSettings, checklyLocations, checklyRuntimes, describeProjectSettings, ProjectSettings, readProjectSettings, validateProjectSettings } from './project-settings'; // Importing the project-wide check settings.
+import { Diagnostic, formatDiagnostics, hasErrors, validateProject } from './validation'; // Importing the pre-deploy validation.
+import { findProjectRoot, StateError, StateStore } from './state'; // Importing the state file.
+import { CommandRunner, describeFailure, ProcessRunner, succeeded } from './process-runner'; // Importing the runner for external commands.
+import { ConflictResolution, describeSyncPlan, hasSyncChanges, SyncEngine } from './sync'; // Importing the content-hash sync.
 
-class TestManager {
+// Replaceable parts of the manager, the defaults work on the real terminal, disk and commands
+export interface ManagerDependencies {
+  cwd?: string; // Directory the project root is searched upwards from, the current one by default
+  runner?: CommandRunner; // Runs npx and npm, a fake one runs the flows without them
+  prompt?: PromptFunction; // Asks the interactive questions, a fake one answers them from a script
+}
+
+// The signature of `prompts`, which answers with one value per question name
+export type PromptFunction = (questions: PromptObject | PromptObject[]) => Promise<Answers<string>>;
+
+// Options for running a deployment without the interactive prompts
+export interface DeployOptions {
+  yes?: boolean; // Skip the confirmation prompt, a deploy the policy blocks is aborted instead of asked about
+  failOnTestFailure?: boolean; // Abort the deployment when the Playwright run fails
+  ignorePolicy?: boolean; // With `yes`, deploy even when the deploy policy blocks
+  filter?: TestFilter; // Only run the matching tests before deploying, the whole project is deployed
+  testRunner?: TestRunner; // Where the gating tests run, the deploy policy's choice when not set
+  locations?: string[]; // Locations of a `checkly test` gate, the deploy policy's when not set
+}
+
+// Options for running checks in Checkly's runtime instead of locally
+export interface ChecklyRunOptions {
+  locations?: string[]; // One run per location, the config's default location when empty
+  filter?: TestFilter; // `checkly test` only: run the checks of the matching tests' spec files
+  tags?: string[]; // `checkly trigger` only: run the deployed checks having all these tags
+}
+
+// Outcome of a local test run, used by the CLI to pick an exit code
+export type TestRunResult = 'passed' | 'failed' | 'canceled' | 'no-tests';
+
+// Options for syncing the original folder into the test folder
+export interface SyncOptions {
+  dryRun?: boolean; // Only report what would change
+  onConflict?: ConflictResolution; // Resolve every conflict the same way instead of asking
+  interactive?: boolean; // Confirm before applying and ask for each conflict
+}
+
+// Outcome of a deployment, used by the CLI to pick an exit code
+export type DeployResult = 'deployed' | 'canceled' | 'tests-failed' | 'failed';
+
+// Snapshot of the current configuration, printed by the `status` command
+export interface ManagerStatus {
+  email: string | null;
+  activeSuite: string | null;
+  suites: string[];
+  profile: string | null;
+  account: string | null; // Saved Checkly account in use, null for the environment or checkly login
+  alertChannels: Array<{ id: string; type: AlertChannelType }>;
+  testFolder: string | null;
+  originalFolder: string | null;
+  playwrightConfig: boolean;
+  checklyConfig: boolean;
+  tests: string[];
+}
+
+export class TestManager {
   // Class to manage test folder, configuration files, and associated operations.
 
+  // The dependencies are set before the fields below, which use the project root.
+  constructor(private readonly dependencies: ManagerDependencies = {}) {}
+
+  // Directory the manager was started in, relative paths typed by the user are resolved against it.
+  private workingDirectory = this.dependencies.cwd ?? process.cwd();
+
+  // Directory with the project's config files, found upwards from where the manager was started.
+  private projectRoot = findProjectRoot(this.workingDirectory);
+
+  // Starts the external commands (npx playwright, npx checkly, ...).
+  private runner: CommandRunner = this.dependencies.runner ?? new ProcessRunner(path.join(this.projectRoot, '.checkly-manager', 'logs'));
+
+  // Asks the questions of the menu and the setup steps.
+  private prompt: PromptFunction = this.dependencies.prompt ?? prompts;
+
   // Property to hold the path of the current test folder in use.
   private testFolder: string | null = null;
 
   // Property to store the original folder path (before any modifications).
   private originalFolderPath: string | null = null;
 
-  // Path to save the test folder's state (saved between program runs).
-  private savedFolderPath = './savedFolder.json';
+  // Everything saved between program runs: suites, alert channels, deploy policy, sync hashes and run history.
+  private state = new StateStore(this.projectRoot);
+
+  // Settings of the BrowserCheck files generated for spec files.
+  private checks = new CheckRegistry(this.state);
+
+  // Deploys and destroys that reached Checkly, with the commit they came from.
+  private deployments = new DeploymentLog(this.state);
+
+  // Copies of checkly.config.ts and playwright.config.ts taken before every rewrite.
+  private configBackups = new ConfigBackupStore(this.state, this.projectRoot);
+
+  // Past deploy runs with their test results.
+  private runHistory = new RunHistory(this.state);
+
+  // Time limits for the Playwright run of a suite and for `checkly deploy`.
+  private testTimeoutMs = 30 * 60 * 1000;
+  private deployTimeoutMs = 10 * 60 * 1000;
+
+  // Absolute path the Playwright JSON reporter writes to during a deploy.
+  private playwrightResultsPath = path.join(this.projectRoot, 'playwright-results.json');
+
+  // Absolute path the Checkly CLI's JSON reporter writes to during `checkly test` and `checkly trigger`.
+  private checklyResultsPath = path.join(this.projectRoot, 'checkly-results.json');
+
+  // Folder the HTML and Markdown reports are written to, unless another one is given.
+  private reportsFolder = path.join(this.projectRoot, '.checkly-manager', 'reports');
+
+  // Saved test suites, each with its own original folder, copy and alert channels.
+  private suites = new SuiteRegistry(this.state);
+
+  // Name of the suite the test folder belongs to, and the suite selected for this run, the saved one when null.
+  private activeSuite: string | null = null;
+  private suiteOverride: string | null = null;
+
+  // Deploy targets (staging, prod, ...) and the one selected for this run, the saved one when null.
+  private profiles = new ProfileRegistry(this.state);
+  private profileOverride: string | null = null;
+
+  // Saved Checkly accounts and the one selected for this run, the saved one when null.
+  private accounts = new AccountRegistry(this.state);
+  private accountOverride: string | null = null;
+
+  // The account the Checkly CLI reported at the last credential check, null when logged out or not checked yet.
+  private session: ChecklySession | null = null;
+
+  // Saved alert channels (email, Slack, webhook, ...).
+  private alertChannels = new AlertChannelRegistry(this.state);
 
-  // Path to store email configuration for Checkly alerts.
-  private emailFilePath = './email.json';
+  // Id of the channel managed by the email prompts.
+  private emailChannelId = 'email-channel-1';
 
   // Absolute path to the Checkly configuration file.
-  private configPath = path.resolve('checkly.config.ts');
+  private configPath = path.join(this.projectRoot, 'checkly.config.ts');
+
+  // Absolute path to the generated module exporting the alert channel constructs.
+  private alertChannelsModulePath = path.join(this.projectRoot, 'alert-channels.ts');
+
+  // Absolute path to the generated check file with one CheckGroup per suite.
+  private suitesCheckPath = path.join(this.projectRoot, 'suites.check.ts');
+
+  // Folder with the project's own templates for new specs and check files.
+  private templatesFolder = path.join(this.projectRoot, '.checkly-manager', 'templates');
 
   // Absolute path to the Playwright configuration file.
-  private playwrightConfigPath = path.resolve('playwright.config.ts');
+  private playwrightConfigPath = path.join(this.projectRoot, 'playwright.config.ts');
+
+  // Config extending playwright.config.ts for a single run, e.g. with the base URL of --profile; removed after the run
+  private playwrightRunConfigPath = path.join(this.projectRoot, 'playwright.checkly-manager.config.ts');
      
     // Method to initialize the test manager and perform initial setup.
     async init() {
       console.log('Welcome to the Checkly Test Manager!');
+      if (!this.checkState()) return; // A broken state file would fail every step below
     
       const playwrightExists = fs.existsSync(this.playwrightConfigPath); // Check if the Playwright config file exists
       const checklyExists = fs.existsSync(this.configPath); // Check if the Checkly config file exists
@@ -41,7 +235,7 @@ class TestManager {
       }
     
       await this.ensureTestFolder(); // Ensure the test folder exists
-      await this.syncOriginalFolder(); // Sync original files whenever the test folder changes
+      await this.syncOriginalFolder({ interactive: true }); // Sync original files whenever the test folder changes
       await this.setupEmailChannel(); // Setting up email for Checkly alerts
       await this.modifyChecklyConfig(); // Adding alerts to project config 
     
@@ -50,15 +244,15 @@ class TestManager {
 
       // Methods to create Playwright and Checkly projects
       async createPlaywrightProject() { 
-        const playwrightConfigPath = './playwright.config.ts';
-        if (fs.existsSync(playwrightConfigPath)) {
+        if (fs.existsSync(this.playwrightConfigPath)) {
           console.log('Playwright project already initialized.');
           return;
         }
       
         console.log('Initializing a new Playwright project...');
         try {
-          execSync('npm init playwright@latest', { stdio: 'inherit' }); // shell command
+          const result = await this.runner.run('npm', ['init', 'playwright@latest'], { interactive: true, cwd: this.projectRoot }); // shell command
+          if (!succeeded(result)) throw new Error(describeFailure(result));
           console.log('Playwright project initialized successfully!');
         } catch (error) {
           console.error('Error initializing Playwright project:', error instanceof Error ? error.message : error);
@@ -74,7 +268,8 @@ class TestManager {
       
         console.log('Initializing a new Checkly project...');
         try {
-          execSync('npm create checkly', { stdio: 'inherit' }); 
+          const result = await this.runner.run('npm', ['create', 'checkly'], { interactive: true, cwd: this.projectRoot });
+          if (!succeeded(result)) throw new Error(describeFailure(result));
           console.log('Checkly project initialized successfully!');
         } catch (error) {
           console.error('Error initializing Checkly project:', error instanceof Error ? error.message : error);
@@ -82,11 +277,22 @@ class TestManager {
         }
       }
   
-  // Method to log in to Checkly
+  // Method to log in to Checkly, only asks when no credentials work yet
   async loginToCheckly() {
-    console.log('Please login to Checkly CLI.');
+    const session = await this.checkCredentials();
+    if (session) {
+      console.log(`Checkly account: ${describeSession(session, this.currentAccount())}`);
+      return;
+    }
+    // checkly login can't fix credentials given through the environment, they take precedence over it
+    if (this.currentAccount() || environmentCredentials() !== 'none') {
+      console.error(`The Checkly credentials ${this.currentAccount() ? `of account "${this.currentAccount()!.name}"` : `in ${apiKeyVariable} and ${accountIdVariable}`} were not accepted. Some features may not work.`);
+      return;
+    }
+
+    console.log('You are not logged in to the Checkly CLI.');
     try {
-      const response = await prompts({
+      const response = await this.prompt({
         type: 'confirm',
         name: 'login',
         message: 'Do you want to log in to Checkly CLI?',
@@ -98,32 +304,117 @@ class TestManager {
         return; // Allow the CLI to continue without forcing login
       }
 
-      execSync('npx checkly login', { stdio: 'inherit' });
+      const result = await this.runner.run('npx', ['checkly', 'login'], { interactive: true, cwd: this.projectRoot });
+      if (!succeeded(result)) throw new Error(describeFailure(result));
       console.log('Login successful!');
+      await this.checkCredentials();
     } catch (error) {
-      console.error('Error logging into Checkly:', error);
+      console.error('Error logging into Checkly:', error instanceof Error ? error.message : error);
       console.log('Continuing without Checkly login. Some features may not work.');
     }
   }
 
     // Ensure the test folder exists
     async ensureTestFolder() { 
-      if (fs.existsSync(this.savedFolderPath)) { // Check if a saved folder exists
-        const savedFolder = JSON.parse(fs.readFileSync(this.savedFolderPath, 'utf-8'));
-        if (fs.existsSync(savedFolder.folder)) {
-          this.testFolder = savedFolder.folder; // Load saved folder
-          this.originalFolderPath = savedFolder.originalFolder; // Load original path
-          console.log(`Using previously saved folder: ${this.testFolder}`);
-          return;
-        }
+      if (this.loadSavedFolder()) {
+        console.log(`Using previously saved folder: ${this.testFolder} (suite "${this.activeSuite}")`);
+        return;
       }
       await this.setTestFolder();
     }
+
+    // Read the state file once, printing what is wrong with it instead of crashing later
+    checkState() {
+      try {
+        this.state.read();
+        return true;
+      } catch (error) {
+        if (!(error instanceof StateError)) throw error;
+        console.error(error.message);
+        console.error(`Fix the file, or move it away to start with an empty setup (${this.state.filePath}).`);
+        return false;
+      }
+    }
+
+    // Write the suites, alert channels and deploy policy to `filePath`, or print them when not given
+    exportSetup(filePath?: string) {
+      try {
+        const setup = JSON.stringify(this.state.exportSetup(), null, 2);
+        if (!filePath) {
+          console.log(setup);
+          return true;
+        }
+        fs.writeFileSync(filePath, `${setup}\n`);
+        console.log(`Exported the setup to ${filePath}.`);
+        return true;
+      } catch (error) {
+        console.error(`Error exporting the setup: ${error instanceof Error ? error.message : error}`);
+        return false;
+      }
+    }
+
+    // Merge a setup exported by a teammate, then regenerate the files that depend on it
+    async importSetup(filePath: string) {
+      if (!fs.existsSync(filePath)) {
+        console.error(`File not found: ${filePath}`);
+        return false;
+      }
+      try {
+        const state = this.state.importSetup(filePath);
+        console.log(`Imported ${state.suites.length} suite(s) and ${state.alertChannels.length} alert channel(s) from ${filePath}.`);
+      } catch (error) {
+        console.error(`Error importing the setup: ${error instanceof Error ? error.message : error}`);
+        return false;
+      }
+
+      for (const suite of this.suites.list().filter((suite) => !fs.existsSync(suite.originalFolder))) {
+        console.log(`Note: the original folder of suite "${suite.name}" (${suite.originalFolder}) doesn't exist on this machine.`);
+      }
+      if (this.loadSavedFolder()) {
+        await this.updatePlaywrightConfig(this.testFolder!);
+      }
+      return fs.existsSync(this.configPath) ? this.writeAlertChannels() : true;
+    }
+
+    // Load the active suite's folders without prompting, returns false if there is none
+    loadSavedFolder() {
+      this.suiteOverride = null;
+      const suite = this.suites.getActive(); // Check if a saved suite exists
+      if (suite && fs.existsSync(suite.folder)) {
+        this.applySuite(suite);
+        return true;
+      }
+      return false;
+    }
+
+    // The suite selected for this run, the saved one unless --suite picked another
+    private currentSuite() {
+      return this.suiteOverride ? this.suites.get(this.suiteOverride) ?? null : this.suites.getActive();
+    }
+
+    // Rewrite playwright.config.ts for the saved suite, a --suite run leaves it pointing there
+    private async refreshPlaywrightConfig() {
+      const suite = this.suites.getActive();
+      if (suite && fs.existsSync(suite.folder)) await this.updatePlaywrightConfig(suite.folder);
+    }
+
+    // Point the manager at a suite's folders
+    private applySuite(suite: TestSuite) {
+      this.activeSuite = suite.name;
+      this.testFolder = suite.folder; // Load saved folder
+      this.originalFolderPath = suite.originalFolder; // Load original path
+    }
     
     // Method to set the test folder if it doesnt exist
-    async setTestFolder() {
+    // When a folder path is given the interactive browser is skipped
+    // The folder is saved as the suite `suiteName`, named after the folder by default
+    async setTestFolder(folderPath?: string, suiteName?: string) {
+      if (folderPath) {
+        return this.useTestFolder(path.resolve(this.workingDirectory, folderPath), suiteName);
+      }
+
       try {
-        let currentDir = process.cwd(); // Starting at the current project folder
+        let currentDir = this.projectRoot; // Starting at the current project folder
     
         while (true) {
           const items = fs.readdirSync(currentDir).map((item) => { // Getting all files and folders in the current directory
@@ -144,7 +435,7 @@ class TestManager {
             value: currentDir, // Set the current directory as the value
           });
     
-          const response = await prompts({
+          const response = await this.prompt({
             type: 'select',
             name: 'selected',
             message: `Current Directory: ${currentDir}\nSelect a folder or action:`,
@@ -153,397 +444,2611 @@ class TestManager {
     
           if (!response.selected) {
             console.log('No selection made. Operation canceled.');
-            return; // Exit if no selection is made
+            return false; // Exit if no selection is made
           }
     
           if (response.selected === currentDir) {
-            if (!fs.lstatSync(currentDir).isDirectory()) {
-              console.error('Invalid selection, please choose a directory.');
-            } else {
-              this.originalFolderPath = currentDir; // Save the original folder path
-              const projectRoot = process.cwd(); // Project root directory
-              this.testFolder = path.resolve(projectRoot, path.basename(currentDir)); // Copy to root, maintaining folder name
-    
-              // Copy files from the original folder to the root of the project
-              try {
-                fs.copySync(this.originalFolderPath, this.testFolder, { overwrite: true });
-                console.log(`Copied files from ${this.originalFolderPath} to ${this.testFolder}`);
-              } catch (error) {
-                console.error(`Error copying files: ${error instanceof Error ? error.message : error}`);
-                return; // Exit on error
-              }
-    
-              // Save the paths to the configuration file
-              fs.writeFileSync(
-                this.savedFolderPath,
-                JSON.stringify({ folder: this.testFolder, originalFolder: this.originalFolderPath }, null, 2)
-              );
-              console.log('Saved test folder paths.');
-    
-              // Inform the user the folder is ready for testing
-              console.log(`Playwright tests will now use the folder at: ${this.testFolder}`);
-              break; // Exit the loop after a successful copy
+            if (!(await this.useTestFolder(currentDir, suiteName))) {
+              return false; // Exit on error
             }
+            break; // Exit the loop after a successful copy
           } else {
             currentDir = response.selected; // Navigate into the selected directory
           }
         }
+        return true;
       } catch (error) {
         console.error(`An error occurred: ${error instanceof Error ? error.message : error}`);
+        return false;
       }
     }
-    
-// Synchronize files from the original folder to the test folder
-// Only updates files if they are missing or outdated in the destination
-async syncOriginalFolder() { 
-  if (!this.originalFolderPath || !this.testFolder) {
-    console.error('Original or test folder not set. Cannot sync files.');
-    return;
-  }
 
-  console.log(`Syncing files from ${this.originalFolderPath} to ${this.testFolder}...`);
-  try {
-    fs.copySync(this.originalFolderPath, this.testFolder, { // src, dest
-      overwrite: true, // Allow overwriting files in the destination
-      filter: (src, dest) => {
-        const srcData = fs.statSync(src); // Getting data of the source file
-        const destData = fs.existsSync(dest) ? fs.statSync(dest) : null; // Checking if the destination file exists and get its data.
-        
-        // Only copy the file if:
-        // - The destination file does not exist, or
-        // - The source file is newer than the destination file.
-        return ! destData || srcData.mtimeMs >  destData.mtimeMs;
-      },
-    });
-    console.log('Syncing completed successfully.');
-  } catch (error) {
-    console.error(`Error syncing files: ${error instanceof Error ? error.message : error}`);
-  }
-}
+    // Copy the selected folder into the project root and save it as a suite
+    private async useTestFolder(selectedDir: string, suiteName?: string) {
+      if (!fs.existsSync(selectedDir) || !fs.lstatSync(selectedDir).isDirectory()) {
+        console.error('Invalid selection, please choose a directory.');
+        return false;
+      }
+
+      const name = suiteName ?? path.basename(selectedDir).replace(/[^A-Za-z0-9_-]/g, '-');
+      const existing = this.suites.get(name);
+      const projectRoot = this.projectRoot; // Project root directory
+      const suite: TestSuite = {
+        name,
+        originalFolder: selectedDir, // Save the original folder path
+        folder: path.resolve(projectRoot, suiteName ?? path.basename(selectedDir)), // Copy to root, maintaining folder name
+        testMatch: existing?.testMatch ?? defaultTestMatch,
+        alertChannels: existing?.alertChannels ?? [],
+      };
 
-    
-    // Method to update the checkly.config.ts file with the path of the test folder
-    async updateChecklyConfig(folderPath: string) {
       try {
-        let configContent = fs.readFileSync(this.configPath, 'utf-8'); // Pointing to checkly.config.ts
-  
-        configContent = configContent.replace(
-          /checkMatch: '.*?'/,
-          `checkMatch: '${folderPath.replace(/\\/g, '/')}/**/*.check.ts'`// to find check files in the test folder
-        );
-  
-        configContent = configContent.replace(
-          /testMatch: '.*?'/,
-          `testMatch: '${folderPath.replace(/\\/g, '/')}/**/*.spec.ts'` // to find test files in the test folder
-        );
-  
-        fs.writeFileSync(this.configPath, configContent, 'utf-8'); // adding the updated content of checkly.config.ts
-        console.log(`Updated Checkly config paths to: ${folderPath}`);
+        this.suites.assertValid(suite);
       } catch (error) {
-        console.error(`Error updating Checkly config: ${error instanceof Error ? error.message : error}`);
+        console.error(error instanceof Error ? error.message : error);
+        return false;
       }
-    }
-  
-    // Method to update the playwright.config.ts file with the path of the test folder
-    async updatePlaywrightConfig(folderPath: string) {
-      try {
-        let configContent = fs.readFileSync(this.playwrightConfigPath, 'utf-8');
-  
-        configContent = configContent.replace(
-          /testDir: '.*?'/,
-          `testDir: '${folderPath.replace(/\\/g, '/')}'`
-        );
-  
-        fs.writeFileSync(this.playwrightConfigPath, configContent, 'utf-8'); // adding the updated content of playwright.config.ts
-        console.log(`Updated Playwright config paths to: ${folderPath}`); 
-      } catch (error) {
-        console.error(`Error updating Playwright config: ${error instanceof Error ? error.message : error}`);
+
+      // Copy files from the original folder to the root of the project
+      if (suite.folder !== suite.originalFolder) {
+        try {
+          fs.copySync(suite.originalFolder, suite.folder, { overwrite: true });
+          console.log(`Copied files from ${suite.originalFolder} to ${suite.folder}`);
+        } catch (error) {
+          console.error(`Error copying files: ${error instanceof Error ? error.message : error}`);
+          return false;
+        }
       }
+
+      // Save the suite to the configuration file
+      this.suites.put(suite);
+      this.suites.setActive(name);
+      this.applySuite(suite);
+      console.log(`Saved test suite "${name}".`);
+
+      // Inform the user the folder is ready for testing
+      await this.updatePlaywrightConfig(suite.folder);
+      console.log(`Playwright tests will now use the folder at: ${this.testFolder}`);
+      return true;
     }
-    
-    // Method to setup email
-    async setupEmailChannel() {
-      if (!fs.existsSync(this.configPath)) {
-        console.error('Checkly config file not found. Ensure the project is created first.');
-        return;
-      }
-    
-      const emailData = fs.existsSync(this.emailFilePath)
-        ? JSON.parse(fs.readFileSync(this.emailFilePath, 'utf-8'))
-        : null;
-    
-      const cachedEmail = emailData?.email;
-      if (cachedEmail) {
-        console.log(`Using cached email address: ${cachedEmail}`);
-        return;
-      }
-    
-      const response = await prompts({
-        type: 'text',
-        name: 'email',
-        message: 'Enter the email address for Checkly alerts:',
-        validate: (input) =>
-          /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(input) || 'Please enter a valid email address.',
-      });
-    
-      const email = response.email;
-      if (!email) {
-        console.log('No email provided. Continuing without email setup.');
-        return;
-      }
-    
-      fs.writeFileSync(this.emailFilePath, JSON.stringify({ email }, null, 2));
-      console.log(`Email alert channel set up for: ${email}`);
-    
-      // Modify config to add the email channel
-      await this.modifyChecklyConfig();
+
+    // to list the saved suites
+    listSuites() {
+      return this.suites.list();
     }
-    
-    // adding email channel to the checkly.config.ts
-    async modifyChecklyConfig() {
-      if (!fs.existsSync(this.configPath)) {
-        console.error('Checkly config file not found. Ensure the project is created first.');
-        return;
+
+    // to make another suite the active one, saved for later runs unless `persist` is false
+    async switchSuite(name: string, persist = true) {
+      const suite = this.suites.get(name);
+      if (!suite) {
+        console.error(`No test suite named "${name}".`);
+        return false;
       }
-    
-      const emailData = fs.existsSync(this.emailFilePath)
-        ? JSON.parse(fs.readFileSync(this.emailFilePath, 'utf-8'))
-        : null;
-    
-      const email = emailData?.email;
-      if (!email) {
-        console.error('Email address not set. Cannot modify Checkly config.');
-        return;
+      if (!fs.existsSync(suite.folder)) {
+        console.error(`The folder of suite "${name}" no longer exists: ${suite.folder}`);
+        return false;
       }
 
-      // Defining the EmailAlertChannel 
-      const emailChannel = `
-    import { EmailAlertChannel } from 'checkly/constructs';
-    
-    const emailChannel = new EmailAlertChannel('email-channel-1', {
-      address: '${email}', 
-      sendFailure: true,
-      sendRecovery: true,
-      sendDegraded: false,
-    });
-    `;
-    
-      try {
-        let configContent = fs.readFileSync(this.configPath, 'utf-8'); // uppdating the checkly.config.ts file
-    
-        // Add the email channel import and definition if it doesn't already exist
-        if (!configContent.includes('EmailAlertChannel')) {
-          configContent = `${emailChannel}\n${configContent}`;
-        }
-    
-        const checksRegex = /checks\s*:\s*\{[\s\S]*?\}/; // Regex to find the `checks` object declared in the config file
-        if (checksRegex.test(configContent)) { 
-          configContent = configContent.replace( // Replacing the `checks` object with the modified version
-            checksRegex,
-            (match) => { // Adding the email channel to the `checks` object
-              if (!match.includes('alertChannels')) { // Check if `alertChannels` is already defined
-                return match.replace(
-                  /{\s*/,
-                  `{ alertChannels: [emailChannel],\n`
-                );
-              }
-              return match; // Leave existing alertChannels untouched
-            }
-          );
-        } else {
-          console.error('Checks object not found in the Checkly configuration. Ensure the file is formatted correctly.');
-          return;
-        }
-    
-        fs.writeFileSync(this.configPath, configContent, 'utf-8'); // updating the checkly.config.ts file
-        console.log('Email alert channel added to checks in Checkly config!');
-      } catch (error) {
-        console.error(`Error modifying Checkly config: ${error instanceof Error ? error.message : error}`);
+      this.applySuite(suite);
+      if (!persist) {
+        this.suiteOverride = name;
+        return true;
       }
+      this.suites.setActive(name);
+      this.suiteOverride = null;
+      console.log(`Switched to test suite "${name}".`);
+      await this.updatePlaywrightConfig(suite.folder);
+      return true;
     }
-  
-    // to remove the email channel
-    async removeEmailChannel() {
-      if (!fs.existsSync(this.configPath)) {
-        console.error('Checkly config file not found. Ensure the project is created first.');
-        return;
+
+    // to change a suite's match pattern or alert channels
+    async editSuite(name: string, changes: Partial<Pick<TestSuite, 'testMatch' | 'alertChannels'>>) {
+      const suite = this.suites.get(name);
+      if (!suite) {
+        console.error(`No test suite named "${name}".`);
+        return false;
       }
-    
-      if (fs.existsSync(this.emailFilePath)) {
-        fs.unlinkSync(this.emailFilePath);
-        console.log('Email address removed successfully.');
+
+      const knownChannels = this.alertChannels.list().map((channel) => channel.id);
+      const unknown = (changes.alertChannels ?? []).filter((id) => !knownChannels.includes(id));
+      if (unknown.length > 0) {
+        console.error(`Unknown alert channel(s): ${unknown.join(', ')}`);
+        return false;
       }
-    
+
       try {
-        let configContent = fs.readFileSync(this.configPath, 'utf-8');
-    
-        // Removing the email channel definition
-        configContent = configContent.replace(/import { EmailAlertChannel } from 'checkly\/constructs';[\s\S]*?alertChannels: \[emailChannel\],/g, ''); 
-    
-        // Removing the alertChannels entry from the checks object
-        configContent = configContent.replace(/alertChannels: \[emailChannel\],\s*/g, '');
-     
-        fs.writeFileSync(this.configPath, configContent, 'utf-8'); // updating the checkly.config.ts file
-        console.log('Email alert channel removed from Checkly config!');
+        this.suites.put({ ...suite, ...changes });
       } catch (error) {
-        console.error(`Error modifying Checkly config: ${error instanceof Error ? error.message : error}`);
+        console.error(error instanceof Error ? error.message : error);
+        return false;
       }
+      console.log(`Updated test suite "${name}".`);
+      return true;
     }
 
-    // to remove the test folder
-    async removeTestFolder() {
-      if (fs.existsSync(this.savedFolderPath)) {
-        fs.unlinkSync(this.savedFolderPath);
+    // to remove a suite, the copied folder is left in place
+    async removeSuite(name: string) {
+      if (!this.suites.remove(name)) {
+        console.error(`No test suite named "${name}".`);
+        return false;
+      }
+      this.checks.removeSuite(name);
+      console.log(`Test suite "${name}" removed successfully.`);
+
+      if (this.activeSuite === name) {
+        this.activeSuite = null;
         this.testFolder = null;
-        console.log('Test folder path removed successfully.');
-      } else {
-        console.log('No saved test folder to remove.');
+        this.originalFolderPath = null;
+        if (this.loadSavedFolder()) {
+          console.log(`Switched to test suite "${this.activeSuite}".`);
+          await this.updatePlaywrightConfig(this.testFolder!);
+        }
       }
+      return true;
     }
 
-    // main menu
-    async mainMenu() {
-      console.log('\n=== Current Checkly CLI Configuration ==='); // header
-      if (fs.existsSync(this.emailFilePath)) {
-        const email = JSON.parse(fs.readFileSync(this.emailFilePath, 'utf-8')).email; // reading the email
-        console.log(`Email Address: ${email}`);
-      } else {
-        console.log('Email Address: Not set');
-      }
-    
-      if (this.testFolder) {
-        console.log(`Test Folder: ${this.testFolder}`); // reading the test folder
-        this.listTestFiles(); // function to read files in test folder
-      } else {
-        console.log('Test Folder: Not set');
+    // menu to switch, add, edit and remove suites
+    async manageSuites() {
+      const suites = this.suites.list();
+      console.log('\n=== Test Suites ===');
+      if (suites.length === 0) {
+        console.log('No test suites set.');
       }
-      console.log('=============================\n');
-      
-      // menu choices
-      const choices = [
-        { title: 'Deploy to Checkly', value: 'deploy' },
-        { title: 'Remove Test Folder', value: 'removeFolder' },
-        { title: 'Remove Email Address', value: 'removeEmail' },
-        { title: 'Add Email Address', value: 'addEmail' },
-        { title: 'Add New Folder', value: 'addFolder' },
-        { title: 'Exit', value: 'exit' },
-      ];
-    
-      const response = await prompts({
+      suites.forEach((suite) =>
+        console.log(`${suite.name === this.activeSuite ? '*' : '-'} ${suite.name}: ${suite.folder} (${suite.testMatch})`)
+      );
+
+      const response = await this.prompt({
         type: 'select',
         name: 'action',
         message: 'What would you like to do?',
-        choices,
+        choices: [
+          ...(suites.length > 1 ? [{ title: 'Switch Active Suite', value: 'switch' }] : []),
+          { title: 'Add Suite', value: 'add' },
+          ...(suites.length > 0
+            ? [{ title: 'Edit Suite', value: 'edit' }, { title: 'Remove Suite', value: 'remove' }]
+            : []),
+          { title: 'Back', value: 'back' },
+        ],
       });
-      
-      //switch for different actions
-      switch (response.action) {
-        case 'deploy':
-          await this.deployToCheckly();
-          break;
-        case 'addEmail':
-          await this.setupEmailChannel();
-          break;
-        case 'addFolder':
-          await this.setTestFolder();
-          break;
-        case 'removeFolder':
-          await this.removeTestFolder();
-          break;
-        case 'removeEmail':
-          await this.removeEmailChannel();
-          break;
-        case 'exit':
-          console.log('Goodbye!');
-          return; // Exit gracefully
+
+      if (response.action === 'add') {
+        const named = await this.prompt({
+          type: 'text',
+          name: 'name',
+          message: 'Suite name (e.g. smoke, checkout, api):',
+          validate: (input: string) => /^[A-Za-z0-9_-]+$/.test(input) || 'Use only letters, digits, _ and -.',
+        });
+        if (named.name) await this.setTestFolder(undefined, named.name);
+      } else if (['switch', 'edit', 'remove'].includes(response.action)) {
+        const selected = await this.prompt({
+          type: 'select',
+          name: 'name',
+          message: 'Which suite?',
+          choices: suites.map((suite) => ({ title: suite.name, value: suite.name })),
+        });
+        if (selected.name && response.action === 'switch') await this.switchSuite(selected.name);
+        if (selected.name && response.action === 'remove') await this.removeSuite(selected.name);
+        if (selected.name && response.action === 'edit') await this.promptEditSuite(selected.name);
+      } else {
+        return; // Back to the main menu
       }
-    
-      await this.mainMenu(); // Always return to main menu
+
+      await this.manageSuites();
     }
-    
 
-    // to test on playwright then deploy to checkly
-    async deployToCheckly() {
-  console.log('Adding alerts to checks...');
-  
-  // Read email configuration
-  const emailData = JSON.parse(fs.readFileSync(this.emailFilePath, 'utf-8'));
-  
-  console.log('Running Playwright tests...');
-  let testsFailed = false;
+    // Ask for a suite's match pattern and alert channels
+    private async promptEditSuite(name: string) {
+      const suite = this.suites.get(name)!;
+      const channels = this.alertChannels.list();
 
-  try {
-    // Runnig Playwright tests
-    execSync('npx playwright test', { stdio: 'inherit' });
-  } catch {
-    console.error('Some tests failed.');
-    testsFailed = true; // Mark that there were test failures
-  }
-
-  // Prompt user for deployment even if tests failed
-  const confirmDeployment = await prompts({
-    type: 'confirm',
-    name: 'confirm',
-    message: testsFailed // tenary operator for test failures
-      ? 'Some tests failed. Do you still want to proceed with deployment to Checkly?'
-      : 'Do you want to proceed with deployment to Checkly?',
-    initial: true,
-  });
+      const response = await this.prompt([
+        {
+          type: 'text',
+          name: 'testMatch',
+          message: 'Spec files to include (glob relative to the suite folder):',
+          initial: suite.testMatch,
+        },
+        {
+          type: channels.length > 0 ? 'multiselect' : null,
+          name: 'alertChannels',
+          message: 'Alert channels for this suite (none selected = all channels):',
+          choices: channels.map((channel) => ({
+            title: describeAlertChannel(channel),
+            value: channel.id,
+            selected: suite.alertChannels.includes(channel.id),
+          })),
+        },
+      ]);
+      if (!response.testMatch) return;
 
-  if (!confirmDeployment.confirm) {
-    console.log('Deployment canceled.');
-    return; // Exit the function if deployment is canceled
+      await this.editSuite(name, { testMatch: response.testMatch, alertChannels: response.alertChannels ?? suite.alertChannels });
+    }
+    
+// Synchronize files from the original folder to the test folder
+// Files are compared by content against the last sync, edits made in the test folder are kept
+// options.dryRun only prints the report, options.onConflict resolves every conflict the same way
+// options.interactive asks before applying and asks for each conflict without an onConflict
+async syncOriginalFolder(options: SyncOptions = {}) { 
+  if (!this.originalFolderPath || !this.testFolder) {
+    console.error('Original or test folder not set. Cannot sync files.');
+    return false;
   }
 
-  console.log('Deploying to Checkly...');
-  try {
-    // Deploy to Checkly
-    execSync('npx checkly deploy', { stdio: 'inherit' });
-    console.log('Deployment successful!');
-  } catch (error) {
-    console.error('Deployment failed:', error);
+  if (path.resolve(this.originalFolderPath) === path.resolve(this.testFolder)) {
+    console.log('Test folder is the original folder. Nothing to sync.');
+    return true;
   }
-}
 
-// to list the files in the test folder
-async listTestFiles() {
-      if (this.testFolder) {
-        try {
-          console.log(`Scanning directory: ${this.testFolder}`); 
-    
-          const allFiles = fs.readdirSync(this.testFolder);
-          console.log('Files in the directory:', allFiles);
+  console.log(`Syncing files from ${this.originalFolderPath} to ${this.testFolder}...`);
+  try {
+    const engine = this.syncEngine()!;
+    const plan = engine.plan();
+    describeSyncPlan(plan).forEach((line) => console.log(line)); // dry-run report
+    if (options.dryRun) return true;
+    if (!hasSyncChanges(plan)) {
+      await engine.apply(plan, () => 'skip'); // records the hashes of the files already in sync
+      console.log('Test folder is up to date.');
+      return true;
+    }
+
+    if (options.interactive) {
+      const { apply } = await this.prompt({
+        type: 'confirm',
+        name: 'apply',
+        message: 'Apply these changes to the test folder?',
+        initial: true,
+      });
+      if (!apply) {
+        console.log('Sync canceled.');
+        return false;
+      }
+    }
+
+    const result = await engine.apply(plan, async (entry) => {
+      if (options.onConflict || !options.interactive) return options.onConflict ?? 'skip';
+
+      const response = await this.prompt({
+        type: 'select',
+        name: 'resolution',
+        message: `${entry.path} changed in both folders`,
+        choices: [
+          { title: 'Use the original folder copy', value: 'original' },
+          { title: 'Keep the test folder copy', value: 'test' },
+          { title: 'Skip for now', value: 'skip' },
+        ],
+      });
+      return response.resolution ?? 'skip';
+    });
+
+    console.log(`Syncing completed: ${result.copied} copied, ${result.removed} removed, ${result.kept} kept.`);
+    if (result.skipped.length > 0) {
+      console.error(`Unresolved conflicts, left untouched: ${result.skipped.join(', ')}`);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error(`Error syncing files: ${error instanceof Error ? error.message : error}`);
+    return false;
+  }
+}
+
+// Content-hash sync between the active suite's folders, null without a suite
+private syncEngine() {
+  if (!this.originalFolderPath || !this.testFolder) return null;
+  return new SyncEngine(this.originalFolderPath, this.testFolder, this.state);
+}
+
+// Keep mirroring the original folder into the test folder until the user stops
+// options.runTests re-runs changed .spec.ts files, stopOnEnter also stops on Enter (menu)
+async watchOriginalFolder(options: WatchOptions & { stopOnEnter?: boolean } = {}) {
+  if (!this.originalFolderPath || !this.testFolder) {
+    console.error('Original or test folder not set. Cannot watch for changes.');
+    return false;
+  }
+  if (path.resolve(this.originalFolderPath) === path.resolve(this.testFolder)) {
+    console.error('Test folder is the original folder. Nothing to watch.');
+    return false;
+  }
+
+  await this.syncOriginalFolder(); // catch up on changes made while not watching
+  const watcher = new FolderWatcher(this.syncEngine()!, this.runner, { ...options, cwd: this.projectRoot, env: this.playwrightEnvironment() });
+  try {
+    watcher.start();
+  } catch (error) {
+    console.error(`Error watching ${this.originalFolderPath}: ${error instanceof Error ? error.message : error}`);
+    return false;
+  }
+
+  console.log(options.stopOnEnter ? 'Press Enter to stop watching.' : 'Press Ctrl+C to stop watching.');
+  await waitForStop(options.stopOnEnter ?? false);
+  await watcher.stop();
+  console.log('Stopped watching.');
+  return true;
+}
     
-          const files = allFiles.filter((file) => {
-            const filePath = path.join(this.testFolder!, file);
-            return (
-              fs.statSync(filePath).isFile() &&
-              file.toLowerCase().endsWith('.spec.ts') // filtering for only .spec.ts files
-            );
+    // Method to update the checkly.config.ts file with the test suites
+    // Every suite becomes a CheckGroup in suites.check.ts, which `checkMatch` points at
+    async updateChecklyConfig() {
+      const suites = this.suites.list();
+      if (suites.length === 0) {
+        console.error('No test suites set. Cannot update Checkly config.');
+        return false;
+      }
+
+      try {
+        const editor = ConfigEditor.load(this.configPath); // Pointing to checkly.config.ts
+        editor.setValue(['checks', 'checkMatch'], this.renderCheckMatch(editor, null));
+        editor.removeProperty(['checks', 'browserChecks', 'testMatch']); // spec files are picked up by the suite groups instead
+
+        // The profile's locations, frequency and variables are written into the suite groups
+        const profile = this.currentProfile();
+        const missing = profile ? missingSecrets(profile) : [];
+        if (missing.length > 0) {
+          console.error(`Profile "${profile!.name}" needs these secrets in the environment: ${missing.join(', ')}`);
+          return false;
+        }
+        // alert-channels.ts reads the channels' webhook URLs and keys from the environment
+        const unset = missingChannelSecrets(this.alertChannels.list());
+        if (unset.length > 0) {
+          console.error(`The alert channels need these secrets in the environment: ${unset.join(', ')}`);
+          return false;
+        }
+
+        if (!this.generateChecks()) return false; // also writes the suite groups
+        this.saveConfig(this.configPath, editor.text, 'update the suites'); // adding the updated content of checkly.config.ts
+        console.log(`Updated Checkly config with suites: ${suites.map((suite) => suite.name).join(', ')}${profile ? ` for profile "${profile.name}"` : ''}`);
+        return true;
+      } catch (error) {
+        console.error(`Error updating Checkly config: ${error instanceof Error ? error.message : error}`);
+        return false;
+      }
+    }
+
+    // The `checkMatch` array: the check files of every suite folder and the generated groups,
+    // or with a `selection` only the check files of those spec files
+    private renderCheckMatch(editor: ConfigEditor, selection: Record<string, string[]> | null) {
+      const root = path.dirname(this.configPath);
+      const relative = (target: string) => path.relative(root, target).split(path.sep).join('/') || '.';
+      const checkMatch = [
+        ...this.suites.list().flatMap((suite) => selection
+          ? (selection[suite.name] ?? []).map((file) => checkFilePath(suite, file)).filter((file) => fs.existsSync(file)).map(relative)
+          : [`${relative(suite.folder)}/**/*.check.ts`]), // to find check files in the suite folders
+        relative(this.suitesCheckPath), // the generated check groups
+      ];
+      return `[${checkMatch.map((match) => editor.quote(match)).join(', ')}]`;
+    }
+
+    // Narrow checkMatch and suites.check.ts to the selected spec files while `run` runs, then put both files back,
+    // so a filtered checkly test never leaves a narrowed project behind for the next deploy
+    private async withSelectedChecks<T>(selection: Record<string, string[]>, run: () => Promise<T>) {
+      const files = [this.configPath, this.suitesCheckPath];
+      const originals = files.map((file) => fs.readFileSync(file, 'utf-8'));
+      try {
+        const editor = ConfigEditor.load(this.configPath);
+        editor.setValue(['checks', 'checkMatch'], this.renderCheckMatch(editor, selection));
+        fs.writeFileSync(this.configPath, editor.text, 'utf-8');
+        this.writeSuitesCheckFile(selection);
+        return await run();
+      } finally {
+        files.forEach((file, index) => fs.writeFileSync(file, originals[index], 'utf-8'));
+      }
+    }
+
+    // Write a config file, backing up the previous content first and printing what changed
+    // Returns false when the content is unchanged
+    private saveConfig(filePath: string, content: string, reason: string) {
+      const previous = fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : null;
+      if (previous === content) return false;
+
+      if (previous !== null) {
+        const backup = this.configBackups.add(filePath, previous, reason);
+        console.log(`Backed up ${backup.file} as backup #${backup.id}, changes:`);
+        formatDiff(diffLines(previous, content)).forEach((line) => console.log(`  ${line}`));
+      }
+      fs.writeFileSync(filePath, content, 'utf-8');
+      return true;
+    }
+
+    // Render the suites into suites.check.ts, leaving out the specs not in `selection` when given
+    private writeSuitesCheckFile(selection: Record<string, string[]> | null = null) {
+      // Suites without their own channels use the profile's channels, every group gets its locations, frequency and variables
+      const profile = this.currentProfile();
+      const profileChannels = profile?.alertChannels ?? [];
+      const suites = this.suites.list().map((suite) => (suite.alertChannels.length > 0 ? suite : { ...suite, alertChannels: profileChannels }));
+      const excluded: Record<string, string[]> = {}; // specs with their own check file or not selected
+      for (const check of this.checks.list()) {
+        excluded[check.suite] = [...(excluded[check.suite] ?? []), check.file];
+      }
+      for (const suite of suites) {
+        // e.g. the MultiStepCheck of a multistep spec created with New Check
+        const ownCheck = findSpecFiles(suite.folder, suite.testMatch).filter((file) => fs.existsSync(checkFilePath(suite, file)) && !excluded[suite.name]?.includes(file));
+        if (ownCheck.length > 0) excluded[suite.name] = [...(excluded[suite.name] ?? []), ...ownCheck];
+      }
+      for (const suite of selection ? suites : []) {
+        const unselected = findSpecFiles(suite.folder, suite.testMatch).filter((file) => !selection![suite.name]?.includes(file));
+        excluded[suite.name] = [...(excluded[suite.name] ?? []), ...unselected];
+      }
+      fs.writeFileSync(
+        this.suitesCheckPath,
+        renderSuitesModule(this.suitesCheckPath, suites, this.alertChannels.list(), this.alertChannelsModulePath, excluded, loadAlertPolicy(this.state).escalation, profile ? profileGroupProps(profile) : {}),
+        'utf-8'
+      );
+    }
+
+    // to list the active suite's spec files with their check settings and check file status
+    listChecks() {
+      const suite = this.activeSuite ? this.suites.get(this.activeSuite) : undefined;
+      if (!suite) return [];
+
+      return findSpecFiles(suite.folder, suite.testMatch).map((file) => ({
+        file,
+        settings: this.checks.get(suite.name, file) ?? null,
+        status: checkFileStatus(checkFilePath(suite, file)),
+      }));
+    }
+
+    // Save the check settings of a spec in the active suite and generate its check file
+    // Prompts for the settings when `changes` is not given
+    async configureCheck(file: string, changes?: Partial<Omit<CheckSettings, 'suite' | 'file'>>) {
+      const suite = this.activeSuite ? this.suites.get(this.activeSuite) : undefined;
+      if (!suite) {
+        console.error('No test suite set. Add a test folder first.');
+        return false;
+      }
+      if (!findSpecFiles(suite.folder, suite.testMatch).includes(file)) {
+        console.error(`No spec file ${file} in suite "${suite.name}".`);
+        return false;
+      }
+
+      const current = this.checks.get(suite.name, file) ?? defaultCheckSettings(suite.name, file);
+      if (!changes) {
+        const prompted = await this.promptCheckSettings(current);
+        if (!prompted) return false;
+        changes = prompted;
+      }
+
+      const unknown = (changes.alertChannels ?? []).filter((id) => !this.alertChannels.get(id));
+      if (unknown.length > 0) {
+        console.error(`Unknown alert channel(s): ${unknown.join(', ')}`);
+        return false;
+      }
+
+      try {
+        this.checks.put({ ...current, ...changes, suite: suite.name, file });
+      } catch (error) {
+        console.error(error instanceof Error ? error.message : error);
+        return false;
+      }
+      console.log(`Saved the check settings for ${file}.`);
+      return this.generateChecks();
+    }
+
+    // Remove a spec's check settings, its check file is deleted unless it was edited by hand
+    removeCheck(file: string) {
+      const suite = this.activeSuite ? this.suites.get(this.activeSuite) : undefined;
+      if (!suite || !this.checks.remove(suite.name, file)) {
+        console.error(`No check settings for ${file}.`);
+        return false;
+      }
+
+      const checkFile = checkFilePath(suite, file);
+      if (checkFileStatus(checkFile) === 'generated') {
+        fs.removeSync(checkFile);
+        console.log(`Removed ${path.relative(this.projectRoot, checkFile)}.`);
+      } else if (fs.existsSync(checkFile)) {
+        console.log(`Kept ${path.relative(this.projectRoot, checkFile)} because it was edited by hand.`);
+      }
+      if (fs.existsSync(this.suitesCheckPath)) this.writeSuitesCheckFile(); // the spec goes back to its suite group
+      return true;
+    }
+
+    // Write the check files of every suite, hand-edited files are only overwritten with `force`
+    generateChecks(force = false) {
+      const channels = this.alertChannels.list();
+      let written = 0;
+      let skipped = 0;
+
+      try {
+        for (const settings of this.checks.list()) {
+          const suite = this.suites.get(settings.suite);
+          if (!suite || !fs.existsSync(path.join(suite.folder, ...settings.file.split('/')))) {
+            console.log(`Skipped ${settings.suite}/${settings.file}: the spec file no longer exists.`);
+            skipped++;
+            continue;
+          }
+
+          const checkFile = checkFilePath(suite, settings.file);
+          const content = renderCheckFile(settings, suite, channels, {
+            suitesModule: this.suitesCheckPath,
+            alertChannelsModule: this.alertChannelsModulePath,
           });
-    
-          if (files.length > 0) {
-            console.log('List of tests in the folder:');
-            files.forEach((file) => console.log(`- ${file}`));
-          } else {
-            console.log('No tests found in the folder.');
+          if (checkFileStatus(checkFile) === 'edited' && !force) {
+            console.log(`Skipped ${path.relative(this.projectRoot, checkFile)}: edited by hand. Use force to overwrite it.`);
+            skipped++;
+            continue;
           }
-        } catch (error) {
-          if (error instanceof Error) {
-            console.error(`Error listing files in directory ${this.testFolder}: ${error.message}`);
-          } else {
-            console.error(`Unexpected error occurred: ${error}`);
+          if (!fs.existsSync(checkFile) || fs.readFileSync(checkFile, 'utf-8') !== content) {
+            fs.writeFileSync(checkFile, content, 'utf-8');
+            console.log(`Generated ${path.relative(this.projectRoot, checkFile)}`);
+            written++;
           }
         }
+        this.writeSuitesCheckFile(); // the checks import their suite's group
+      } catch (error) {
+        console.error(`Error generating checks: ${error instanceof Error ? error.message : error}`);
+        return false;
+      }
+
+      console.log(`Checks: ${written} generated, ${skipped} skipped.`);
+      return true;
+    }
+
+    // Ask for a check's name, frequency, locations, tags, retries, alert escalation and alert channels
+    private async promptCheckSettings(current: CheckSettings): Promise<Partial<CheckSettings> | null> {
+      const channels = this.alertChannels.list();
+      const response = await this.prompt([
+        { type: 'text', name: 'name', message: 'Check name', initial: current.name },
+        {
+          type: 'select',
+          name: 'frequency',
+          message: 'Frequency',
+          choices: [
+            { title: 'Project default', value: null },
+            ...Object.keys(checkFrequencies).map((minutes) => ({ title: `Every ${minutes} minute(s)`, value: Number(minutes) })),
+          ],
+          initial: current.frequency === null ? 0 : Object.keys(checkFrequencies).indexOf(String(current.frequency)) + 1,
+        },
+        { type: 'list', name: 'locations', message: 'Locations, e.g. eu-west-1, us-east-1 (empty for the project default)', initial: current.locations.join(', '), separator: ',' },
+        { type: 'list', name: 'tags', message: 'Tags (comma-separated)', initial: current.tags.join(', '), separator: ',' },
+        {
+          type: 'text',
+          name: 'retryStrategy',
+          message: 'Retries: default, none or <fixed|linear|exponential>:<max retries>:<backoff seconds>',
+          initial: describeRetryStrategy(current.retryStrategy),
+        },
+        {
+          type: 'text',
+          name: 'alertEscalation',
+          message: 'Alert escalation: default or <run|time>:<failed runs|minutes>[:<reminders>:<reminder minutes>[:<failing locations %>]]',
+          initial: formatEscalation(current.alertEscalation),
+          validate: (input: string) => {
+            const escalation = parseEscalation(input.trim());
+            return !escalation || validateEscalation(escalation).length === 0 || validateEscalation(escalation).join(' ');
+          },
+        },
+        {
+          type: channels.length > 0 ? 'multiselect' : null,
+          name: 'alertChannels',
+          message: 'Alert channels (none selected uses the suite\'s channels)',
+          choices: channels.map((channel) => ({ title: channel.id, value: channel.id, selected: current.alertChannels.includes(channel.id) })),
+        },
+      ]);
+      if (response.retryStrategy === undefined) return null; // prompt canceled
+
+      return {
+        name: response.name,
+        frequency: response.frequency,
+        locations: response.locations.filter(Boolean),
+        tags: response.tags.filter(Boolean),
+        retryStrategy: parseRetryStrategy(response.retryStrategy),
+        alertEscalation: response.alertEscalation === undefined ? current.alertEscalation : parseEscalation(response.alertEscalation.trim()),
+        alertChannels: response.alertChannels ?? [],
+      };
+    }
+
+    // menu to configure, generate and remove checks of the active suite
+    async manageChecks() {
+      const specs = this.listChecks();
+      console.log('\n=== Checks ===');
+      if (specs.length === 0) {
+        console.log('No spec files in the active suite.');
+        return;
+      }
+      specs.forEach((spec) => console.log(`- ${spec.file}: ${spec.settings ? `${spec.settings.name} (${spec.status})` : 'no check'}`));
+
+      const response = await this.prompt({
+        type: 'select',
+        name: 'action',
+        message: 'What would you like to do?',
+        choices: [
+          { title: 'Configure a Check', value: 'configure' },
+          { title: 'Generate Check Files', value: 'generate' },
+          ...(specs.some((spec) => spec.settings) ? [{ title: 'Remove a Check', value: 'remove' }] : []),
+          { title: 'Back', value: 'back' },
+        ],
+      });
+
+      if (response.action === 'generate') {
+        this.generateChecks();
+      } else if (response.action === 'configure' || response.action === 'remove') {
+        const selected = await this.prompt({
+          type: 'select',
+          name: 'file',
+          message: 'Which spec?',
+          choices: specs
+            .filter((spec) => response.action === 'configure' || spec.settings)
+            .map((spec) => ({ title: spec.file, value: spec.file })),
+        });
+        if (selected.file && response.action === 'configure') await this.configureCheck(selected.file);
+        if (selected.file && response.action === 'remove') this.removeCheck(selected.file);
+      } else {
+        return; // Back to the main menu
+      }
+
+      await this.manageChecks();
+    }
+
+    // to list the project's own templates for new checks
+    listTemplates() {
+      return listProjectTemplates(this.templatesFolder);
+    }
+
+    // Write a new spec or check file into the active suite's test folder, from a built-in or a project template
+    // Prompts for the type, name, URL and assertions when `request` is not given; returns the created files, null when nothing was created
+    async createCheck(request?: ScaffoldRequest): Promise<string[] | null> {
+      const suite = this.activeSuite ? this.suites.get(this.activeSuite) : undefined;
+      if (!suite) {
+        console.error('No test suite set. Add a test folder first.');
+        return null;
+      }
+      if (!request) {
+        const prompted = await this.promptScaffold();
+        if (!prompted) return null;
+        request = prompted;
+      }
+
+      const problems = validateScaffold(request);
+      const template = request.template ? this.listTemplates().find((candidate) => candidate.name === request!.template) : undefined;
+      if (request.template && !template) {
+        problems.push(`No template named "${request.template}" in ${this.templatesFolder}.`);
+      } else if (template && scaffoldTypes[request.type] && template.kind !== scaffoldTypes[request.type].kind) {
+        problems.push(`Template "${template.name}" is a ${template.kind} template, ${request.type} checks are created from ${scaffoldTypes[request.type].kind} templates.`);
+      }
+      if (problems.length > 0) {
+        problems.forEach((problem) => console.error(problem));
+        return null;
+      }
+
+      try {
+        const files = renderScaffold(request, suite, this.suitesCheckPath, template);
+        const existing = files.filter((file) => fs.existsSync(path.join(suite.folder, file.file)));
+        if (existing.length > 0) {
+          console.error(`${existing.map((file) => file.file).join(' and ')} already exist${existing.length === 1 ? 's' : ''} in ${suite.folder}, pick another name.`);
+          return null;
+        }
+        for (const file of files) {
+          fs.writeFileSync(path.join(suite.folder, file.file), file.content, 'utf-8');
+          console.log(`Created ${path.relative(this.projectRoot, path.join(suite.folder, file.file))}`);
+        }
+
+        const spec = files.find((file) => file.file.endsWith('.spec.ts'));
+        if (spec && !findSpecFiles(suite.folder, suite.testMatch).includes(spec.file)) {
+          console.warn(`${spec.file} does not match the suite's testMatch (${suite.testMatch}), Playwright and the suite group won't pick it up.`);
+        }
+        return files.map((file) => file.file);
+      } catch (error) {
+        console.error(`Error creating the check: ${error instanceof Error ? error.message : error}`);
+        return null;
+      }
+    }
+
+    // Ask for a new check's type, template, name, target URL and assertions
+    private async promptScaffold(): Promise<ScaffoldRequest | null> {
+      const { type } = await this.prompt({
+        type: 'select',
+        name: 'type',
+        message: 'Which kind of check?',
+        choices: Object.entries(scaffoldTypes).map(([value, definition]) => ({ title: definition.title, value })),
+      });
+      if (!type) return null;
+
+      const definition = scaffoldTypes[type as ScaffoldType];
+      const templates = this.listTemplates().filter((template) => template.kind === definition.kind);
+      const response = await this.prompt([
+        {
+          type: templates.length > 0 ? 'select' : null,
+          name: 'template',
+          message: 'Template',
+          choices: [{ title: 'Built-in', value: null }, ...templates.map((template) => ({ title: template.name, value: template.name }))],
+        },
+        { type: 'text', name: 'name', message: 'Check name', validate: (input: string) => /[A-Za-z0-9]/.test(input) || 'Use at least one letter or digit.' },
+        {
+          type: type === 'heartbeat' ? null : 'text',
+          name: 'url',
+          message: 'Target URL',
+          validate: (input: string) => /^https?:\/\/\S+$/.test(input) || 'Enter a URL starting with http:// or https://.',
+        },
+        {
+          type: definition.assertions.length > 0 ? 'list' : null,
+          name: 'assertions',
+          message: `Assertions as kind=value with kind ${definition.assertions.join(', ')} (comma-separated, empty for status=200)`,
+          separator: ',',
+        },
+      ]);
+      if (!response.name || (definition.assertions.length > 0 && response.assertions === undefined)) return null; // prompt canceled
+
+      const assertions: ScaffoldAssertion[] = [];
+      for (const entry of (response.assertions ?? []).filter(Boolean)) {
+        const assertion = parseAssertion(entry);
+        if (!assertion) {
+          console.error(`Expected kind=value, got "${entry}".`);
+          return null;
+        }
+        assertions.push(assertion);
+      }
+      return { type: type as ScaffoldType, name: response.name, url: response.url ?? null, assertions, template: response.template ?? null };
+    }
+  
+    // The profile used by this run: the one picked with --profile, otherwise the saved one
+    currentProfile(): Profile | null {
+      return this.profileOverride ? this.profiles.get(this.profileOverride) ?? null : this.profiles.getActive();
+    }
+
+    // Variables the selected profile adds to Playwright runs, missing secrets are reported
+    private playwrightEnvironment() {
+      const profile = this.currentProfile();
+      if (!profile) return {};
+      const missing = missingSecrets(profile);
+      if (missing.length > 0) {
+        console.warn(`Profile "${profile.name}" secrets not set in the environment: ${missing.join(', ')}`);
+      }
+      return profileEnvironment(profile);
+    }
+
+    // to list the saved profiles
+    listProfiles() {
+      return this.profiles.list();
+    }
+
+    // Select a profile, saved for later runs unless `persist` is false; null selects none
+    async useProfile(name: string | null, persist = true) {
+      if (name !== null && !this.profiles.get(name)) {
+        console.error(`No profile named "${name}".`);
+        return false;
+      }
+
+      if (!persist) {
+        this.profileOverride = name;
+      } else {
+        this.profiles.setActive(name);
+        this.profileOverride = null;
+        console.log(name ? `Profile "${name}" is now active.` : 'No profile is active.');
+      }
+      // A saved profile's base URL goes into playwright.config.ts, runs with --profile pass it on their own
+      if (persist) await this.refreshPlaywrightConfig();
+      return true;
+    }
+
+    // Add or change a profile, prompts for the settings when `changes` is not given
+    async saveProfile(name: string, changes?: Partial<Omit<Profile, 'name'>>) {
+      const current = this.profiles.get(name) ?? emptyProfile(name);
+      if (!changes) {
+        const prompted = await this.promptProfile(current);
+        if (!prompted) return false;
+        changes = prompted;
+      }
+
+      const unknown = (changes.alertChannels ?? []).filter((id) => !this.alertChannels.get(id));
+      if (unknown.length > 0) {
+        console.error(`Unknown alert channel(s): ${unknown.join(', ')}`);
+        return false;
+      }
+
+      const wasActive = this.profiles.getActive()?.name === name;
+      try {
+        this.profiles.put({ ...current, ...changes, name });
+      } catch (error) {
+        console.error(error instanceof Error ? error.message : error);
+        return false;
+      }
+      console.log(`Profile saved: ${describeProfile(this.profiles.get(name)!)}`);
+      // The active profile's base URL may have been added or removed
+      if (wasActive) await this.refreshPlaywrightConfig();
+      return true;
+    }
+
+    // to remove a profile, no profile is active afterwards if it was the active one
+    async removeProfile(name: string) {
+      const wasActive = this.profiles.getActive()?.name === name;
+      if (!this.profiles.remove(name)) {
+        console.error(`No profile named "${name}".`);
+        return false;
+      }
+      console.log(`Profile "${name}" removed.`);
+      // Its base URL is no longer set in playwright.config.ts
+      if (wasActive) await this.refreshPlaywrightConfig();
+      return true;
+    }
+
+    // Ask for a profile's base URL, variables, secrets, locations, frequency and alert channels
+    private async promptProfile(current: Profile): Promise<Partial<Profile> | null> {
+      const channels = this.alertChannels.list();
+      const response = await this.prompt([
+        { type: 'text', name: 'baseUrl', message: `Base URL, passed to the tests as ${baseUrlVariable} (empty for none)`, initial: current.baseUrl ?? '' },
+        {
+          type: 'list',
+          name: 'environmentVariables',
+          message: 'Environment variables as KEY=value (comma-separated)',
+          initial: Object.entries(current.environmentVariables).map(([key, value]) => `${key}=${value}`).join(', '),
+          separator: ',',
+        },
+        { type: 'list', name: 'secrets', message: 'Secrets, names of environment variables to read them from (comma-separated)', initial: current.secrets.join(', '), separator: ',' },
+        { type: 'list', name: 'locations', message: 'Locations, e.g. eu-west-1 (empty keeps checkly.config.ts)', initial: current.locations.join(', '), separator: ',' },
+        {
+          type: 'select',
+          name: 'frequency',
+          message: 'Frequency',
+          choices: [
+            { title: 'Keep checkly.config.ts', value: null },
+            ...Object.keys(checkFrequencies).map((minutes) => ({ title: `Every ${minutes} minute(s)`, value: Number(minutes) })),
+          ],
+          initial: current.frequency === null ? 0 : Object.keys(checkFrequencies).indexOf(String(current.frequency)) + 1,
+        },
+        {
+          type: channels.length > 0 ? 'multiselect' : null,
+          name: 'alertChannels',
+          message: 'Alert channels (none selected uses every channel)',
+          choices: channels.map((channel) => ({ title: channel.id, value: channel.id, selected: current.alertChannels.includes(channel.id) })),
+        },
+      ]);
+      if (response.locations === undefined) return null; // prompt canceled
+
+      const environmentVariables: Record<string, string> = {};
+      for (const pair of response.environmentVariables.filter(Boolean)) {
+        const separator = pair.indexOf('=');
+        if (separator <= 0) {
+          console.error(`Expected KEY=value, got "${pair}".`);
+          return null;
+        }
+        environmentVariables[pair.slice(0, separator).trim()] = pair.slice(separator + 1).trim();
+      }
+      return {
+        baseUrl: response.baseUrl.trim() || null,
+        environmentVariables,
+        secrets: response.secrets.filter(Boolean),
+        locations: response.locations.filter(Boolean),
+        frequency: response.frequency,
+        alertChannels: response.alertChannels ?? [],
+      };
+    }
+
+    // menu to add, edit, select and remove profiles
+    async manageProfiles() {
+      const profiles = this.profiles.list();
+      const active = this.profiles.getActive()?.name;
+      console.log('\n=== Profiles ===');
+      if (profiles.length === 0) {
+        console.log('No profiles set.');
+      }
+      profiles.forEach((profile) => console.log(`${profile.name === active ? '*' : '-'} ${describeProfile(profile)}`));
+
+      const response = await this.prompt({
+        type: 'select',
+        name: 'action',
+        message: 'What would you like to do?',
+        choices: [
+          { title: 'Add a Profile', value: 'add' },
+          ...(profiles.length > 0
+            ? [
+                { title: 'Use a Profile', value: 'use' },
+                { title: 'Edit a Profile', value: 'edit' },
+                { title: 'Remove a Profile', value: 'remove' },
+              ]
+            : []),
+          ...(active ? [{ title: 'Stop Using a Profile', value: 'none' }] : []),
+          { title: 'Back', value: 'back' },
+        ],
+      });
+
+      if (response.action === 'add') {
+        const named = await this.prompt({
+          type: 'text',
+          name: 'name',
+          message: 'Profile name (e.g. staging, prod)',
+          validate: (input) => (/^[A-Za-z0-9_-]+$/.test(input) && !this.profiles.get(input)) || 'Use a new name with only letters, digits, _ and -.',
+        });
+        if (named.name) await this.saveProfile(named.name);
+      } else if (response.action === 'none') {
+        await this.useProfile(null);
+      } else if (response.action === 'use' || response.action === 'edit' || response.action === 'remove') {
+        const selected = await this.prompt({
+          type: 'select',
+          name: 'name',
+          message: 'Which profile?',
+          choices: profiles.map((profile) => ({ title: profile.name, value: profile.name })),
+        });
+        if (selected.name && response.action === 'use') await this.useProfile(selected.name);
+        if (selected.name && response.action === 'edit') await this.saveProfile(selected.name);
+        if (selected.name && response.action === 'remove') await this.removeProfile(selected.name);
+      } else {
+        return; // Back to the main menu
+      }
+
+      await this.manageProfiles();
+    }
+
+    // The account used by this run: the one picked with --account, otherwise the saved one
+    currentAccount(): ChecklyAccount | null {
+      return this.accountOverride ? this.accounts.get(this.accountOverride) ?? null : this.accounts.getActive();
+    }
+
+    // Credentials of the selected account for the Checkly CLI, empty to use the environment or checkly login
+    private checklyEnvironment() {
+      const account = this.currentAccount();
+      if (!account) return {};
+      if (account.apiKeyVariable && !process.env[account.apiKeyVariable]) {
+        console.warn(`Account "${account.name}" reads its API key from ${account.apiKeyVariable}, which is not set. The key of checkly login is used instead.`);
+      }
+      return accountEnvironment(account);
+    }
+
+    // Ask the Checkly CLI which account the credentials belong to, null when they are missing or rejected
+    async checkCredentials(): Promise<ChecklySession | null> {
+      const account = this.currentAccount();
+      const credentials = environmentCredentials();
+      if (!account && credentials === 'partial') {
+        console.warn(`Only one of ${apiKeyVariable} and ${accountIdVariable} is set, the Checkly CLI needs both.`);
+      }
+      const source: CredentialSource = account ? 'account' : credentials === 'complete' ? 'environment' : 'login';
+
+      const result = await this.runner.run('npx', ['checkly', 'whoami'], {
+        env: this.checklyEnvironment(),
+        cwd: this.projectRoot,
+        timeoutMs: 60 * 1000,
+        quiet: true,
+      });
+      this.session = succeeded(result) ? parseWhoami(result.output, source) : null;
+      return this.session;
+    }
+
+    // to print the account the Checkly commands run against
+    async showAccount() {
+      const session = await this.checkCredentials();
+      if (!session) {
+        console.error('No working Checkly credentials. Run npx checkly login, set CHECKLY_API_KEY and CHECKLY_ACCOUNT_ID, or use a saved account.');
+        return false;
+      }
+      console.log(`Checkly account: ${describeSession(session, this.currentAccount())}`);
+      return true;
+    }
+
+    // to list the saved accounts
+    listAccounts() {
+      return this.accounts.list();
+    }
+
+    // Select an account, saved for later runs unless `persist` is false; null goes back to the environment or checkly login
+    async useAccount(name: string | null, persist = true) {
+      if (name !== null && !this.accounts.get(name)) {
+        console.error(`No account named "${name}".`);
+        return false;
+      }
+
+      if (!persist) {
+        this.accountOverride = name;
+        return true;
+      }
+      this.accounts.setActive(name);
+      this.accountOverride = null;
+      console.log(name ? `Account "${name}" is now active.` : 'No saved account is active, using the environment or checkly login.');
+      if (!(await this.checkCredentials())) {
+        console.warn('The Checkly CLI did not accept these credentials.');
+      }
+      return true;
+    }
+
+    // Add or change an account, prompts for the settings when `changes` is not given
+    async saveAccount(name: string, changes?: Partial<Omit<ChecklyAccount, 'name'>>) {
+      const current: ChecklyAccount = this.accounts.get(name) ?? { name, accountId: '', apiKeyVariable: null };
+      if (!changes) {
+        const response = await this.prompt([
+          { type: 'text', name: 'accountId', message: 'Account id (from the account settings in Checkly)', initial: current.accountId },
+          { type: 'text', name: 'apiKeyVariable', message: 'Environment variable with the API key (empty to use checkly login)', initial: current.apiKeyVariable ?? '' },
+        ]);
+        if (response.apiKeyVariable === undefined) return false; // prompt canceled
+        changes = { accountId: response.accountId.trim(), apiKeyVariable: response.apiKeyVariable.trim() || null };
+      }
+
+      try {
+        this.accounts.put({ ...current, ...changes, name });
+      } catch (error) {
+        console.error(error instanceof Error ? error.message : error);
+        return false;
+      }
+      console.log(`Account saved: ${describeAccount(this.accounts.get(name)!)}`);
+      return true;
+    }
+
+    // to remove a saved account, the environment or checkly login is used afterwards if it was the active one
+    removeAccount(name: string) {
+      if (!this.accounts.remove(name)) {
+        console.error(`No account named "${name}".`);
+        return false;
+      }
+      console.log(`Account "${name}" removed.`);
+      return true;
+    }
+
+    // menu to add, select and remove saved accounts
+    async manageAccounts() {
+      const accounts = this.accounts.list();
+      const active = this.accounts.getActive()?.name;
+      console.log('\n=== Checkly Accounts ===');
+      if (accounts.length === 0) {
+        console.log('No accounts saved, using the environment or checkly login.');
+      }
+      accounts.forEach((account) => console.log(`${account.name === active ? '*' : '-'} ${describeAccount(account)}`));
+
+      const response = await this.prompt({
+        type: 'select',
+        name: 'action',
+        message: 'What would you like to do?',
+        choices: [
+          { title: 'Add an Account', value: 'add' },
+          ...(accounts.length > 0
+            ? [
+                { title: 'Switch Account', value: 'use' },
+                { title: 'Edit an Account', value: 'edit' },
+                { title: 'Remove an Account', value: 'remove' },
+              ]
+            : []),
+          ...(active ? [{ title: 'Use the Environment or checkly login', value: 'none' }] : []),
+          { title: 'Show Current Account', value: 'current' },
+          { title: 'Back', value: 'back' },
+        ],
+      });
+
+      if (response.action === 'add') {
+        const named = await this.prompt({
+          type: 'text',
+          name: 'name',
+          message: 'Account name (e.g. acme-prod)',
+          validate: (input) => (/^[A-Za-z0-9_-]+$/.test(input) && !this.accounts.get(input)) || 'Use a new name with only letters, digits, _ and -.',
+        });
+        if (named.name) await this.saveAccount(named.name);
+      } else if (response.action === 'none') {
+        await this.useAccount(null);
+      } else if (response.action === 'current') {
+        await this.showAccount();
+      } else if (response.action === 'use' || response.action === 'edit' || response.action === 'remove') {
+        const selected = await this.prompt({
+          type: 'select',
+          name: 'name',
+          message: 'Which account?',
+          choices: accounts.map((account) => ({ title: account.name, value: account.name })),
+        });
+        if (selected.name && response.action === 'use') await this.useAccount(selected.name);
+        if (selected.name && response.action === 'edit') await this.saveAccount(selected.name);
+        if (selected.name && response.action === 'remove') this.removeAccount(selected.name);
       } else {
-        console.log('No test folder set.');
+        return; // Back to the main menu
+      }
+
+      await this.manageAccounts();
+    }
+
+    // Method to update the playwright.config.ts file with the path of the test folder
+    async updatePlaywrightConfig(folderPath: string) {
+      try {
+        const editor = ConfigEditor.load(this.playwrightConfigPath);
+  
+        editor.setString(['testDir'], folderPath.replace(/\\/g, '/'));
+        const baseUrl = `process.env.${baseUrlVariable}`;
+        if (this.profiles.getActive()?.baseUrl) {
+          editor.setValue(['use', 'baseURL'], baseUrl); // set by the saved profile
+        } else if (editor.getValue(['use', 'baseURL']) === baseUrl) {
+          editor.removeProperty(['use', 'baseURL']); // left by a previous profile
+        }
+  
+        this.saveConfig(this.playwrightConfigPath, editor.text, 'set the test folder'); // adding the updated content of playwright.config.ts
+        console.log(`Updated Playwright config paths to: ${folderPath}`); 
+      } catch (error) {
+        console.error(`Error updating Playwright config: ${error instanceof Error ? error.message : error}`);
       }
     }
     
+    // Method to setup email
+    // When an address is given it replaces the cached one without prompting
+    async setupEmailChannel(address?: string) {
+      if (!fs.existsSync(this.configPath)) {
+        console.error('Checkly config file not found. Ensure the project is created first.');
+        return false;
+      }
+
+      if (address) {
+        if (!isValidEmail(address)) {
+          console.error(`Invalid email address: ${address}`);
+          return false;
+        }
+        this.saveEmailChannel(address);
+        return this.modifyChecklyConfig();
+      }
     
-  }
+      const cachedEmail = this.alertChannels.get(this.emailChannelId)?.settings.address;
+      if (cachedEmail) {
+        console.log(`Using cached email address: ${cachedEmail}`);
+        return true;
+      }
+    
+      const response = await this.prompt({
+        type: 'text',
+        name: 'email',
+        message: 'Enter the email address for Checkly alerts:',
+        validate: (input) =>
+          isValidEmail(input) || 'Please enter a valid email address.',
+      });
+    
+      const email = response.email;
+      if (!email) {
+        console.log('No email provided. Continuing without email setup.');
+        return false;
+      }
+    
+      this.saveEmailChannel(email);
+    
+      // Modify config to add the email channel
+      return this.modifyChecklyConfig();
+    }
 
-  // calling the class
-  const testManager = new TestManager();
-  // calling the init method
-  testManager.init();
+    // Create the default email channel, or update its address
+    private saveEmailChannel(email: string) {
+      if (this.alertChannels.get(this.emailChannelId)) {
+        this.alertChannels.update(this.emailChannelId, { settings: { address: email } });
+      } else {
+        this.alertChannels.add({ id: this.emailChannelId, type: 'email', ...this.channelNotifications(), settings: { address: email } });
+      }
+      console.log(`Email alert channel set up for: ${email}`);
+    }
+    
+    // The alert policy's notification settings, the events new channels alert on
+    private channelNotifications(notifications: NotificationSettings = loadAlertPolicy(this.state).notifications) {
+      const { sendFailure, sendRecovery, sendDegraded, sslExpiry, sslExpiryThreshold } = notifications;
+      return { sendFailure, sendRecovery, sendDegraded, ...(sslExpiry ? { sslExpiry, sslExpiryThreshold } : {}) };
+    }
+
+    // adding the alert channels to the checkly.config.ts
+    async modifyChecklyConfig() {
+      if (!fs.existsSync(this.configPath)) {
+        console.error('Checkly config file not found. Ensure the project is created first.');
+        return false;
+      }
+    
+      if (this.alertChannels.list().length === 0) {
+        console.error('No alert channels set. Cannot modify Checkly config.');
+        return false;
+      }
+
+      return this.writeAlertChannels();
+    }
+
+    // Render the saved channels into alert-channels.ts and list them in `checks.alertChannels`
+    private writeAlertChannels() {
+      const channels = this.alertChannels.list();
+      const modulePath = this.alertChannelsModulePath;
+      const profileChannels = this.currentProfile()?.alertChannels ?? [];
+      const wanted = channels
+        .filter((channel) => profileChannels.length === 0 || profileChannels.includes(channel.id)) // a profile can narrow the channels
+        .map(alertChannelVariable);
+
+      try {
+        const editor = ConfigEditor.load(this.configPath); // uppdating the checkly.config.ts file
+
+        // Dropping the inline email channel written by earlier versions
+        if (editor.hasVariable('emailChannel')) {
+          editor.removeArrayElement(['checks', 'alertChannels'], 'emailChannel');
+          editor.removeVariable('emailChannel');
+          editor.removeImport('EmailAlertChannel', 'checkly/constructs');
+        }
+
+        // Unwiring channels that were removed
+        for (const name of editor.getImportedNames('./alert-channels')) {
+          if (!wanted.includes(name)) {
+            editor.removeArrayElement(['checks', 'alertChannels'], name);
+            editor.removeImport(name, './alert-channels');
+          }
+        }
+
+        // Adding every channel to the `checks` object
+        for (const name of wanted) {
+          editor.addImport(name, './alert-channels');
+          editor.addArrayElement(['checks', 'alertChannels'], name);
+        }
+        if (editor.getArrayElements(['checks', 'alertChannels']).length === 0) {
+          editor.removeProperty(['checks', 'alertChannels']);
+        }
+
+        if (channels.length > 0) {
+          fs.writeFileSync(modulePath, renderAlertChannelsModule(channels), 'utf-8');
+        } else {
+          fs.removeSync(modulePath);
+        }
+        this.saveConfig(this.configPath, editor.text, 'update the alert channels'); // updating the checkly.config.ts file
+        if (fs.existsSync(this.suitesCheckPath)) {
+          this.writeSuitesCheckFile(); // keeping the suite groups' channel imports in step
+        }
+        console.log(`Alert channels in Checkly config: ${wanted.length > 0 ? wanted.join(', ') : 'none'}`);
+        const unset = missingChannelSecrets(channels);
+        if (unset.length > 0) console.warn(`Set these secrets in the environment before deploying: ${unset.join(', ')}`);
+        return true;
+      } catch (error) {
+        console.error(`Error modifying Checkly config: ${error instanceof Error ? error.message : error}`);
+        return false;
+      }
+    }
+  
+    // to remove the email channel
+    async removeEmailChannel() {
+      if (!fs.existsSync(this.configPath)) {
+        console.error('Checkly config file not found. Ensure the project is created first.');
+        return false;
+      }
+    
+      const emailChannels = this.alertChannels.list().filter((channel) => channel.type === 'email');
+      emailChannels.forEach((channel) => this.alertChannels.remove(channel.id));
+      if (emailChannels.length > 0) {
+        console.log('Email address removed successfully.');
+      }
+    
+      return this.writeAlertChannels();
+    }
+
+    // to list the saved alert channels
+    listAlertChannels() {
+      return this.alertChannels.list();
+    }
+
+    // to add an alert channel, prompting for its settings when none are given
+    async addAlertChannel(channel?: AlertChannelConfig) {
+      try {
+        const newChannel = channel ?? (await this.promptAlertChannel());
+        if (!newChannel) {
+          console.log('No alert channel added.');
+          return false;
+        }
+
+        this.alertChannels.add(newChannel);
+        console.log(`Alert channel added: ${describeAlertChannel(newChannel)}`);
+      } catch (error) {
+        console.error(`Error adding alert channel: ${error instanceof Error ? error.message : error}`);
+        return false;
+      }
+      return this.writeAlertChannels();
+    }
+
+    // to change an alert channel, prompting for its settings when no changes are given
+    async editAlertChannel(id: string, changes?: Partial<Omit<AlertChannelConfig, 'id' | 'type'>>) {
+      const current = this.alertChannels.get(id);
+      if (!current) {
+        console.error(`No alert channel with id "${id}".`);
+        return false;
+      }
+
+      try {
+        const edited = changes ?? (await this.promptAlertChannel(current));
+        if (!edited) {
+          console.log('Alert channel left unchanged.');
+          return false;
+        }
+
+        const updated = this.alertChannels.update(id, edited);
+        console.log(`Alert channel updated: ${describeAlertChannel(updated)}`);
+      } catch (error) {
+        console.error(`Error updating alert channel: ${error instanceof Error ? error.message : error}`);
+        return false;
+      }
+      return this.writeAlertChannels();
+    }
+
+    // to remove an alert channel
+    async removeAlertChannel(id: string) {
+      if (!this.alertChannels.remove(id)) {
+        console.error(`No alert channel with id "${id}".`);
+        return false;
+      }
+      console.log(`Alert channel removed: ${id}`);
+
+      // Suites, checks and profiles that listed the channel stop using it
+      for (const suite of this.suites.list()) {
+        if (suite.alertChannels.includes(id)) {
+          this.suites.put({ ...suite, alertChannels: suite.alertChannels.filter((channelId) => channelId !== id) });
+        }
+      }
+      for (const check of this.checks.list().filter((check) => check.alertChannels.includes(id))) {
+        this.checks.put({ ...check, alertChannels: check.alertChannels.filter((channelId) => channelId !== id) });
+      }
+      for (const profile of this.profiles.list().filter((profile) => profile.alertChannels.includes(id))) {
+        this.profiles.put({ ...profile, alertChannels: profile.alertChannels.filter((channelId) => channelId !== id) });
+      }
+      if (this.checks.list().length > 0) this.generateChecks();
+      return this.writeAlertChannels();
+    }
+
+    // Ask for a channel's type and settings, pre-filled with the current values when editing
+    private async promptAlertChannel(current?: AlertChannelConfig): Promise<AlertChannelConfig | null> {
+      let type = current?.type;
+      let id = current?.id;
+
+      if (!current) {
+        const response = await this.prompt([
+          {
+            type: 'select',
+            name: 'type',
+            message: 'Which kind of alert channel?',
+            choices: Object.entries(alertChannelTypes).map(([value, definition]) => ({ title: definition.title, value })),
+          },
+          {
+            type: 'text',
+            name: 'id',
+            message: 'Channel id (used as the construct logical id):',
+            initial: (previous: AlertChannelType) => `${previous}-channel-${this.alertChannels.list().length + 1}`,
+            validate: (input: string) => /^[A-Za-z0-9_\-/#.]+$/.test(input) || 'Use only letters, digits and _-/#.',
+          },
+        ]);
+        type = response.type;
+        id = response.id;
+      }
+      if (!type || !id) return null;
+
+      const settings: Record<string, string> = {};
+      for (const field of alertChannelTypes[type].fields) {
+        // Secrets are named by their environment variable, e.g. SLACK_OPS_URL
+        const initial = current?.settings[field.name] ?? (field.secret ? secretVariable(id, field.name) : field.initial);
+        const response = await this.prompt(field.choices
+          ? {
+            type: 'select',
+            name: 'value',
+            message: `${field.message}:`,
+            choices: field.choices.map((choice) => ({ title: choice, value: choice })),
+            initial: Math.max(field.choices.indexOf(initial ?? ''), 0),
+          }
+          : {
+            type: 'text',
+            name: 'value',
+            message: `${field.message}${field.optional ? ' (optional)' : ''}:`,
+            initial,
+            validate: (input: string) =>
+              (!input && field.optional) || (!!input && (!field.validate || field.validate(input))) ||
+              `Please enter a valid value for ${field.name}.`,
+          });
+
+        if (response.value === undefined) return null; // Prompt was canceled
+        if (response.value) settings[field.name] = response.value;
+      }
+
+      // New channels start from the alert policy's notifications
+      const defaults = loadAlertPolicy(this.state).notifications;
+      const sslExpiryThreshold = current?.sslExpiryThreshold ?? defaults.sslExpiryThreshold;
+      const events = await this.prompt({
+        type: 'multiselect',
+        name: 'send',
+        message: 'Send alerts when a check...',
+        choices: [
+          { title: 'fails', value: 'sendFailure', selected: current?.sendFailure ?? defaults.sendFailure },
+          { title: 'recovers', value: 'sendRecovery', selected: current?.sendRecovery ?? defaults.sendRecovery },
+          { title: 'is degraded', value: 'sendDegraded', selected: current?.sendDegraded ?? defaults.sendDegraded },
+          { title: `has an SSL certificate expiring within ${sslExpiryThreshold} days`, value: 'sslExpiry', selected: current ? !!current.sslExpiry : defaults.sslExpiry },
+        ],
+      });
+      if (!events.send) return null;
+
+      return {
+        id,
+        type,
+        sendFailure: events.send.includes('sendFailure'),
+        sendRecovery: events.send.includes('sendRecovery'),
+        sendDegraded: events.send.includes('sendDegraded'),
+        ...(events.send.includes('sslExpiry') ? { sslExpiry: true, sslExpiryThreshold } : {}),
+        settings,
+      };
+    }
+
+    // menu to add, edit and remove alert channels
+    async manageAlertChannels() {
+      const channels = this.alertChannels.list();
+      console.log('\n=== Alert Channels ===');
+      if (channels.length === 0) {
+        console.log('No alert channels set.');
+      }
+      channels.forEach((channel) => console.log(`- ${describeAlertChannel(channel)}`));
+
+      const response = await this.prompt({
+        type: 'select',
+        name: 'action',
+        message: 'What would you like to do?',
+        choices: [
+          { title: 'Add Alert Channel', value: 'add' },
+          ...(channels.length > 0
+            ? [{ title: 'Edit Alert Channel', value: 'edit' }, { title: 'Remove Alert Channel', value: 'remove' }]
+            : []),
+          { title: 'Back', value: 'back' },
+        ],
+      });
+
+      if (response.action === 'add') {
+        await this.addAlertChannel();
+      } else if (response.action === 'edit' || response.action === 'remove') {
+        const selected = await this.prompt({
+          type: 'select',
+          name: 'id',
+          message: 'Which alert channel?',
+          choices: channels.map((channel) => ({ title: describeAlertChannel(channel), value: channel.id })),
+        });
+        if (selected.id && response.action === 'edit') await this.editAlertChannel(selected.id);
+        if (selected.id && response.action === 'remove') await this.removeAlertChannel(selected.id);
+      } else {
+        return; // Back to the main menu
+      }
+
+      await this.manageAlertChannels();
+    }
+
+    // to remove the test folder
+    // (removes the active suite)
+    async removeTestFolder() {
+      if (this.activeSuite) {
+        return this.removeSuite(this.activeSuite);
+      } else {
+        console.log('No saved test folder to remove.');
+        return false;
+      }
+    }
+
+    // main menu
+    async mainMenu() {
+      console.log('\n=== Current Checkly CLI Configuration ==='); // header
+      const channels = this.alertChannels.list(); // reading the alert channels
+      if (channels.length > 0) {
+        console.log('Alert Channels:');
+        channels.forEach((channel) => console.log(`- ${describeAlertChannel(channel)}`));
+      } else {
+        console.log('Alert Channels: Not set');
+      }
+    
+      const otherSuites = this.suites.list().filter((suite) => suite.name !== this.activeSuite);
+      if (this.activeSuite) {
+        console.log(`Test Suite: ${this.activeSuite}`);
+      }
+      console.log(`Profile: ${this.currentProfile()?.name ?? 'None'}`);
+      console.log(`Checkly Account: ${this.session ? `${this.session.accountName} (${this.session.accountId})` : 'Not logged in'}`);
+      if (otherSuites.length > 0) {
+        console.log(`Other Suites: ${otherSuites.map((suite) => suite.name).join(', ')}`);
+      }
+
+      if (this.testFolder) {
+        console.log(`Test Folder: ${this.testFolder}`); // reading the test folder
+        this.listTestFiles(); // function to read files in test folder
+      } else {
+        console.log('Test Folder: Not set');
+      }
+      console.log('=============================\n');
+      
+      // menu choices
+      const choices = [
+        { title: 'Deploy to Checkly', value: 'deploy' },
+        { title: 'Run Tests', value: 'run' },
+        { title: 'Run Tests in Checkly', value: 'checklyTest' },
+        { title: 'Trigger Deployed Checks', value: 'trigger' },
+        { title: 'Preview Deploy', value: 'preview' },
+        { title: 'Validate Project', value: 'validate' },
+        { title: 'Deploy History', value: 'deployments' },
+        { title: 'Remove Test Folder', value: 'removeFolder' },
+        { title: 'Remove Email Address', value: 'removeEmail' },
+        { title: 'Add Email Address', value: 'addEmail' },
+        { title: 'Manage Alert Channels', value: 'alertChannels' },
+        { title: 'Add New Folder', value: 'addFolder' },
+        { title: 'Manage Test Suites', value: 'suites' },
+        { title: 'Manage Checks', value: 'checks' },
+        { title: 'New Check', value: 'newCheck' },
+        { title: 'Manage Profiles', value: 'profiles' },
+        { title: 'Manage Checkly Accounts', value: 'accounts' },
+        { title: 'Sync Original Folder', value: 'sync' },
+        { title: 'Run History', value: 'history' },
+        { title: 'Generate Report', value: 'report' },
+        { title: 'Export Setup', value: 'export' },
+        { title: 'Import Setup', value: 'import' },
+        { title: 'Deploy Policy', value: 'policy' },
+        { title: 'Alert Policy', value: 'alertPolicy' },
+        { title: 'Project Settings', value: 'projectSettings' },
+        { title: 'Restore Previous Config', value: 'restoreConfig' },
+        { title: 'Watch Original Folder', value: 'watch' },
+        { title: 'Destroy Checkly Project', value: 'destroy' },
+        { title: 'Exit', value: 'exit' },
+      ];
+    
+      const response = await this.prompt({
+        type: 'select',
+        name: 'action',
+        message: 'What would you like to do?',
+        choices,
+      });
+      
+      //switch for different actions
+      switch (response.action) {
+        case 'deploy':
+          await this.deployToCheckly();
+          break;
+        case 'run': {
+          const filter = await this.promptTestFilter();
+          if (filter && this.showTests(filter)) await this.runTests(filter);
+          break;
+        }
+        case 'checklyTest':
+        case 'trigger': {
+          const options = await this.promptChecklyRun(response.action === 'trigger' ? 'trigger' : 'test');
+          if (options && response.action === 'trigger') await this.triggerChecks(options);
+          if (options && response.action === 'checklyTest') await this.testInCheckly(options);
+          break;
+        }
+        case 'addEmail':
+          await this.setupEmailChannel();
+          break;
+        case 'addFolder':
+          await this.setTestFolder();
+          break;
+        case 'removeFolder':
+          await this.removeTestFolder();
+          break;
+        case 'removeEmail':
+          await this.removeEmailChannel();
+          break;
+        case 'alertChannels':
+          await this.manageAlertChannels();
+          break;
+        case 'suites':
+          await this.manageSuites();
+          break;
+        case 'checks':
+          await this.manageChecks();
+          break;
+        case 'newCheck': {
+          const spec = (await this.createCheck())?.find((file) => file.endsWith('.spec.ts'));
+          if (!spec) break;
+          const { run } = await this.prompt({
+            type: 'confirm',
+            name: 'run',
+            message: `Run ${spec} once with Playwright now?`,
+            initial: true,
+          });
+          if (run) await this.runTests({ ...emptyFilter, files: [spec] });
+          break;
+        }
+        case 'profiles':
+          await this.manageProfiles();
+          break;
+        case 'accounts':
+          await this.manageAccounts();
+          break;
+        case 'preview':
+          await this.previewDeploy();
+          break;
+        case 'deployments':
+          this.showDeployments();
+          break;
+        case 'validate':
+          this.showValidation();
+          break;
+        case 'destroy':
+          await this.destroyProject();
+          break;
+        case 'sync':
+          await this.syncOriginalFolder({ interactive: true });
+          break;
+        case 'history':
+          this.showRunHistory();
+          if (this.runHistory.list().length > 1) this.compareRunHistory();
+          break;
+        case 'report':
+          this.generateReport();
+          break;
+        case 'policy':
+          await this.editDeployPolicy();
+          break;
+        case 'alertPolicy':
+          await this.editAlertPolicy();
+          break;
+        case 'projectSettings': {
+          const settings = this.getProjectSettings();
+          if (settings) {
+            console.log('\n=== Project Settings ===');
+            describeProjectSettings(settings).forEach((line) => console.log(`- ${line}`));
+            await this.editProjectSettings();
+          }
+          break;
+        }
+        case 'restoreConfig':
+          await this.restoreConfig();
+          break;
+        case 'export':
+        case 'import': {
+          const { file } = await this.prompt({
+            type: 'text',
+            name: 'file',
+            message: response.action === 'export' ? 'Export the setup to which file?' : 'Import the setup from which file?',
+            initial: 'checkly-manager-setup.json',
+          });
+          if (file && response.action === 'export') this.exportSetup(path.resolve(this.workingDirectory, file));
+          if (file && response.action === 'import') await this.importSetup(path.resolve(this.workingDirectory, file));
+          break;
+        }
+        case 'watch': {
+          const { runTests } = await this.prompt({
+            type: 'confirm',
+            name: 'runTests',
+            message: 'Re-run changed spec files with Playwright?',
+            initial: false,
+          });
+          await this.watchOriginalFolder({ runTests, stopOnEnter: true });
+          break;
+        }
+        case 'exit':
+          console.log('Goodbye!');
+          return; // Exit gracefully
+      }
+    
+      await this.mainMenu(); // Always return to main menu
+    }
+    
+
+    // to test on playwright then deploy to checkly
+    // options.yes skips the confirmation, options.failOnTestFailure or an unattended (yes) deploy stops when the deploy policy blocks
+    async deployToCheckly(options: DeployOptions = {}): Promise<DeployResult> {
+  const startedAt = new Date().toISOString();
+  const suites = this.suites.list();
+  const filter = options.filter ?? emptyFilter;
+
+  const profile = this.currentProfile();
+  if (profile) console.log(`Using profile "${profile.name}"${profile.baseUrl ? ` (${profile.baseUrl})` : ''}.`);
+
+  // Misconfigurations stop the deploy here instead of failing halfway through checkly deploy
+  const diagnostics = this.validateProject();
+  if (diagnostics.length > 0) {
+    console.log('\n=== Validation ===');
+    formatDiagnostics(diagnostics).forEach((line) => console.log(line));
+  }
+  if (hasErrors(diagnostics)) {
+    console.error('Deployment aborted because the project has errors, run validate after fixing them.');
+    return 'failed';
+  }
+
+  let testRunner: TestRunner;
+  let locations: string[];
+  try {
+    const policy = loadDeployPolicy(this.state);
+    testRunner = options.testRunner ?? policy.testRunner;
+    locations = options.locations ?? policy.checklyLocations;
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    return 'failed';
+  }
+
+  const tested = testRunner === 'checkly' ? await this.runChecklySuites(filter, locations) : await this.runSuites(filter);
+  if (!tested) return 'failed';
+  const { results, missingReports, selection } = tested;
+  if (tested.canceled) {
+    console.log('Test run canceled, nothing was deployed.');
+    return 'canceled';
+  }
+  if (selection && Object.values(selection).every((files) => files.length === 0)) {
+    console.error('No tests match the filter, nothing was deployed.');
+    return 'failed';
+  }
+
+  console.log('\n=== Test Results ===');
+  (tested.checkRuns ? formatCheckRunResults(tested.checkRuns) : formatResults(results)).forEach((line) => console.log(line));
+
+  let gate: GateDecision;
+  try {
+    gate = evaluateDeployPolicy(loadDeployPolicy(this.state), results, missingReports);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    gate = { allowed: false, reasons: ['The deploy policy could not be read.'] };
+  }
+  if (!gate.allowed) {
+    console.error('The deploy policy blocks this deployment:');
+    gate.reasons.forEach((reason) => console.error(`- ${reason}`));
+  }
+
+  if (selection) console.log('The filter only picks the tests that gate the deploy, the whole project is deployed.');
+  const outcome = await this.deployTestedSuites(gate, options, suites.length > 0);
+  const run = this.runHistory.add({
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    suites: suites.map((suite) => suite.name),
+    profile: this.currentProfile()?.name ?? null,
+    gate,
+    outcome,
+    results,
+  });
+  console.log(`Saved as run #${run.id} in the run history.`);
+  return outcome;
+}
+
+// Confirm and deploy the whole project once the tests ran, the gate decides what needs confirming
+private async deployTestedSuites(gate: GateDecision, options: DeployOptions, hasSuites: boolean): Promise<DeployResult> {
+  // Without a prompt nobody confirms a blocked deploy, so unattended deploys (e.g. in CI) stop unless the policy is ignored on purpose
+  if (!gate.allowed && (options.failOnTestFailure || (options.yes && !options.ignorePolicy))) {
+    console.error(`Deployment aborted because of failing tests.${options.failOnTestFailure ? '' : ' Pass --ignore-policy to deploy anyway.'}`);
+    return 'tests-failed';
+  }
+  if (!gate.allowed && options.yes) console.warn('Deploying although the deploy policy blocks it (--ignore-policy).');
+
+  if (hasSuites && !(await this.updateChecklyConfig())) {
+    console.error('Deployment aborted because the Checkly config could not be updated.');
+    return 'failed';
+  }
+
+  // Show what the deploy changes before asking
+  const preview = await this.runDeployPreview();
+  if (preview === 'canceled') {
+    console.log('Deployment canceled.');
+    return 'canceled';
+  }
+  if (!preview) return 'failed';
+  const deletions = preview.filter((change) => change.action === 'delete').length;
+
+  if (!options.yes) {
+    // Prompt user for deployment, even if the policy blocked it
+    const confirmDeployment = await this.prompt({
+      type: 'confirm',
+      name: 'confirm',
+      message: [
+        gate.allowed ? 'Do you want to proceed with deployment to Checkly?' : 'The deploy policy blocked this deployment. Do you still want to deploy to Checkly?',
+        ...(deletions > 0 ? [`${deletions} resource(s) will be deleted.`] : []),
+      ].join(' '),
+      initial: gate.allowed && deletions === 0,
+    });
+
+    if (!confirmDeployment.confirm) {
+      console.log('Deployment canceled.');
+      return 'canceled'; // Exit the function if deployment is canceled
+    }
+  }
+
+  console.log('Deploying to Checkly...');
+  // The changes were confirmed above, --force skips the Checkly CLI's own prompt and --output prints what was deployed
+  const result = await this.runner.run('npx', ['checkly', 'deploy', '--force', '--output'], {
+    label: 'checkly-deploy',
+    env: this.checklyEnvironment(),
+    cwd: this.projectRoot,
+    timeoutMs: this.deployTimeoutMs,
+  });
+  if (result.canceled) {
+    console.log('Deployment canceled.');
+    return 'canceled';
+  }
+  if (!succeeded(result)) {
+    console.error(`Deployment failed: npx checkly deploy ${describeFailure(result)}`);
+    return 'failed';
+  }
+
+  const deployed = parseDeployOutput(result.output);
+  await this.recordDeployment('deploy', countChecks(deployed.length > 0 ? deployed : preview));
+  console.log('Deployment successful!');
+  return 'deployed';
+}
+
+// Ask Checkly what a deploy of the current config would change, null when the preview failed
+private async runDeployPreview(): Promise<DeployChange[] | 'canceled' | null> {
+  console.log('Previewing the deployment...');
+  const result = await this.runner.run('npx', ['checkly', 'deploy', '--preview'], {
+    label: 'checkly-preview',
+    env: this.checklyEnvironment(),
+    cwd: this.projectRoot,
+    timeoutMs: this.deployTimeoutMs,
+    quiet: true,
+  });
+  if (result.canceled) return 'canceled';
+  if (!succeeded(result)) {
+    console.error(result.output.trim());
+    console.error(`Preview failed: npx checkly deploy --preview ${describeFailure(result)}`);
+    return null;
+  }
+
+  const changes = parseDeployOutput(result.output);
+  console.log('\n=== Deploy Preview ===');
+  describeDeployChanges(changes).forEach((line) => console.log(line));
+  return changes;
+}
+
+// to check the config files, the suite folders, the specs' imports and dependencies and the alert channels in use
+validateProject(): Diagnostic[] {
+  const state = this.state.read();
+  return validateProject({
+    projectRoot: this.projectRoot,
+    checklyConfigPath: this.configPath,
+    playwrightConfigPath: this.playwrightConfigPath,
+    statePath: this.state.filePath,
+    suites: this.suites.list(),
+    checks: state.checks,
+    profiles: state.profiles,
+    alertChannels: state.alertChannels,
+  });
+}
+
+// to print the validation results, false when there are errors
+showValidation() {
+  const diagnostics = this.validateProject();
+  if (diagnostics.length === 0) {
+    console.log('No problems found.');
+    return true;
+  }
+  formatDiagnostics(diagnostics).forEach((line) => console.log(line));
+  return !hasErrors(diagnostics);
+}
+
+// to show what a deploy would change without running the tests or deploying
+async previewDeploy() {
+  if (!(await this.updateChecklyConfig())) return false;
+
+  const preview = await this.runDeployPreview();
+  return Array.isArray(preview);
+}
+
+// Save a deploy or destroy with the commit it came from
+private async recordDeployment(action: DeploymentRecord['action'], checks: CheckCounts | null) {
+  const deployment = this.deployments.add({
+    action,
+    deployedAt: new Date().toISOString(),
+    profile: this.currentProfile()?.name ?? null,
+    git: await readGitInfo(this.runner, this.projectRoot),
+    checks,
+  });
+  console.log(`Saved as deployment #${deployment.id}: ${describeDeployment(deployment)}`);
+}
+
+// to get the saved deploys and destroys, oldest first
+listDeployments() {
+  return this.deployments.list();
+}
+
+// to list the saved deploys and destroys, newest first
+showDeployments(limit = 10) {
+  const deployments = this.deployments.list().slice(-limit).reverse();
+  if (deployments.length === 0) {
+    console.log('No deployments saved yet.');
+  }
+  deployments.forEach((deployment) => console.log(describeDeployment(deployment)));
+}
+
+// Delete every resource of the project from Checkly
+// The project name has to be typed, or passed as `confirmName` when running without prompts
+async destroyProject(confirmName?: string) {
+  let projectName: string | undefined;
+  try {
+    projectName = ConfigEditor.load(this.configPath).getString(['projectName']);
+  } catch (error) {
+    console.error(`Error reading the Checkly config: ${error instanceof Error ? error.message : error}`);
+    return false;
+  }
+  if (!projectName) {
+    console.error('checkly.config.ts has no projectName, nothing to destroy.');
+    return false;
+  }
+
+  console.log(`This deletes every check, group and alert channel of project "${projectName}" from Checkly.`);
+  if (confirmName === undefined) {
+    const response = await this.prompt({
+      type: 'text',
+      name: 'name',
+      message: `Type the project name "${projectName}" to confirm:`,
+    });
+    confirmName = response.name;
+  }
+  if (confirmName !== projectName) {
+    console.log('The project name did not match, nothing was destroyed.');
+    return false;
+  }
+
+  const result = await this.runner.run('npx', ['checkly', 'destroy', '--force'], {
+    label: 'checkly-destroy',
+    env: this.checklyEnvironment(),
+    cwd: this.projectRoot,
+    timeoutMs: this.deployTimeoutMs,
+  });
+  if (!succeeded(result)) {
+    console.error(`Destroy failed: npx checkly destroy ${describeFailure(result)}`);
+    return false;
+  }
+  await this.recordDeployment('destroy', null);
+  console.log(`Project "${projectName}" was destroyed.`);
+  return true;
+}
+
+// Run the tests of every suite, or only those matching the filter
+// `selection` lists the spec files with matching tests per suite, null without a filter; null when the filter is invalid
+// `checkRuns` is only set by runs in Checkly's runtime
+private async runSuites(filter: TestFilter) {
+  const problems = validateFilter(filter);
+  if (problems.length > 0) {
+    problems.forEach((problem) => console.error(problem));
+    return null;
+  }
+
+  const suites = this.suites.list();
+  const results: TestResult[] = [];
+  const selection = this.selectSpecFiles(filter);
+  let missingReports = 0;
+  let canceled = false;
+
+  // Every suite is tested, each run points Playwright at the suite's folder through a run config
+  for (const suite of suites.length > 1 ? suites : [this.currentSuite()]) {
+    let args: string[] = [];
+    if (suite && selection) {
+      const files = selection[suite.name];
+      if (files.length === 0) {
+        console.log(`No tests of suite "${suite.name}" match the filter, skipping it.`);
+        continue;
+      }
+      args = playwrightFilterArgs(filter, suite.folder, files);
+    }
+
+    const perSuite = suite && suites.length > 1 ? suite : null;
+    console.log(perSuite ? `Running Playwright tests for suite "${perSuite.name}"...` : 'Running Playwright tests...');
+
+    const run = await this.runPlaywrightTests(perSuite?.name ?? null, args, { testDir: perSuite?.folder, testMatch: suite?.testMatch });
+    if (run.canceled) {
+      canceled = true;
+      break;
+    }
+    if (run.results) {
+      results.push(...run.results);
+    } else {
+      missingReports++;
+    }
+  }
+  return { results, checkRuns: null, missingReports, selection, canceled };
+}
+
+// Run the checks of every suite in Checkly's runtime with `checkly test`, or only those of the spec files matching the filter
+// Same shape as runSuites, with the Checkly results as `checkRuns`; null when the filter or the config is invalid
+private async runChecklySuites(filter: TestFilter, locations: string[]) {
+  const problems = validateFilter(filter);
+  if (problems.length > 0) {
+    problems.forEach((problem) => console.error(problem));
+    return null;
+  }
+
+  const selection = this.selectSpecFiles(filter);
+  if (selection && Object.values(selection).every((files) => files.length === 0)) {
+    return { results: [], checkRuns: [], missingReports: 0, selection, canceled: false };
+  }
+  // checkly test runs the checks as configured, so the config has to include the suites and the profile first,
+  // a selection only narrows it for this run
+  if (!(await this.updateChecklyConfig())) return null;
+
+  const run = selection
+    ? await this.withSelectedChecks(selection, () => this.runChecklyChecks('test', locations))
+    : await this.runChecklyChecks('test', locations);
+  return { ...run, results: toTestResults(run.checkRuns), selection };
+}
+
+// Run `checkly test` or `checkly trigger` once per location, with the config's default location when none are given
+private async runChecklyChecks(mode: ChecklyRunMode, locations: string[], tags: string[] = []) {
+  const checkRuns: CheckRunResult[] = [];
+  let missingReports = 0;
+  let canceled = false;
+
+  for (const location of locations.length > 0 ? locations : [null]) {
+    console.log(`Running the ${mode === 'test' ? 'project\'s' : 'deployed'} checks in Checkly${location ? ` at ${location}` : ''}...`);
+    fs.removeSync(this.checklyResultsPath);
+    const result = await this.runner.run('npx', checklyRunArgs(mode, location, { tags }), {
+      label: location ? `checkly-${mode}-${location}` : `checkly-${mode}`,
+      env: { ...this.checklyEnvironment(), CHECKLY_REPORTER_JSON_OUTPUT: this.checklyResultsPath },
+      cwd: this.projectRoot,
+      timeoutMs: this.testTimeoutMs,
+    });
+    if (result.canceled) {
+      canceled = true;
+      break;
+    }
+    if (!succeeded(result)) {
+      console.error(`Some checks failed (npx checkly ${mode} ${describeFailure(result)}).`);
+    }
+
+    if (!fs.existsSync(this.checklyResultsPath)) {
+      console.error('The Checkly CLI did not write a JSON report.');
+      missingReports++;
+      continue;
+    }
+    try {
+      checkRuns.push(...readChecklyReport(this.checklyResultsPath));
+    } catch (error) {
+      console.error(`Error reading the Checkly report: ${error instanceof Error ? error.message : error}`);
+      missingReports++;
+    }
+  }
+  return { checkRuns, missingReports, canceled };
+}
+
+// to run the suites' checks in Checkly's runtime without deploying, optionally only the spec files matching the filter
+async testInCheckly(options: ChecklyRunOptions = {}): Promise<TestRunResult> {
+  const run = await this.runChecklySuites(options.filter ?? emptyFilter, options.locations ?? []);
+  if (!run) return 'failed';
+  if (run.selection && Object.values(run.selection).every((files) => files.length === 0)) {
+    console.error('No tests match the filter.');
+    return 'no-tests';
+  }
+  return this.reportCheckRuns(run);
+}
+
+// to run the checks already deployed to Checkly, optionally only those with all the tags
+async triggerChecks(options: ChecklyRunOptions = {}): Promise<TestRunResult> {
+  return this.reportCheckRuns(await this.runChecklyChecks('trigger', options.locations ?? [], options.tags ?? []));
+}
+
+// Print the result table of a run in Checkly and sum it up for the exit code
+private reportCheckRuns(run: { checkRuns: CheckRunResult[]; missingReports: number; canceled: boolean }): TestRunResult {
+  if (run.canceled) {
+    console.log('Checkly run canceled.');
+    return 'canceled';
+  }
+
+  console.log('\n=== Checkly Results ===');
+  formatCheckRunResults(run.checkRuns).forEach((line) => console.log(line));
+  if (run.missingReports === 0 && run.checkRuns.length === 0) return 'no-tests';
+  return run.missingReports === 0 && run.checkRuns.every((result) => result.passed) ? 'passed' : 'failed';
+}
+
+// Ask for the locations of a Checkly run and what to run, null when canceled
+private async promptChecklyRun(mode: ChecklyRunMode): Promise<ChecklyRunOptions | null> {
+  const { locations } = await this.prompt({
+    type: 'list',
+    name: 'locations',
+    message: 'Locations, e.g. eu-west-1 (comma-separated, empty for the default)',
+    initial: this.currentProfile()?.locations.join(', ') ?? '',
+    separator: ',',
+  });
+  if (locations === undefined) return null; // prompt canceled
+
+  if (mode === 'trigger') {
+    const { tags } = await this.prompt({ type: 'list', name: 'tags', message: 'Check tags (comma-separated, empty for every check)', separator: ',' });
+    if (tags === undefined) return null;
+    return { locations: locations.filter(Boolean), tags: tags.filter(Boolean) };
+  }
+  const filter = await this.promptTestFilter();
+  return filter ? { locations: locations.filter(Boolean), filter } : null;
+}
+
+// The spec files with tests matching the filter per suite, null without a filter
+private selectSpecFiles(filter: TestFilter) {
+  if (isEmptyFilter(filter)) return null;
+  const selection: Record<string, string[]> = {};
+  for (const suite of this.suites.list()) {
+    selection[suite.name] = [...new Set(discoverTests(suite.folder, suite.testMatch).filter((test) => matchesFilter(test, filter)).map((test) => test.file))];
+  }
+  return selection;
+}
+
+// to run the tests locally without deploying, optionally only those matching the filter
+async runTests(filter: TestFilter = emptyFilter): Promise<TestRunResult> {
+  const run = await this.runSuites(filter);
+  if (!run) return 'failed';
+  if (run.canceled) {
+    console.log('Test run canceled.');
+    return 'canceled';
+  }
+  if (run.selection && Object.values(run.selection).every((files) => files.length === 0)) {
+    console.error('No tests match the filter.');
+    return 'no-tests';
+  }
+
+  console.log('\n=== Test Results ===');
+  formatResults(run.results).forEach((line) => console.log(line));
+  const passed = run.missingReports === 0 && run.results.every((result) => result.outcome !== 'failed');
+  return passed ? 'passed' : 'failed';
+}
+
+// Run Playwright with the JSON reporter next to the usual output, results are null when it produced none
+// `args` narrows the run, e.g. to the files and --grep of a filter; `target.testDir` runs another suite than the active one
+// and `target.testMatch` picks the suite's spec files
+private async runPlaywrightTests(suite: string | null, args: string[] = [], target: Pick<PlaywrightRunOverrides, 'testDir' | 'testMatch'> = {}) {
+  fs.removeSync(this.playwrightResultsPath);
+  const overrides = this.playwrightRunOverrides(target);
+  if (Object.keys(overrides).length > 0) {
+    fs.writeFileSync(this.playwrightRunConfigPath, renderPlaywrightRunConfig(overrides), 'utf-8');
+    args = [...args, '--config', path.basename(this.playwrightRunConfigPath)];
+  }
+  const result = await this.runner.run('npx', ['playwright', 'test', '--reporter=list,json', ...args], {
+    label: suite ? `playwright-test-${suite}` : 'playwright-test',
+    env: { ...this.playwrightEnvironment(), PLAYWRIGHT_JSON_OUTPUT_NAME: this.playwrightResultsPath },
+    cwd: this.projectRoot,
+    timeoutMs: this.testTimeoutMs,
+  }).finally(() => fs.removeSync(this.playwrightRunConfigPath));
+  if (result.canceled) return { results: null, canceled: true };
+  if (!succeeded(result)) {
+    console.error(`Some tests failed (npx playwright test ${describeFailure(result)}).`);
+  }
+
+  if (!fs.existsSync(this.playwrightResultsPath)) {
+    console.error('Playwright did not write a JSON report.');
+    return { results: null, canceled: false };
+  }
+  try {
+    return { results: readPlaywrightReport(this.playwrightResultsPath, suite), canceled: false };
+  } catch (error) {
+    console.error(`Error reading the Playwright report: ${error instanceof Error ? error.message : error}`);
+    return { results: null, canceled: false };
+  }
+}
+
+// What a run needs on top of playwright.config.ts: another suite's folder, its spec files and the base URL of a --profile the config doesn't read yet
+// playwright.config.ts itself is left alone, so runs don't fill the config backups
+private playwrightRunOverrides(target: Pick<PlaywrightRunOverrides, 'testDir' | 'testMatch'>): PlaywrightRunOverrides {
+  const overrides: PlaywrightRunOverrides = {};
+  if (target.testDir) overrides.testDir = target.testDir;
+  if (target.testMatch) overrides.testMatch = target.testMatch;
+  if (this.currentProfile()?.baseUrl && fs.existsSync(this.playwrightConfigPath) && ConfigEditor.load(this.playwrightConfigPath).getValue(['use', 'baseURL']) !== `process.env.${baseUrlVariable}`) {
+    overrides.baseUrlVariable = baseUrlVariable;
+  }
+  return overrides;
+}
+
+// to get the saved runs, oldest first
+listRuns() {
+  return this.runHistory.list();
+}
+
+// to get the deploy policy, the defaults when none is saved
+getDeployPolicy() {
+  return loadDeployPolicy(this.state);
+}
+
+// to write the report of the active suite, its latest results, the alert channels and the last deploy
+// as report.html and report.md into `folder`, .checkly-manager/reports by default; null when it failed
+generateReport(folder?: string) {
+  try {
+    const target = folder ? path.resolve(this.workingDirectory, folder) : this.reportsFolder;
+    const data = this.collectReportData();
+    const files = { html: path.join(target, 'report.html'), markdown: path.join(target, 'report.md') };
+    fs.ensureDirSync(target);
+    fs.writeFileSync(files.html, renderHtmlReport(data), 'utf-8');
+    fs.writeFileSync(files.markdown, renderMarkdownReport(data), 'utf-8');
+    console.log(`Report written to ${path.relative(this.workingDirectory, files.html)} and ${path.relative(this.workingDirectory, files.markdown)}.`);
+    return files;
+  } catch (error) {
+    console.error(`Error generating the report: ${error instanceof Error ? error.message : error}`);
+    return null;
+  }
+}
+
+// Everything the report shows, read from the state, the test folder and the Playwright JSON report
+private collectReportData(): ReportData {
+  const suite = this.activeSuite ? this.suites.get(this.activeSuite) : undefined;
+  let project: string | null = null;
+  if (fs.existsSync(this.configPath)) {
+    project = ConfigEditor.load(this.configPath).getString(['projectName']) ?? null;
+  }
+  const deployments = this.deployments.list();
+
+  return {
+    generatedAt: new Date().toISOString(),
+    project,
+    suite: suite
+      ? { name: suite.name, folder: path.relative(this.projectRoot, suite.folder).split(path.sep).join('/') || '.', testMatch: suite.testMatch, tests: discoverTests(suite.folder, suite.testMatch) }
+      : null,
+    alertChannels: this.alertChannels.list(),
+    alertPolicy: loadAlertPolicy(this.state),
+    results: this.latestResults(),
+    deployment: deployments[deployments.length - 1] ?? null,
+  };
+}
+
+// The newer of the Playwright JSON report left by the last local run and the last deploy run in the history
+private latestResults(): ReportData['results'] {
+  const runs = this.runHistory.list();
+  const lastRun = runs[runs.length - 1];
+  if (fs.existsSync(this.playwrightResultsPath)) {
+    const modified = fs.statSync(this.playwrightResultsPath).mtime;
+    if (!lastRun || modified.getTime() > Date.parse(lastRun.finishedAt)) {
+      try {
+        return { source: 'Local Playwright run', finishedAt: modified.toISOString(), results: readPlaywrightReport(this.playwrightResultsPath, null) };
+      } catch (error) {
+        console.warn(`Skipped ${path.basename(this.playwrightResultsPath)}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+  return lastRun ? { source: `Deploy run #${lastRun.id}`, finishedAt: lastRun.finishedAt, results: lastRun.results } : null;
+}
+
+// to get the config backups, oldest first
+listConfigBackups() {
+  return this.configBackups.list();
+}
+
+// to print the difference between a backup and the current config file
+showConfigBackup(id: number) {
+  const backup = this.configBackups.get(id);
+  const content = backup ? this.configBackups.read(backup) : null;
+  if (!backup || content === null) {
+    console.error(backup ? `The copy of backup #${id} is missing from ${this.configBackups.folder}.` : `No config backup #${id}.`);
+    return false;
+  }
+
+  const filePath = this.configBackups.filePath(backup);
+  const current = fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : '';
+  console.log(`${describeBackup(backup)}, restoring it changes ${backup.file}:`);
+  const diff = formatDiff(diffLines(current, content));
+  if (diff.length === 0) console.log('  nothing, it is the current content');
+  diff.forEach((line) => console.log(`  ${line}`));
+  return true;
+}
+
+// to roll a config file back to a backup, lists the backups to pick from when `id` is not given
+// The current content is backed up first, so a restore can be undone the same way
+async restoreConfig(id?: number) {
+  if (id === undefined) {
+    const backups = this.configBackups.list().slice().reverse();
+    if (backups.length === 0) {
+      console.log('No config backups yet. They are taken every time the manager rewrites a config file.');
+      return false;
+    }
+    const response = await this.prompt({
+      type: 'select',
+      name: 'id',
+      message: 'Restore which backup?',
+      choices: [...backups.map((backup) => ({ title: describeBackup(backup), value: backup.id })), { title: 'Cancel', value: null }],
+    });
+    if (!response.id) return false;
+    if (!this.showConfigBackup(response.id)) return false;
+
+    const { confirmed } = await this.prompt({ type: 'confirm', name: 'confirmed', message: 'Restore this backup?', initial: true });
+    if (!confirmed) return false;
+    id = response.id as number;
+  }
+
+  const backup = this.configBackups.get(id);
+  const content = backup ? this.configBackups.read(backup) : null;
+  if (!backup || content === null) {
+    console.error(backup ? `The copy of backup #${id} is missing from ${this.configBackups.folder}.` : `No config backup #${id}.`);
+    return false;
+  }
+
+  try {
+    const filePath = this.configBackups.filePath(backup);
+    this.saveConfig(filePath, content, `restore backup #${backup.id}`);
+    console.log(`Restored ${backup.file} from backup #${backup.id}.`);
+    return true;
+  } catch (error) {
+    console.error(`Error restoring ${backup.file}: ${error instanceof Error ? error.message : error}`);
+    return false;
+  }
+}
+
+// to get the alert policy, the defaults when none is saved
+getAlertPolicy() {
+  return loadAlertPolicy(this.state);
+}
+
+// to list the runs saved in the history, newest first
+showRunHistory(limit = 10) {
+  const runs = this.runHistory.list().slice(-limit).reverse();
+  if (runs.length === 0) {
+    console.log('No runs saved yet.');
+    return;
+  }
+  runs.forEach((run) => console.log(describeRun(run)));
+}
+
+// to print which tests changed between two runs, the latest against the one before by default
+compareRunHistory(beforeId?: number, afterId?: number) {
+  const runs = this.runHistory.list();
+  const after = afterId !== undefined ? this.runHistory.get(afterId) : runs[runs.length - 1];
+  const before = beforeId !== undefined ? this.runHistory.get(beforeId) : runs[runs.indexOf(after!) - 1];
+
+  if (!before || !after) {
+    console.error(runs.length < 2 ? 'At least two runs are needed to compare.' : 'No run with that id.');
+    return false;
+  }
+
+  console.log(`Changes from run #${before.id} to run #${after.id}:`);
+  const changes = compareRuns(before, after);
+  if (changes.length === 0) {
+    console.log('No test changed its outcome.');
+  }
+  changes.forEach((change) => console.log(`- ${change.test}: ${change.before} -> ${change.after}`));
+  return true;
+}
+
+// to edit the deploy policy, prompts for every setting when `changes` is not given
+async editDeployPolicy(changes?: Partial<DeployPolicy>) {
+  try {
+    const policy = loadDeployPolicy(this.state);
+    if (!changes) {
+      const response = await this.prompt([
+        { type: 'select', name: 'testRunner', message: 'Run the tests before deploying', choices: testRunners.map((runner) => ({ title: runner === 'checkly' ? "In Checkly's runtime (checkly test)" : 'Locally with Playwright', value: runner })), initial: testRunners.indexOf(policy.testRunner) },
+        { type: (previous) => (previous === 'checkly' ? 'list' : null), name: 'checklyLocations', message: 'Locations (comma-separated, empty for the default)', initial: policy.checklyLocations.join(', '), separator: ',' },
+        { type: 'toggle', name: 'blockOnFailure', message: 'Block deployments when tests fail?', initial: policy.blockOnFailure, active: 'yes', inactive: 'no' },
+        { type: 'toggle', name: 'blockOnFlaky', message: 'Block deployments when tests are flaky?', initial: policy.blockOnFlaky, active: 'yes', inactive: 'no' },
+        { type: 'text', name: 'minPassRate', message: 'Minimum pass rate in percent (empty for none)', initial: policy.minPassRate === null ? '' : String(policy.minPassRate) },
+        { type: 'list', name: 'knownFlaky', message: 'Known flaky spec files or tests (comma-separated)', initial: policy.knownFlaky.join(', '), separator: ',' },
+      ]);
+      if (response.knownFlaky === undefined) return false; // prompt canceled
+      changes = {
+        testRunner: response.testRunner,
+        checklyLocations: (response.checklyLocations ?? policy.checklyLocations).filter(Boolean),
+        blockOnFailure: response.blockOnFailure,
+        blockOnFlaky: response.blockOnFlaky,
+        minPassRate: response.minPassRate.trim() === '' ? null : Number(response.minPassRate),
+        knownFlaky: response.knownFlaky.filter(Boolean),
+      };
+    }
+
+    const updated = { ...policy, ...changes };
+    saveDeployPolicy(this.state, updated);
+    console.log('Deploy policy saved:');
+    describeDeployPolicy(updated).forEach((line) => console.log(`- ${line}`));
+    return true;
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    return false;
+  }
+}
+
+// to edit the alert policy, prompts for every setting when `changes` is not given
+// The escalation is written into the suite groups; `applyToChannels` also gives every saved channel the notification settings
+async editAlertPolicy(changes?: Partial<AlertPolicy>, applyToChannels = false) {
+  try {
+    const policy = loadAlertPolicy(this.state);
+    if (!changes) {
+      const { notifications } = policy;
+      const response = await this.prompt([
+        {
+          type: 'text',
+          name: 'escalation',
+          message: "Alert escalation: default (the account's settings) or <run|time>:<failed runs|minutes>[:<reminders>:<reminder minutes>[:<failing locations %>]]",
+          initial: formatEscalation(policy.escalation),
+          validate: (input: string) => {
+            const escalation = parseEscalation(input.trim());
+            return !escalation || validateEscalation(escalation).length === 0 || validateEscalation(escalation).join(' ');
+          },
+        },
+        {
+          type: 'multiselect',
+          name: 'send',
+          message: 'Alert channels notify when a check...',
+          choices: [
+            { title: 'fails', value: 'sendFailure', selected: notifications.sendFailure },
+            { title: 'recovers', value: 'sendRecovery', selected: notifications.sendRecovery },
+            { title: 'is degraded', value: 'sendDegraded', selected: notifications.sendDegraded },
+            { title: 'has an SSL certificate about to expire', value: 'sslExpiry', selected: notifications.sslExpiry },
+          ],
+        },
+        { type: (previous: string[]) => (previous.includes('sslExpiry') ? 'number' : null), name: 'sslExpiryThreshold', message: 'Days before the certificate expires (1-30)', initial: notifications.sslExpiryThreshold, min: 1, max: 30 },
+        { type: 'toggle', name: 'applyToChannels', message: 'Apply the notifications to the existing alert channels?', initial: false, active: 'yes', inactive: 'no' },
+      ]);
+      if (response.applyToChannels === undefined) return false; // prompt canceled
+      changes = {
+        escalation: parseEscalation(response.escalation.trim()),
+        notifications: {
+          sendFailure: response.send.includes('sendFailure'),
+          sendRecovery: response.send.includes('sendRecovery'),
+          sendDegraded: response.send.includes('sendDegraded'),
+          sslExpiry: response.send.includes('sslExpiry'),
+          sslExpiryThreshold: response.sslExpiryThreshold ?? notifications.sslExpiryThreshold,
+        },
+      };
+      applyToChannels = response.applyToChannels;
+    }
+
+    const updated = { ...policy, ...changes };
+    saveAlertPolicy(this.state, updated);
+    console.log('Alert policy saved:');
+    describeAlertPolicy(updated).forEach((line) => console.log(`- ${line}`));
+
+    if (applyToChannels) {
+      // Unset props are removed by update(), so channels that stop alerting on SSL expiry lose the threshold too
+      const notifications = { sslExpiry: undefined, sslExpiryThreshold: undefined, ...this.channelNotifications(updated.notifications) };
+      for (const channel of this.alertChannels.list()) {
+        this.alertChannels.update(channel.id, notifications);
+      }
+      if (this.alertChannels.list().length > 0 && fs.existsSync(this.configPath) && !this.writeAlertChannels()) return false;
+    }
+    if (fs.existsSync(this.suitesCheckPath)) this.writeSuitesCheckFile();
+    if (this.checks.list().length > 0) return this.generateChecks();
+    return true;
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    return false;
+  }
+}
+
+// to read the frequency, locations, runtime, retries and tags every check inherits from checkly.config.ts
+getProjectSettings(): ProjectSettings | null {
+  try {
+    return readProjectSettings(ConfigEditor.load(this.configPath));
+  } catch (error) {
+    console.error(`Error reading the project settings: ${error instanceof Error ? error.message : error}`);
+    return null;
+  }
+}
+
+// to write the project settings into checkly.config.ts, prompts for every setting when `changes` is not given
+async editProjectSettings(changes?: Partial<ProjectSettings>) {
+  if (!fs.existsSync(this.configPath)) {
+    console.error('No checkly.config.ts found. Create the Checkly project first.');
+    return false;
+  }
+
+  try {
+    const editor = ConfigEditor.load(this.configPath);
+    const current = readProjectSettings(editor);
+    if (!changes) {
+      const prompted = await this.promptProjectSettings(current);
+      if (!prompted) return false;
+      changes = prompted;
+    }
+
+    const updated = { ...current, ...changes };
+    const problems = validateProjectSettings(updated);
+    if (problems.length > 0) {
+      console.error(`Invalid project settings: ${problems.join(' ')}`);
+      return false;
+    }
+
+    applyProjectSettings(editor, changes);
+    if (!this.saveConfig(this.configPath, editor.text, 'update the project settings')) {
+      console.log('The project settings are unchanged.');
+      return true;
+    }
+    console.log('Project settings saved:');
+    describeProjectSettings(updated).forEach((line) => console.log(`- ${line}`));
+
+    // The suite groups get the profile's locations and frequency on deploy, which take precedence over these
+    const profile = this.currentProfile();
+    if (profile && (profile.locations.length > 0 || profile.frequency !== null)) {
+      console.log(`Profile "${profile.name}" sets its own ${profile.locations.length > 0 ? 'locations' : 'frequency'}, deploys with it use those instead.`);
+    }
+    return true;
+  } catch (error) {
+    console.error(`Error updating the project settings: ${error instanceof Error ? error.message : error}`);
+    return false;
+  }
+}
+
+// Ask for the frequency, locations, private locations, runtime, retries and tags of the project
+private async promptProjectSettings(current: ProjectSettings): Promise<Partial<ProjectSettings> | null> {
+  const response = await this.prompt([
+    {
+      type: 'select',
+      name: 'frequency',
+      message: 'Frequency',
+      choices: [
+        { title: "Checkly's default", value: null },
+        ...Object.keys(checkFrequencies).map((minutes) => ({ title: `Every ${minutes} minute(s)`, value: Number(minutes) })),
+      ],
+      initial: current.frequency === null ? 0 : Object.keys(checkFrequencies).indexOf(String(current.frequency)) + 1,
+    },
+    {
+      type: 'multiselect',
+      name: 'locations',
+      message: 'Locations',
+      choices: checklyLocations.map((location) => ({ title: location, value: location, selected: current.locations.includes(location) })),
+    },
+    { type: 'list', name: 'privateLocations', message: 'Private locations (comma-separated slugs, empty for none)', initial: current.privateLocations.join(', '), separator: ',' },
+    {
+      type: 'select',
+      name: 'runtimeId',
+      message: 'Runtime',
+      choices: [{ title: "The account's default", value: null }, ...checklyRuntimes.map((runtime) => ({ title: runtime, value: runtime }))],
+      initial: current.runtimeId === null ? 0 : checklyRuntimes.indexOf(current.runtimeId) + 1,
+    },
+    {
+      type: 'text',
+      name: 'retryStrategy',
+      message: 'Retries: default, none or <fixed|linear|exponential>:<max retries>:<backoff seconds>',
+      initial: describeRetryStrategy(current.retryStrategy),
+      validate: (input: string) => {
+        const retry = parseRetryStrategy(input.trim());
+        return !retry || validateRetryStrategy(retry).length === 0 || validateRetryStrategy(retry).join(' ');
+      },
+    },
+    { type: 'list', name: 'tags', message: 'Tags (comma-separated)', initial: current.tags.join(', '), separator: ',' },
+  ]);
+  if (response.tags === undefined) return null; // prompt canceled
+
+  return {
+    frequency: response.frequency,
+    locations: response.locations,
+    privateLocations: response.privateLocations.filter(Boolean),
+    runtimeId: response.runtimeId,
+    retryStrategy: parseRetryStrategy(response.retryStrategy.trim()),
+    tags: response.tags.filter(Boolean),
+  };
+}
+
+// to print the spec files of the active suite with their number of tests
+listTestFiles() {
+      try {
+        const tests = this.listTests();
+        const files = this.findTestFiles();
+        if (files.length === 0) {
+          console.log('No tests found in the folder.');
+          return;
+        }
+
+        console.log(`Tests: ${tests.length} in ${files.length} spec file(s)`);
+        files.forEach((file) => console.log(`- ${file} (${tests.filter((test) => test.file === file).length})`));
+      } catch (error) {
+        console.error(`Error listing the tests in ${this.testFolder}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+// to get the spec files of the active suite, found recursively with its testMatch
+findTestFiles() {
+      const suite = this.currentSuite();
+      return suite ? findSpecFiles(suite.folder, suite.testMatch) : [];
+    }
+
+// to get the tests declared in the active suite's spec files, optionally only those matching the filter
+listTests(filter: TestFilter = emptyFilter): DiscoveredTest[] {
+      const suite = this.currentSuite();
+      if (!suite) return [];
+      return discoverTests(suite.folder, suite.testMatch).filter((test) => matchesFilter(test, filter));
+    }
+
+// Ask for the tags, grep and files to pick tests by, all empty runs every test
+private async promptTestFilter(): Promise<TestFilter | null> {
+      const response = await this.prompt([
+        { type: 'list', name: 'tags', message: 'Tags, e.g. @smoke (comma-separated, empty for any)', separator: ',' },
+        { type: 'text', name: 'grep', message: 'Title pattern (regular expression, empty for any)' },
+        { type: 'list', name: 'files', message: 'Spec files or folders (comma-separated, empty for all)', separator: ',' },
+      ]);
+      if (response.files === undefined) return null; // prompt canceled
+      return { tags: response.tags.filter(Boolean), grep: response.grep.trim() || null, files: response.files.filter(Boolean) };
+    }
+
+// to print the tests of the active suite
+showTests(filter: TestFilter = emptyFilter) {
+      const problems = validateFilter(filter);
+      if (problems.length > 0) {
+        problems.forEach((problem) => console.error(problem));
+        return false;
+      }
+
+      const tests = this.listTests(filter);
+      if (tests.length === 0) {
+        console.log(isEmptyFilter(filter) ? 'No tests found in the active suite.' : 'No tests match the filter.');
+      }
+      tests.forEach((test) => console.log(`- ${describeTest(test)}`));
+      return true;
+    }
+
+// to collect the current configuration without printing the menu
+getStatus(): ManagerStatus {
+      const channels = this.alertChannels.list();
+
+      return {
+        email: channels.find((channel) => channel.type === 'email')?.settings.address ?? null,
+        activeSuite: this.activeSuite,
+        suites: this.suites.list().map((suite) => suite.name),
+        profile: this.currentProfile()?.name ?? null,
+        account: this.currentAccount()?.name ?? null,
+        alertChannels: channels.map((channel) => ({ id: channel.id, type: channel.type })),
+        testFolder: this.testFolder,
+        originalFolder: this.originalFolderPath,
+        playwrightConfig: fs.existsSync(this.playwrightConfigPath),
+        checklyConfig: fs.existsSync(this.configPath),
+        tests: this.findTestFiles(),
+      };
+    }
+    
+  }
+
+  // calling the class, only when started with `npm start` so tests can import the module
+  if (require.main === module) {
+    const testManager = new TestManager();
+    const cliArgs = process.argv.slice(2);
+
+    if (cliArgs.length > 0) {
+      // running a single command without the menu, e.g. `npm start -- deploy --yes`
+      runCli(testManager, cliArgs).then((code) => {
+        process.exitCode = code;
+      });
+    } else {
+      // calling the init method
+      testManager.init().catch((error) => {
+        console.error(error instanceof Error ? error.message : error);
+        process.exitCode = 1;
+      });
+    }
+  }
@@ -0,0 +1,125 @@
+// process-runner.ts
+import fs from 'fs-extra';
+import path from 'path';
+import { spawn } from 'child_process';
+
+export interface RunOptions {
+  label?: string; // Name of the log file, e.g. 'playwright-test'
+  env?: NodeJS.ProcessEnv; // Added to the current environment
+  cwd?: string; // Directory to run in, the current one when not set
+  timeoutMs?: number; // Stop the command after this long, no limit when not set
+  interactive?: boolean; // The command asks questions, its output goes straight to the terminal and isn't logged
+  signal?: AbortSignal; // Stops the command when aborted
+  quiet?: boolean; // Only capture the output, nothing is printed or logged (e.g. git rev-parse)
+}
+
+export interface RunResult {
+  exitCode: number | null; // null when the command was stopped or didn't start
+  timedOut: boolean;
+  canceled: boolean; // Stopped with Ctrl+C or through the abort signal
+  output: string; // Combined stdout and stderr, empty for interactive commands
+  logFile: string | null;
+  error?: string; // Why the command couldn't be started
+}
+
+// Runs the external commands (npx playwright, npx checkly, npm init ...), replaceable by a fake in tests
+export interface CommandRunner {
+  run(command: string, args: string[], options?: RunOptions): Promise<RunResult>;
+}
+
+// A run that exited with code 0
+export function succeeded(result: RunResult) {
+  return result.exitCode === 0 && !result.timedOut && !result.canceled;
+}
+
+// Short explanation of a failed run for error messages
+export function describeFailure(result: RunResult) {
+  const reason = result.error
+    ?? (result.timedOut ? 'timed out' : result.canceled ? 'canceled' : `exited with code ${result.exitCode}`);
+  return result.logFile ? `${reason}, see ${result.logFile}` : reason;
+}
+
+const killGraceMs = 5000; // Time between SIGTERM and SIGKILL
+
+// Spawns commands asynchronously, streaming their output to the terminal and to a log file per run
+export class ProcessRunner implements CommandRunner {
+  constructor(private readonly logDirectory: string) {}
+
+  run(command: string, args: string[], options: RunOptions = {}): Promise<RunResult> {
+    const logFile = options.interactive || options.quiet ? null : this.logPath(options.label ?? path.basename(command));
+    const log = logFile ? fs.createWriteStream(logFile) : null;
+    log?.write(`$ ${[command, ...args].join(' ')}\n`);
+
+    return new Promise((resolve) => {
+      let output = '';
+      let timedOut = false;
+      let canceled = false;
+      let settled = false;
+
+      const child = spawn(command, args, {
+        cwd: options.cwd,
+        env: { ...process.env, ...(options.interactive ? {} : { FORCE_COLOR: '1' }), ...options.env },
+        stdio: options.interactive ? 'inherit' : ['inherit', 'pipe', 'pipe'],
+        shell: process.platform === 'win32', // npx and npm are .cmd scripts on Windows
+      });
+
+      const write = (target: NodeJS.WriteStream) => (chunk: Buffer) => {
+        if (!options.quiet) target.write(chunk);
+        if (!settled) log?.write(chunk);
+        output += chunk.toString();
+      };
+      child.stdout?.on('data', write(process.stdout));
+      child.stderr?.on('data', write(process.stderr));
+
+      // SIGTERM first, SIGKILL if the command ignores it
+      const stop = () => {
+        if (child.exitCode !== null || child.signalCode !== null) return;
+        child.kill('SIGTERM');
+        setTimeout(() => child.kill('SIGKILL'), killGraceMs).unref();
+      };
+
+      const timer = options.timeoutMs
+        ? setTimeout(() => {
+            timedOut = true;
+            console.error(`\n${command} ${args.join(' ')} took longer than ${Math.round(options.timeoutMs! / 1000)}s, stopping it.`);
+            stop();
+          }, options.timeoutMs)
+        : null;
+
+      // Ctrl+C stops the command but not the manager, so it can return to the menu
+      const onInterrupt = () => {
+        canceled = true;
+        stop();
+      };
+      process.on('SIGINT', onInterrupt);
+      options.signal?.addEventListener('abort', onInterrupt);
+
+      const finish = (exitCode: number | null, error?: string) => {
+        if (settled) return;
+        settled = true;
+        if (timer) clearTimeout(timer);
+        process.off('SIGINT', onInterrupt);
+        options.signal?.removeEventListener('abort', onInterrupt);
+
+        const status = error ?? (timedOut ? 'timed out' : canceled ? 'canceled' : `exit code ${exitCode}`);
+        log?.end(`\n[${status}]\n`);
+        resolve({ exitCode, timedOut, canceled, output, logFile, ...(error ? { error } : {}) });
+      };
+
+      child.on('error', (error) => finish(null, `could not start ${command}: ${error.message}`));
+      child.on('close', (code) => finish(timedOut || canceled ? null : code));
+      // A stopped command's own children may keep its output open, don't wait for them
+      child.on('exit', () => {
+        if (timedOut || canceled) finish(null);
+      });
+      if (options.signal?.aborted) onInterrupt();
+    });
+  }
+
+  // e.g. .checkly-manager/logs/2024-05-01T10-00-00-000Z-playwright-test.log
+  private logPath(label: string) {
+    fs.ensureDirSync(this.logDirectory);
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    return path.join(this.logDirectory, `${timestamp}-${label.replace(/[^A-Za-z0-9_-]/g, '-')}.log`);
+  }
+}
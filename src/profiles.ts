@@ -0,0 +1,155 @@
+// profiles.ts
+import { checkFrequencies } from './checks';
+import { literal } from './alert-channel';
+import type { StateStore } from './state';
+
+// A deploy target, e.g. 'staging' or 'prod', applied to local runs and to the suite groups
+export interface Profile {
+  name: string;
+  baseUrl: string | null; // Passed to the tests as BASE_URL
+  environmentVariables: Record<string, string>;
+  secrets: string[]; // Names of environment variables holding secrets, read from the environment and never saved
+  locations: string[]; // Empty keeps the locations of checkly.config.ts
+  frequency: number | null; // Minutes, null keeps the frequency of checkly.config.ts
+  alertChannels: string[]; // Alert channel ids, empty for every channel
+}
+
+export const baseUrlVariable = 'BASE_URL';
+
+export function emptyProfile(name: string): Profile {
+  return { name, baseUrl: null, environmentVariables: {}, secrets: [], locations: [], frequency: null, alertChannels: [] };
+}
+
+// Problems with a profile, empty when it can be used
+export function validateProfile(profile: Profile) {
+  const problems: string[] = [];
+  const isVariableName = (name: string) => /^[A-Za-z_][A-Za-z0-9_]*$/.test(name);
+
+  if (!/^[A-Za-z0-9_-]+$/.test(profile.name ?? '')) {
+    problems.push(`Invalid profile name "${profile.name}". Use only letters, digits, _ and -.`);
+  }
+  if (profile.baseUrl !== null && !/^https?:\/\/\S+$/.test(profile.baseUrl ?? '')) {
+    problems.push('The base URL must start with http:// or https://.');
+  }
+  const variables = typeof profile.environmentVariables === 'object' && profile.environmentVariables !== null ? profile.environmentVariables : null;
+  if (!variables || Object.entries(variables).some(([key, value]) => !isVariableName(key) || typeof value !== 'string')) {
+    problems.push('Environment variables must map names like API_URL to string values.');
+  } else if (variables[baseUrlVariable] !== undefined) {
+    problems.push(`${baseUrlVariable} is set through the base URL.`);
+  }
+  if (!Array.isArray(profile.secrets) || !profile.secrets.every(isVariableName)) {
+    problems.push('Secrets must be environment variable names, e.g. API_TOKEN.');
+  } else if (variables && profile.secrets.some((name) => variables[name] !== undefined)) {
+    problems.push('A variable can be a plain environment variable or a secret, not both.');
+  }
+  if (!Array.isArray(profile.locations) || profile.locations.some((location) => !/^[a-z0-9-]+$/.test(location))) {
+    problems.push('Locations must be Checkly location ids, e.g. eu-west-1.');
+  }
+  if (profile.frequency !== null && !checkFrequencies[profile.frequency]) {
+    problems.push(`Invalid frequency ${profile.frequency}. Use one of: ${Object.keys(checkFrequencies).join(', ')} minutes.`);
+  }
+  if (!Array.isArray(profile.alertChannels) || profile.alertChannels.some((id) => typeof id !== 'string')) {
+    problems.push('Alert channels must be a list of channel ids.');
+  }
+  return problems;
+}
+
+// Secrets of the profile that are not set in `env`
+export function missingSecrets(profile: Profile, env: NodeJS.ProcessEnv = process.env) {
+  return profile.secrets.filter((name) => !env[name]);
+}
+
+// Variables added to the environment of local Playwright runs, secrets come from the environment already
+export function profileEnvironment(profile: Profile): Record<string, string> {
+  return { ...profile.environmentVariables, ...(profile.baseUrl ? { [baseUrlVariable]: profile.baseUrl } : {}) };
+}
+
+// Props of the suite groups for the profile, as code: its locations, frequency and environment variables
+// The checks defaults of checkly.config.ts stay as the user wrote them, so nothing is left behind when the profile changes
+// Secrets are read from the environment when checkly deploy loads the checks, so their values never land in the file
+export function profileGroupProps(profile: Profile): Record<string, string> {
+  const props: Record<string, string> = {};
+  if (profile.locations.length > 0) {
+    props.locations = `[${profile.locations.map(literal).join(', ')}]`;
+  }
+  if (profile.frequency !== null) {
+    props.frequency = `Frequency.${checkFrequencies[profile.frequency]}`;
+  }
+
+  const variables = [
+    ...Object.entries(profileEnvironment(profile)).map(([key, value]) => `{ key: ${literal(key)}, value: ${literal(value)} }`),
+    ...profile.secrets.map((name) => `{ key: ${literal(name)}, value: process.env.${name} ?? '', secret: true }`),
+  ];
+  if (variables.length > 0) {
+    props.environmentVariables = `[${variables.join(', ')}]`;
+  }
+  return props;
+}
+
+// e.g. 'prod: https://example.com, 2 variables, 1 secret, eu-west-1, every 10 min'
+export function describeProfile(profile: Profile) {
+  const parts = [
+    profile.baseUrl ?? 'no base URL',
+    `${Object.keys(profile.environmentVariables).length} variable(s)`,
+    `${profile.secrets.length} secret(s)`,
+    ...(profile.locations.length > 0 ? [profile.locations.join(', ')] : []),
+    ...(profile.frequency !== null ? [`every ${profile.frequency} min`] : []),
+    ...(profile.alertChannels.length > 0 ? [`alerts: ${profile.alertChannels.join(', ')}`] : []),
+  ];
+  return `${profile.name}: ${parts.join(', ')}`;
+}
+
+// Saved profiles and the selected one, kept in the state file between runs
+export class ProfileRegistry {
+  constructor(private readonly store: StateStore) {}
+
+  list() {
+    return this.store.read().profiles;
+  }
+
+  get(name: string) {
+    return this.list().find((profile) => profile.name === name);
+  }
+
+  getActive() {
+    const { activeProfile, profiles } = this.store.read();
+    return profiles.find((profile) => profile.name === activeProfile) ?? null;
+  }
+
+  // Select a profile for the following runs, null for none
+  setActive(name: string | null) {
+    if (name !== null && !this.get(name)) {
+      throw new Error(`No profile named "${name}".`);
+    }
+    this.store.update((state) => {
+      state.activeProfile = name;
+    });
+  }
+
+  // Add a profile or replace the one with the same name, throws if it is invalid
+  put(profile: Profile) {
+    const problems = validateProfile(profile);
+    if (problems.length > 0) {
+      throw new Error(`Invalid profile "${profile.name}": ${problems.join(' ')}`);
+    }
+    this.store.update((state) => {
+      const index = state.profiles.findIndex((existing) => existing.name === profile.name);
+      if (index === -1) {
+        state.profiles.push(profile);
+      } else {
+        state.profiles[index] = profile;
+      }
+    });
+  }
+
+  remove(name: string) {
+    const exists = this.get(name) !== undefined;
+    if (exists) {
+      this.store.update((state) => {
+        state.profiles = state.profiles.filter((profile) => profile.name !== name);
+        if (state.activeProfile === name) state.activeProfile = null;
+      });
+    }
+    return exists;
+  }
+}
@@ -0,0 +1,149 @@
+// project-settings.ts
+import type { ConfigEditor } from './config-editor';
+import { checkFrequencies, describeRetryStrategy, parseRetryStrategyCode, renderRetryStrategy, RetrySettings, validateRetryStrategy } from './checks';
+
+// The `checks` defaults of checkly.config.ts every check inherits unless it sets its own
+export interface ProjectSettings {
+  frequency: number | null; // Minutes, null for Checkly's default
+  locations: string[]; // Public Checkly locations
+  privateLocations: string[]; // Slugs of private locations set up in the Checkly account
+  runtimeId: string | null; // null for the account's default runtime
+  retryStrategy: RetrySettings | null; // null for Checkly's default
+  tags: string[];
+}
+
+// Public locations checks can run from
+export const checklyLocations = [
+  'us-east-1', 'us-east-2', 'us-west-1', 'us-west-2', 'ca-central-1', 'sa-east-1',
+  'eu-west-1', 'eu-west-2', 'eu-west-3', 'eu-central-1', 'eu-north-1', 'eu-south-1',
+  'me-south-1', 'af-south-1',
+  'ap-east-1', 'ap-south-1', 'ap-southeast-1', 'ap-southeast-2', 'ap-southeast-3', 'ap-northeast-1', 'ap-northeast-2', 'ap-northeast-3',
+];
+
+// Runtimes Checkly still runs checks on, newest last
+export const checklyRuntimes = ['2023.09', '2024.02', '2024.09', '2025.04'];
+
+const constructsModule = 'checkly/constructs';
+
+// The settings as written in checkly.config.ts, throws if one is set to code the manager can't read
+export function readProjectSettings(editor: ConfigEditor): ProjectSettings {
+  const frequencyCode = editor.getValue(['checks', 'frequency']);
+  const retryCode = editor.getValue(['checks', 'retryStrategy']);
+  const runtimeCode = editor.getValue(['checks', 'runtimeId']);
+
+  const frequency = frequencyCode === undefined ? null : parseFrequencyCode(frequencyCode);
+  const retryStrategy = retryCode === undefined ? null : parseRetryStrategyCode(retryCode);
+  const runtimeId = runtimeCode === undefined ? null : editor.getString(['checks', 'runtimeId']);
+  const unreadable = [
+    frequency === undefined && `frequency (${frequencyCode})`,
+    retryStrategy === undefined && `retryStrategy (${retryCode})`,
+    runtimeId === undefined && `runtimeId (${runtimeCode})`,
+  ].filter(Boolean);
+  if (unreadable.length > 0) {
+    throw new Error(`checkly.config.ts sets ${unreadable.join(', ')} to code the manager can't read. Change it by hand.`);
+  }
+
+  return {
+    frequency: frequency!,
+    locations: readStrings(editor, 'locations'),
+    privateLocations: readStrings(editor, 'privateLocations'),
+    runtimeId: runtimeId!,
+    retryStrategy: retryStrategy!,
+    tags: readStrings(editor, 'tags'),
+  };
+}
+
+// Problems with the settings, empty when Checkly accepts them
+export function validateProjectSettings(settings: ProjectSettings) {
+  const problems: string[] = [];
+  if (settings.frequency !== null && !checkFrequencies[settings.frequency]) {
+    problems.push(`Invalid frequency ${settings.frequency}. Use one of: ${Object.keys(checkFrequencies).join(', ')} minutes.`);
+  }
+  const unknown = settings.locations.filter((location) => !checklyLocations.includes(location));
+  if (unknown.length > 0) {
+    problems.push(`Unknown location(s): ${unknown.join(', ')}. Use Checkly locations, e.g. ${checklyLocations.slice(0, 3).join(', ')}.`);
+  }
+  if (settings.privateLocations.some((slug) => !/^[a-z0-9]+(-[a-z0-9]+)*$/.test(slug))) {
+    problems.push('Private locations must be slugs, e.g. office-amsterdam.');
+  }
+  if (settings.locations.length === 0 && settings.privateLocations.length === 0) {
+    problems.push('Checks need at least one location or private location.');
+  }
+  if (settings.runtimeId !== null && !checklyRuntimes.includes(settings.runtimeId)) {
+    problems.push(`Invalid runtime "${settings.runtimeId}". Use one of: ${checklyRuntimes.join(', ')}.`);
+  }
+  if (settings.retryStrategy !== null) problems.push(...validateRetryStrategy(settings.retryStrategy));
+  if (settings.tags.some((tag) => !tag.trim())) problems.push('Tags must be non-empty strings.');
+  return problems;
+}
+
+// Write the changed settings into the `checks` defaults, unset ones are removed so Checkly's defaults apply
+export function applyProjectSettings(editor: ConfigEditor, changes: Partial<ProjectSettings>) {
+  if (changes.frequency !== undefined) {
+    if (changes.frequency === null) {
+      editor.removeProperty(['checks', 'frequency']);
+      editor.removeImport('Frequency', constructsModule);
+    } else {
+      editor.addImport('Frequency', constructsModule);
+      editor.setValue(['checks', 'frequency'], `Frequency.${checkFrequencies[changes.frequency]}`);
+    }
+  }
+  for (const key of ['locations', 'privateLocations', 'tags'] as const) {
+    const values = changes[key];
+    if (values === undefined) continue;
+    if (values.length === 0) {
+      editor.removeProperty(['checks', key]);
+    } else {
+      editor.setValue(['checks', key], `[${values.map((value) => editor.quote(value)).join(', ')}]`);
+    }
+  }
+  if (changes.runtimeId !== undefined) {
+    if (changes.runtimeId === null) {
+      editor.removeProperty(['checks', 'runtimeId']);
+    } else {
+      editor.setString(['checks', 'runtimeId'], changes.runtimeId);
+    }
+  }
+  if (changes.retryStrategy !== undefined) {
+    if (changes.retryStrategy === null) {
+      editor.removeProperty(['checks', 'retryStrategy']);
+      editor.removeImport('RetryStrategyBuilder', constructsModule);
+    } else {
+      editor.addImport('RetryStrategyBuilder', constructsModule);
+      editor.setValue(['checks', 'retryStrategy'], renderRetryStrategy(changes.retryStrategy));
+    }
+  }
+}
+
+// One line per setting, e.g. 'Frequency: every 10 minute(s)'
+export function describeProjectSettings(settings: ProjectSettings) {
+  const listed = (values: string[]) => (values.length > 0 ? values.join(', ') : 'none');
+  return [
+    `Frequency: ${settings.frequency === null ? "Checkly's default" : `every ${settings.frequency} minute(s)`}`,
+    `Locations: ${listed(settings.locations)}`,
+    `Private locations: ${listed(settings.privateLocations)}`,
+    `Runtime: ${settings.runtimeId ?? "the account's default"}`,
+    `Retries: ${settings.retryStrategy ? describeRetryStrategy(settings.retryStrategy) : "Checkly's default"}`,
+    `Tags: ${listed(settings.tags)}`,
+  ];
+}
+
+// Minutes from `Frequency.EVERY_10M` or `10`, undefined for any other code
+function parseFrequencyCode(code: string) {
+  const constant = /^Frequency\.(\w+)$/.exec(code.trim());
+  const minutes = constant
+    ? Object.keys(checkFrequencies).find((key) => checkFrequencies[Number(key)] === constant[1])
+    : /^[0-9]+$/.test(code.trim()) ? code.trim() : undefined;
+  return minutes === undefined ? undefined : Number(minutes);
+}
+
+// The string elements of a `checks` array, throws if one is not a plain string
+function readStrings(editor: ConfigEditor, key: string) {
+  return editor.getArrayElements(['checks', key]).map((code) => {
+    const match = /^(['"`])(.*)\1$/.exec(code);
+    if (!match || /\$\{/.test(code)) {
+      throw new Error(`checkly.config.ts sets checks.${key} to code the manager can't read: ${code}. Change it by hand.`);
+    }
+    return match[2].replace(/\\(.)/g, '$1');
+  });
+}
@@ -0,0 +1,218 @@
+// reports.ts
+import { AlertChannelConfig, alertChannelTypes } from './alert-channel';
+import { AlertPolicy, describeAlertPolicy } from './alert-policy';
+import { DeploymentRecord, describeDeployment } from './deployments';
+import type { DiscoveredTest } from './discovery';
+import { countResults, specKey, TestResult } from './test-results';
+
+// Everything a report is rendered from, gathered by the manager
+export interface ReportData {
+  generatedAt: string;
+  project: string | null; // projectName of checkly.config.ts
+  suite: { name: string; folder: string; testMatch: string; tests: DiscoveredTest[] } | null; // folder relative to the project root
+  alertChannels: AlertChannelConfig[];
+  alertPolicy: AlertPolicy;
+  results: { source: string; finishedAt: string; results: TestResult[] } | null; // Latest local Playwright results
+  deployment: DeploymentRecord | null; // Last deploy or destroy
+}
+
+// A row of the results table: one spec file
+interface SpecRow {
+  spec: string;
+  passed: number;
+  failed: number;
+  flaky: number;
+  skipped: number;
+}
+
+// Markdown for a PR description or an incident ticket
+export function renderMarkdownReport(data: ReportData) {
+  const lines = [
+    `## Checkly monitoring report${data.project ? `: ${data.project}` : ''}`,
+    '',
+    `Generated ${formatDate(data.generatedAt)}.`,
+    '',
+    '### Test suite',
+    '',
+  ];
+
+  if (!data.suite) {
+    lines.push('No test suite set.');
+  } else {
+    lines.push(`**${data.suite.name}**: ${data.suite.tests.length} test(s) in ${specFiles(data.suite.tests).length} spec file(s), \`${data.suite.folder}/${data.suite.testMatch}\``, '');
+    lines.push(...markdownTable(['Spec', 'Tests', 'Tags'], specFiles(data.suite.tests).map((file) => {
+      const tests = data.suite!.tests.filter((test) => test.file === file);
+      return [`\`${file}\``, String(tests.length), [...new Set(tests.flatMap((test) => test.tags))].join(', ')];
+    })));
+  }
+
+  lines.push('', '### Latest results', '');
+  if (!data.results) {
+    lines.push('No local Playwright results yet.');
+  } else {
+    lines.push(`${data.results.source}, finished ${formatDate(data.results.finishedAt)}: ${describeTotals(data.results.results)}`, '');
+    lines.push(...markdownTable(['Spec', 'Passed', 'Failed', 'Flaky', 'Skipped'], specRows(data.results.results).map((row) => (
+      [`${row.failed > 0 ? '❌' : row.flaky > 0 ? '⚠️' : '✅'} \`${row.spec}\``, String(row.passed), String(row.failed), String(row.flaky), String(row.skipped)]
+    ))));
+    const problems = problemTests(data.results.results);
+    if (problems.length > 0) {
+      lines.push('', '<details><summary>Failed and flaky tests</summary>', '');
+      problems.forEach((result) => lines.push(`- ${result.outcome === 'failed' ? '❌' : '⚠️'} \`${specKey(result)}\` › ${result.title}${result.project ? ` [${result.project}]` : ''}${result.error ? `: ${result.error}` : ''}`));
+      lines.push('', '</details>');
+    }
+  }
+
+  lines.push('', '### Alerting', '');
+  describeAlertPolicy(data.alertPolicy).forEach((line) => lines.push(`- ${line}`));
+  lines.push('');
+  if (data.alertChannels.length === 0) {
+    lines.push('No alert channels set.');
+  } else {
+    lines.push(...markdownTable(['Channel', 'Type', 'Sends to', 'Alerts on'], data.alertChannels.map((channel) => (
+      [`\`${channel.id}\``, alertChannelTypes[channel.type]?.title ?? channel.type, channelTarget(channel), channelEvents(channel)]
+    ))));
+  }
+
+  lines.push('', '### Last deploy', '', data.deployment ? describeDeployment(data.deployment) : 'Not deployed yet.');
+  return `${lines.join('\n')}\n`;
+}
+
+// A single HTML file with inline styles, to attach or open without the project
+export function renderHtmlReport(data: ReportData) {
+  const title = `Checkly monitoring report${data.project ? `: ${data.project}` : ''}`;
+  const sections: string[] = [];
+
+  sections.push('<h2>Test suite</h2>');
+  if (!data.suite) {
+    sections.push('<p>No test suite set.</p>');
+  } else {
+    const suite = data.suite;
+    sections.push(`<p><strong>${escapeHtml(suite.name)}</strong>: ${suite.tests.length} test(s) in ${specFiles(suite.tests).length} spec file(s), <code>${escapeHtml(`${suite.folder}/${suite.testMatch}`)}</code></p>`);
+    sections.push(htmlTable(['Spec', 'Test', 'Tags'], suite.tests.map((test) => [
+      `<code>${escapeHtml(test.file)}</code>`,
+      escapeHtml(test.titlePath.join(' › ')),
+      escapeHtml(test.tags.join(', ')),
+    ])));
+  }
+
+  sections.push('<h2>Latest results</h2>');
+  if (!data.results) {
+    sections.push('<p>No local Playwright results yet.</p>');
+  } else {
+    const { results } = data.results;
+    sections.push(`<p>${escapeHtml(`${data.results.source}, finished ${formatDate(data.results.finishedAt)}: ${describeTotals(results)}`)}</p>`);
+    sections.push(htmlTable(['Spec', 'Passed', 'Failed', 'Flaky', 'Skipped'], specRows(results).map((row) => [
+      `<span class="${row.failed > 0 ? 'failed' : row.flaky > 0 ? 'flaky' : 'passed'}">●</span> <code>${escapeHtml(row.spec)}</code>`,
+      String(row.passed), String(row.failed), String(row.flaky), String(row.skipped),
+    ])));
+    const problems = problemTests(results);
+    if (problems.length > 0) {
+      sections.push(htmlTable(['Outcome', 'Test', 'Error'], problems.map((result) => [
+        `<span class="${result.outcome}">${result.outcome}</span>`,
+        escapeHtml(`${specKey(result)} › ${result.title}${result.project ? ` [${result.project}]` : ''}`),
+        escapeHtml(result.error ?? ''),
+      ])));
+    }
+  }
+
+  sections.push('<h2>Alerting</h2>');
+  sections.push(`<ul>${describeAlertPolicy(data.alertPolicy).map((line) => `<li>${escapeHtml(line)}</li>`).join('')}</ul>`);
+  sections.push(data.alertChannels.length === 0
+    ? '<p>No alert channels set.</p>'
+    : htmlTable(['Channel', 'Type', 'Sends to', 'Alerts on'], data.alertChannels.map((channel) => [
+      `<code>${escapeHtml(channel.id)}</code>`,
+      escapeHtml(alertChannelTypes[channel.type]?.title ?? channel.type),
+      escapeHtml(channelTarget(channel)),
+      escapeHtml(channelEvents(channel)),
+    ])));
+
+  sections.push('<h2>Last deploy</h2>');
+  sections.push(`<p>${escapeHtml(data.deployment ? describeDeployment(data.deployment) : 'Not deployed yet.')}</p>`);
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    '<style>',
+    '  body { font-family: system-ui, sans-serif; margin: 2rem auto; max-width: 960px; padding: 0 1rem; color: #1f2937; }',
+    '  table { border-collapse: collapse; width: 100%; margin: 0.5rem 0 1rem; }',
+    '  th, td { border: 1px solid #e5e7eb; padding: 0.35rem 0.6rem; text-align: left; vertical-align: top; }',
+    '  th { background: #f3f4f6; }',
+    '  code { font-size: 0.9em; }',
+    '  .passed { color: #15803d; } .failed { color: #b91c1c; } .flaky { color: #b45309; } .skipped { color: #6b7280; }',
+    '</style>',
+    '</head>',
+    '<body>',
+    `<h1>${escapeHtml(title)}</h1>`,
+    `<p>Generated ${escapeHtml(formatDate(data.generatedAt))}.</p>`,
+    ...sections,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+// Where a channel sends alerts; webhook URLs and integration keys are secrets and left out
+export function channelTarget(channel: AlertChannelConfig) {
+  const { address, channel: slackChannel, phoneNumber, serviceName, name } = channel.settings;
+  return address ?? slackChannel ?? phoneNumber ?? serviceName ?? name ?? '';
+}
+
+function channelEvents(channel: AlertChannelConfig) {
+  return [
+    channel.sendFailure && 'failure',
+    channel.sendRecovery && 'recovery',
+    channel.sendDegraded && 'degraded',
+    channel.sslExpiry && `SSL expiry (${channel.sslExpiryThreshold ?? 30} days)`,
+  ].filter(Boolean).join(', ') || 'muted';
+}
+
+function specFiles(tests: DiscoveredTest[]) {
+  return [...new Set(tests.map((test) => test.file))];
+}
+
+function specRows(results: TestResult[]): SpecRow[] {
+  return [...new Set(results.map((result) => specKey(result)))].map((spec) => {
+    const { passed, failed, flaky, skipped } = countResults(results.filter((result) => specKey(result) === spec));
+    return { spec, passed, failed, flaky, skipped };
+  });
+}
+
+function problemTests(results: TestResult[]) {
+  return results.filter((result) => result.outcome === 'failed' || result.outcome === 'flaky');
+}
+
+function describeTotals(results: TestResult[]) {
+  const totals = countResults(results);
+  return `${totals.passed} passed, ${totals.failed} failed, ${totals.flaky} flaky, ${totals.skipped} skipped (${totals.passRate}% pass rate)`;
+}
+
+// '2026-01-05T14:02:11.000Z' -> '2026-01-05 14:02 UTC'
+function formatDate(iso: string) {
+  return `${iso.replace('T', ' ').slice(0, 16)} UTC`;
+}
+
+function markdownTable(headers: string[], rows: string[][]) {
+  const cell = (value: string) => value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+  return [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map((row) => `| ${row.map(cell).join(' | ')} |`),
+  ];
+}
+
+// Cells are HTML already, escaped by the caller
+function htmlTable(headers: string[], rows: string[][]) {
+  return [
+    '<table>',
+    `<tr>${headers.map((header) => `<th>${escapeHtml(header)}</th>`).join('')}</tr>`,
+    ...rows.map((row) => `<tr>${row.map((value) => `<td>${value}</td>`).join('')}</tr>`),
+    '</table>',
+  ].join('\n');
+}
+
+function escapeHtml(value: string) {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
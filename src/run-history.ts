@@ -0,0 +1,74 @@
+// run-history.ts
+import type { DeployResult } from './main';
+import type { StateStore } from './state';
+import type { GateDecision } from './deploy-policy';
+import { countResults, specKey, TestOutcome, TestResult, TestTotals } from './test-results';
+
+// One deploy attempt: the Playwright results, the policy decision and what happened next
+export interface RunRecord {
+  id: number;
+  startedAt: string;
+  finishedAt: string;
+  suites: string[];
+  profile?: string | null; // Profile the run used, missing for runs saved before profiles existed
+  totals: TestTotals;
+  gate: GateDecision;
+  outcome: DeployResult;
+  deployed: boolean;
+  results: TestResult[];
+}
+
+// A test whose outcome differs between two runs
+export interface RunChange {
+  test: string;
+  before: TestOutcome | 'missing';
+  after: TestOutcome | 'missing';
+}
+
+// Past runs, newest last, kept in the state file between runs
+export class RunHistory {
+  constructor(private readonly store: StateStore, private readonly limit = 50) {}
+
+  list(): RunRecord[] {
+    return this.store.read().runHistory;
+  }
+
+  get(id: number) {
+    return this.list().find((run) => run.id === id);
+  }
+
+  // Save a run, only the newest `limit` runs are kept
+  add(run: Omit<RunRecord, 'id' | 'totals' | 'deployed'>) {
+    const runs = this.list();
+    const record: RunRecord = {
+      id: (runs[runs.length - 1]?.id ?? 0) + 1,
+      ...run,
+      totals: countResults(run.results),
+      deployed: run.outcome === 'deployed',
+    };
+    this.store.update((state) => {
+      state.runHistory = [...runs, record].slice(-this.limit);
+    });
+    return record;
+  }
+}
+
+// Tests that passed, failed, became flaky, appeared or disappeared between two runs
+export function compareRuns(before: RunRecord, after: RunRecord): RunChange[] {
+  const key = (result: TestResult) => `${specKey(result)} > ${result.title}${result.project ? ` [${result.project}]` : ''}`;
+  const beforeOutcomes = new Map(before.results.map((result) => [key(result), result.outcome]));
+  const afterOutcomes = new Map(after.results.map((result) => [key(result), result.outcome]));
+
+  const tests = [...new Set([...beforeOutcomes.keys(), ...afterOutcomes.keys()])].sort();
+  return tests
+    .map((test) => ({ test, before: beforeOutcomes.get(test) ?? 'missing', after: afterOutcomes.get(test) ?? 'missing' }) as RunChange)
+    .filter((change) => change.before !== change.after);
+}
+
+// One line per run, e.g. '#12 2024-05-01 10:00  9 passed, 1 failed  blocked'
+export function describeRun(run: RunRecord) {
+  const date = run.startedAt.replace('T', ' ').slice(0, 16);
+  const { passed, failed, flaky, skipped } = run.totals;
+  const profile = run.profile ? ` [${run.profile}]` : '';
+  return `#${run.id} ${date}${profile}  ${passed} passed, ${failed} failed, ${flaky} flaky, ${skipped} skipped  ${run.gate.allowed ? 'allowed' : 'blocked'}, ${run.outcome}`;
+}
@@ -0,0 +1,395 @@
+// state.ts
+import fs from 'fs-extra';
+import path from 'path';
+import { alertChannelTypes, moveSecretsToVariables, validateAlertChannel } from './alert-channel';
+import type { AlertChannelConfig } from './alert-channel';
+import { assertValidPolicy, defaultDeployPolicy, DeployPolicy } from './deploy-policy';
+import { AlertPolicy, assertValidAlertPolicy, defaultAlertPolicy } from './alert-policy';
+import type { RunRecord } from './run-history';
+import type { DeploymentRecord } from './deployments';
+import { CheckSettings, validateCheckSettings } from './checks';
+import { defaultTestMatch, TestSuite } from './suites';
+import { Profile, validateProfile } from './profiles';
+import { ChecklyAccount, validateAccount } from './accounts';
+import type { ConfigBackup } from './config-backups';
+
+export const stateVersion = 9;
+
+// A state file as read from disk, before it is migrated and validated
+type StoredState = Record<string, unknown> & { version: number };
+
+// Upgrades a state file from the version it was written in to the next one
+const migrations: Record<number, (state: StoredState) => StoredState> = {
+  1: (state) => ({ ...state, checks: [], version: 2 }), // generated check settings
+  2: (state) => ({ ...state, profiles: [], activeProfile: null, version: 3 }), // deploy profiles
+  3: (state) => ({ ...state, deployments: [], version: 4 }), // deployment log
+  4: (state) => ({ ...state, deployPolicy: { ...defaultDeployPolicy, ...(state.deployPolicy as Partial<DeployPolicy> | undefined) }, version: 5 }), // test runner of the deploy gate
+  5: (state) => ({ ...state, accounts: [], activeAccount: null, version: 6 }), // saved Checkly accounts
+  6: (state) => ({ // alert escalation, globally and per check
+    ...state,
+    alertPolicy: defaultAlertPolicy,
+    checks: ((state.checks as CheckSettings[] | undefined) ?? []).map((check) => ({ ...check, alertEscalation: null })),
+    version: 7,
+  }),
+  7: (state) => ({ ...state, configBackups: [], version: 8 }), // config file backups
+  8: (state) => ({ ...state, alertChannels: secretsToVariables((state.alertChannels as AlertChannelConfig[] | undefined) ?? []), version: 9 }), // channel secrets from the environment
+};
+
+// The channels with their saved secrets replaced by environment variables, telling the user which ones to set
+function secretsToVariables(channels: AlertChannelConfig[]) {
+  const { channels: updated, moved } = moveSecretsToVariables(channels);
+  if (moved.length > 0) {
+    console.warn(`Alert channel secrets are no longer saved, they are read from environment variables. Set: ${moved.join(', ')}.`);
+    console.warn('Until alert-channels.ts is regenerated it still holds the old values, copy them from there.');
+  }
+  return updated;
+}
+
+// Everything the manager remembers between runs, kept in .checkly-manager/state.json
+export interface ManagerState {
+  version: number;
+  activeSuite: string | null;
+  suites: TestSuite[];
+  alertChannels: AlertChannelConfig[];
+  deployPolicy: DeployPolicy;
+  alertPolicy: AlertPolicy;
+  checks: CheckSettings[];
+  profiles: Profile[];
+  activeProfile: string | null;
+  accounts: ChecklyAccount[]; // Personal, left out of exported setups
+  activeAccount: string | null;
+  syncManifests: Record<string, Record<string, string>>; // Content hashes of the last sync, per test folder
+  runHistory: RunRecord[];
+  deployments: DeploymentRecord[];
+  configBackups: ConfigBackup[]; // Local, left out of exported setups
+}
+
+// The part of the state teammates can share, folders are relative to the project root
+export interface SharedSetup {
+  version: number;
+  activeSuite: string | null;
+  suites: TestSuite[];
+  alertChannels: AlertChannelConfig[];
+  deployPolicy: DeployPolicy;
+  alertPolicy?: AlertPolicy; // Missing in setups exported before alert policies
+  checks: CheckSettings[];
+  profiles: Profile[]; // Secrets are only listed by name
+}
+
+// A state or setup file that can't be read, the message says which file and what is wrong
+export class StateError extends Error {
+  constructor(readonly filePath: string, readonly problems: string[]) {
+    super(`${filePath} is not valid:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`);
+    this.name = 'StateError';
+  }
+}
+
+// Files written by earlier versions, moved to .checkly-manager/legacy once migrated
+const legacyFiles = {
+  suites: 'savedFolder.json',
+  email: 'email.json',
+  alertChannels: 'alertChannels.json',
+  syncManifests: 'syncManifest.json',
+  deployPolicy: 'deployPolicy.json',
+  runHistory: 'runHistory.json',
+};
+
+// The directory holding the project's config files, searched upwards from `start`
+export function findProjectRoot(start: string) {
+  let dir = path.resolve(start);
+  for (;;) {
+    if (['.checkly-manager', 'checkly.config.ts', 'package.json'].some((name) => fs.existsSync(path.join(dir, name)))) return dir;
+    const parent = path.dirname(dir);
+    if (parent === dir) return path.resolve(start);
+    dir = parent;
+  }
+}
+
+export function emptyState(): ManagerState {
+  return { version: stateVersion, activeSuite: null, suites: [], alertChannels: [], deployPolicy: { ...defaultDeployPolicy }, alertPolicy: defaultAlertPolicy, checks: [], profiles: [], activeProfile: null, accounts: [], activeAccount: null, syncManifests: {}, runHistory: [], deployments: [], configBackups: [] };
+}
+
+// Reads and writes the state file, migrating the legacy files the first time
+export class StateStore {
+  readonly filePath: string;
+
+  constructor(private readonly projectRoot: string) {
+    this.filePath = path.join(projectRoot, '.checkly-manager', 'state.json');
+  }
+
+  read(): ManagerState {
+    if (!fs.existsSync(this.filePath)) {
+      const migrated = this.migrateLegacyFiles();
+      if (!migrated) return emptyState();
+      return migrated;
+    }
+
+    const data = parseJson(this.filePath);
+    const state = { ...emptyState(), ...migrate(data, this.filePath), version: stateVersion } as ManagerState; // validated next
+    const problems = validateState(state);
+    if (problems.length > 0) throw new StateError(this.filePath, problems);
+    if (data.version !== stateVersion) this.write(state);
+    return state;
+  }
+
+  // Change the state and save it, nothing is written when the result is invalid
+  update(change: (state: ManagerState) => void) {
+    const state = this.read();
+    change(state);
+    this.write(state);
+    return state;
+  }
+
+  write(state: ManagerState) {
+    const problems = validateState(state);
+    if (problems.length > 0) throw new StateError(this.filePath, problems);
+
+    // Write next to the file and rename, so a crash never leaves half a file behind
+    fs.ensureDirSync(path.dirname(this.filePath));
+    const temporary = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(temporary, `${JSON.stringify(state, null, 2)}\n`);
+    fs.renameSync(temporary, this.filePath);
+  }
+
+  // The shareable part of the state, with folders relative to the project root
+  // Alert channels only hold the names of their secrets' environment variables, so they are shared as they are
+  exportSetup(): SharedSetup {
+    const { activeSuite, suites, alertChannels, deployPolicy, alertPolicy, checks, profiles } = this.read();
+    const relative = (folder: string) => {
+      const relativePath = path.relative(this.projectRoot, folder);
+      return path.isAbsolute(relativePath) ? folder : relativePath.split(path.sep).join('/') || '.';
+    };
+    return {
+      version: stateVersion,
+      activeSuite,
+      checks,
+      profiles,
+      suites: suites.map((suite) => ({ ...suite, folder: relative(suite.folder), originalFolder: relative(suite.originalFolder) })),
+      alertChannels,
+      deployPolicy,
+      alertPolicy,
+    };
+  }
+
+  // Merge an exported setup into the state, suites and channels with the same name or id are replaced
+  // Refused when its suites, checks or profiles use alert channels neither the setup nor the state has
+  importSetup(filePath: string) {
+    const data = parseJson(filePath);
+    const migrated = migrate(data, filePath);
+    const setup = {
+      activeSuite: null, suites: [], alertChannels: [], checks: [], profiles: [],
+      ...migrated,
+      deployPolicy: { ...defaultDeployPolicy, ...(migrated?.deployPolicy as Partial<DeployPolicy> | undefined) },
+      alertPolicy: data?.alertPolicy, // only a policy the setup was exported with replaces the local one
+    } as SharedSetup; // validated next
+    const problems = validateState({ ...emptyState(), ...setup, alertPolicy: setup.alertPolicy ?? defaultAlertPolicy, version: stateVersion });
+    if (problems.length > 0) throw new StateError(filePath, problems);
+
+    const absolute = (folder: string) => path.resolve(this.projectRoot, folder);
+    return this.update((state) => {
+      for (const suite of setup.suites) {
+        const imported = { ...suite, folder: absolute(suite.folder), originalFolder: absolute(suite.originalFolder) };
+        state.suites = [...state.suites.filter((existing) => existing.name !== suite.name), imported];
+      }
+      for (const check of setup.checks) {
+        state.checks = [...state.checks.filter((existing) => !(existing.suite === check.suite && existing.file === check.file)), check];
+      }
+      for (const profile of setup.profiles) {
+        state.profiles = [...state.profiles.filter((existing) => existing.name !== profile.name), profile];
+      }
+      for (const channel of setup.alertChannels) {
+        state.alertChannels = [...state.alertChannels.filter((existing) => existing.id !== channel.id), channel];
+      }
+      const unknown = unknownChannelReferences({ ...setup, alertChannels: state.alertChannels });
+      if (unknown.length > 0) {
+        throw new StateError(filePath, [...unknown.map(({ message }) => message), 'Export the setup again with these channels, or add them here before importing.']);
+      }
+      state.deployPolicy = setup.deployPolicy;
+      if (setup.alertPolicy) state.alertPolicy = setup.alertPolicy;
+      state.activeSuite = state.activeSuite ?? setup.activeSuite ?? state.suites[0]?.name ?? null;
+    });
+  }
+
+  // Build the state from the files of earlier versions, null when there are none
+  private migrateLegacyFiles(): ManagerState | null {
+    const legacyPath = (name: string) => path.join(this.projectRoot, name);
+    const existing = Object.values(legacyFiles).filter((name) => fs.existsSync(legacyPath(name)));
+    if (existing.length === 0) return null;
+
+    const read = (name: string) => (fs.existsSync(legacyPath(name)) ? parseJson(legacyPath(name)) : null);
+    const state = emptyState();
+
+    const saved = read(legacyFiles.suites);
+    if (Array.isArray(saved?.suites)) {
+      state.suites = saved.suites;
+      state.activeSuite = saved.activeSuite ?? null;
+    } else if (saved?.folder) {
+      // savedFolder.json from the first versions held a single { folder, originalFolder } pair
+      const name = path.basename(saved.folder).replace(/[^A-Za-z0-9_-]/g, '-');
+      state.suites = [{ name, folder: saved.folder, originalFolder: saved.originalFolder ?? saved.folder, testMatch: defaultTestMatch, alertChannels: [] }];
+      state.activeSuite = name;
+    }
+
+    state.alertChannels = secretsToVariables(read(legacyFiles.alertChannels)?.channels ?? []);
+    const email = read(legacyFiles.email)?.email;
+    if (email && !state.alertChannels.some((channel) => channel.id === 'email-channel-1')) {
+      const { sendFailure, sendRecovery, sendDegraded } = defaultAlertPolicy.notifications;
+      state.alertChannels.unshift({ id: 'email-channel-1', type: 'email', sendFailure, sendRecovery, sendDegraded, settings: { address: email } });
+    }
+
+    state.syncManifests = read(legacyFiles.syncManifests) ?? {};
+    state.deployPolicy = { ...defaultDeployPolicy, ...(read(legacyFiles.deployPolicy) ?? {}) };
+    state.runHistory = read(legacyFiles.runHistory)?.runs ?? [];
+
+    const problems = validateState(state);
+    if (problems.length > 0) {
+      throw new StateError(existing.map(legacyPath).join(', '), [...problems, 'Fix or remove these files to continue.']);
+    }
+    this.write(state);
+
+    const legacyDir = path.join(path.dirname(this.filePath), 'legacy');
+    for (const name of existing) {
+      fs.moveSync(legacyPath(name), path.join(legacyDir, name), { overwrite: true });
+    }
+    console.log(`Moved ${existing.join(', ')} into ${path.relative(this.projectRoot, this.filePath)}.`);
+    return state;
+  }
+}
+
+// Suites, checks and profiles alerting on channels that don't exist, with messages like 'Suite "smoke" uses the unknown alert channel "slack-ops".'
+// Checkly would deploy them without those channels, so they are reported instead of left out
+export function unknownChannelReferences(state: Pick<ManagerState, 'suites' | 'checks' | 'profiles' | 'alertChannels'>) {
+  const ids = state.alertChannels.map((channel) => channel.id);
+  const unknown = (owner: string, channels: string[]) => channels
+    .filter((id) => !ids.includes(id))
+    .map((id) => ({ id, message: `${owner} uses the unknown alert channel "${id}".` }));
+  return [
+    ...state.suites.flatMap((suite) => unknown(`Suite "${suite.name}"`, suite.alertChannels)),
+    ...state.checks.flatMap((check) => unknown(`The check of ${check.suite}/${check.file}`, check.alertChannels)),
+    ...state.profiles.flatMap((profile) => unknown(`Profile "${profile.name}"`, profile.alertChannels)),
+  ];
+}
+
+// Everything wrong with a state, as 'suites[1].folder must be a string' style messages
+export function validateState(state: ManagerState) {
+  const problems: string[] = [];
+  const isString = (value: unknown) => typeof value === 'string';
+  const isBoolean = (value: unknown) => typeof value === 'boolean';
+  const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+  const expect = (ok: boolean, message: string) => {
+    if (!ok) problems.push(message);
+    return ok;
+  };
+
+  expect(state.activeSuite === null || isString(state.activeSuite), 'activeSuite must be a suite name or null');
+
+  if (expect(Array.isArray(state.suites), 'suites must be a list')) {
+    state.suites.forEach((suite, index) => {
+      if (!expect(isObject(suite), `suites[${index}] must be an object`)) return;
+      for (const key of ['name', 'originalFolder', 'folder', 'testMatch'] as const) {
+        expect(isString(suite[key]), `suites[${index}].${key} must be a string`);
+      }
+      expect(Array.isArray(suite.alertChannels) && suite.alertChannels.every(isString), `suites[${index}].alertChannels must be a list of channel ids`);
+    });
+    const names = state.suites.map((suite) => suite?.name);
+    expect(new Set(names).size === names.length, 'suites must have unique names');
+    if (state.activeSuite !== null) {
+      expect(names.includes(state.activeSuite), `activeSuite "${state.activeSuite}" is not one of the suites`);
+    }
+  }
+
+  if (expect(Array.isArray(state.alertChannels), 'alertChannels must be a list')) {
+    state.alertChannels.forEach((channel, index) => {
+      if (!expect(isObject(channel), `alertChannels[${index}] must be an object`)) return;
+      if (!expect(isString(channel.id), `alertChannels[${index}].id must be a string`)) return;
+      if (!expect(channel.type in alertChannelTypes, `alertChannels[${index}].type must be one of ${Object.keys(alertChannelTypes).join(', ')}`)) return;
+      const flagsOk = [channel.sendFailure, channel.sendRecovery, channel.sendDegraded].every(isBoolean) && [undefined, true, false].includes(channel.sslExpiry);
+      expect(flagsOk, `alertChannels[${index}] sendFailure, sendRecovery, sendDegraded and sslExpiry must be true or false`);
+      if (expect(isObject(channel.settings), `alertChannels[${index}].settings must be an object`)) {
+        validateAlertChannel(channel).forEach((problem) => problems.push(`alertChannels[${index}]: ${problem}`));
+      }
+    });
+  }
+
+  if (expect(Array.isArray(state.checks), 'checks must be a list')) {
+    state.checks.forEach((check, index) => {
+      if (!expect(isObject(check) && isString(check.suite) && isString(check.file), `checks[${index}] must name a suite and a spec file`)) return;
+      validateCheckSettings(check).forEach((problem) => problems.push(`checks[${index}]: ${problem}`));
+    });
+  }
+
+  if (expect(Array.isArray(state.profiles), 'profiles must be a list')) {
+    state.profiles.forEach((profile, index) => {
+      if (!expect(isObject(profile), `profiles[${index}] must be an object`)) return;
+      validateProfile(profile).forEach((problem) => problems.push(`profiles[${index}]: ${problem}`));
+    });
+    const names = state.profiles.map((profile) => profile?.name);
+    expect(new Set(names).size === names.length, 'profiles must have unique names');
+    if (state.activeProfile !== null) {
+      expect(names.includes(state.activeProfile), `activeProfile "${state.activeProfile}" is not one of the profiles`);
+    }
+  }
+
+  if (expect(Array.isArray(state.accounts), 'accounts must be a list')) {
+    state.accounts.forEach((account, index) => {
+      if (!expect(isObject(account), `accounts[${index}] must be an object`)) return;
+      validateAccount(account).forEach((problem) => problems.push(`accounts[${index}]: ${problem}`));
+    });
+    const names = state.accounts.map((account) => account?.name);
+    expect(new Set(names).size === names.length, 'accounts must have unique names');
+    if (state.activeAccount !== null) {
+      expect(names.includes(state.activeAccount), `activeAccount "${state.activeAccount}" is not one of the accounts`);
+    }
+  }
+
+  for (const assertValid of [() => assertValidPolicy(state.deployPolicy), () => assertValidAlertPolicy(state.alertPolicy)]) {
+    try {
+      assertValid();
+    } catch (error) {
+      problems.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  const manifestsOk = isObject(state.syncManifests)
+    && Object.values(state.syncManifests).every((hashes) => isObject(hashes) && Object.values(hashes).every(isString));
+  expect(manifestsOk, 'syncManifests must map test folders to file hashes');
+
+  if (expect(Array.isArray(state.runHistory), 'runHistory must be a list')) {
+    state.runHistory.forEach((run, index) => {
+      expect(isObject(run) && typeof run.id === 'number' && Array.isArray(run.results), `runHistory[${index}] must be a run with an id and results`);
+    });
+  }
+
+  if (expect(Array.isArray(state.deployments), 'deployments must be a list')) {
+    state.deployments.forEach((deployment, index) => {
+      expect(isObject(deployment) && typeof deployment.id === 'number' && isString(deployment.deployedAt), `deployments[${index}] must be a deployment with an id and a date`);
+    });
+  }
+
+  if (expect(Array.isArray(state.configBackups), 'configBackups must be a list')) {
+    state.configBackups.forEach((backup, index) => {
+      expect(isObject(backup) && typeof backup.id === 'number' && isString(backup.file) && isString(backup.snapshot), `configBackups[${index}] must be a backup with an id, a file and a snapshot`);
+    });
+  }
+  return problems;
+}
+
+// Bring a state or setup file up to the current version, throws for one written by a newer manager
+function migrate(data: StoredState, filePath: string) {
+  if (typeof data?.version === 'number' && data.version > stateVersion) {
+    throw new StateError(filePath, [`It was written by a newer version of the manager (state version ${data.version}). Update the manager to use it.`]);
+  }
+  let stored = data;
+  while (typeof stored?.version === 'number' && stored.version < stateVersion && migrations[stored.version]) {
+    stored = migrations[stored.version](stored);
+  }
+  return stored;
+}
+
+function parseJson(filePath: string) {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new StateError(filePath, [`It can't be read as JSON: ${error instanceof Error ? error.message : error}`]);
+  }
+}
@@ -0,0 +1,165 @@
+// suites.ts
+import path from 'path';
+import { AlertChannelConfig, alertChannelVariable, literal } from './alert-channel';
+import type { StateStore } from './state';
+import { findSpecFiles } from './discovery';
+import { EscalationSettings, renderEscalation } from './alert-policy';
+
+// A named set of Playwright specs, e.g. 'smoke' or 'checkout'
+export interface TestSuite {
+  name: string;
+  originalFolder: string; // Folder the specs are copied from
+  folder: string; // Mirrored copy inside the project
+  testMatch: string; // Glob for spec files, relative to the folder
+  alertChannels: string[]; // Alert channel ids, empty means every channel
+}
+
+interface SuitesFile {
+  activeSuite: string | null;
+  suites: TestSuite[];
+}
+
+// Playwright's own default: .spec and .test files in TypeScript or JavaScript
+export const defaultTestMatch = '**/*.{spec,test}.{ts,tsx,js,jsx,mjs,cjs}';
+
+// Saved test suites, kept in the state file between runs
+export class SuiteRegistry {
+  constructor(private readonly store: StateStore) {}
+
+  list() {
+    return this.load().suites;
+  }
+
+  get(name: string) {
+    return this.list().find((suite) => suite.name === name);
+  }
+
+  getActive() {
+    const { activeSuite, suites } = this.load();
+    return suites.find((suite) => suite.name === activeSuite) ?? null;
+  }
+
+  setActive(name: string) {
+    const data = this.load();
+    if (!data.suites.some((suite) => suite.name === name)) {
+      throw new Error(`No test suite named "${name}".`);
+    }
+    this.save({ ...data, activeSuite: name });
+  }
+
+  // Throws if the suite's name is invalid or its folder belongs to another suite
+  assertValid(suite: TestSuite) {
+    if (!/^[A-Za-z0-9_-]+$/.test(suite.name)) {
+      throw new Error(`Invalid suite name "${suite.name}". Use only letters, digits, _ and -.`);
+    }
+
+    const clash = this.list().find((other) => other.name !== suite.name && path.resolve(other.folder) === path.resolve(suite.folder));
+    if (clash) {
+      throw new Error(`Suite "${clash.name}" already uses the folder ${suite.folder}.`);
+    }
+  }
+
+  // Add a suite or replace the one with the same name
+  put(suite: TestSuite) {
+    this.assertValid(suite);
+
+    const data = this.load();
+    const index = data.suites.findIndex((existing) => existing.name === suite.name);
+    if (index === -1) {
+      data.suites.push(suite);
+    } else {
+      data.suites[index] = suite;
+    }
+    this.save(data);
+  }
+
+  // Remove a suite, the first remaining suite becomes active if it was the active one
+  remove(name: string) {
+    const data = this.load();
+    const suites = data.suites.filter((suite) => suite.name !== name);
+    if (suites.length === data.suites.length) return false;
+
+    const activeSuite = data.activeSuite === name ? suites[0]?.name ?? null : data.activeSuite;
+    this.save({ activeSuite, suites });
+    return true;
+  }
+
+  private load(): SuitesFile {
+    const { activeSuite, suites } = this.store.read();
+    return { activeSuite, suites };
+  }
+
+  private save(data: SuitesFile) {
+    this.store.update((state) => {
+      state.activeSuite = data.activeSuite;
+      state.suites = data.suites;
+    });
+  }
+}
+
+// Source of a check file declaring one CheckGroup per suite, written to `filePath`
+// Specs in `excluded` (per suite), e.g. those with their own check file, are left out of the group's testMatch
+// `escalation` is the alert policy's, checks without their own escalation inherit it from the group
+// `groupProps` are added to every group as code, e.g. the active profile's locations; a frequency is a Frequency constant
+export function renderSuitesModule(
+  filePath: string,
+  suites: TestSuite[],
+  channels: AlertChannelConfig[],
+  alertChannelsModule: string,
+  excluded: Record<string, string[]> = {},
+  escalation: EscalationSettings | null = null,
+  groupProps: Record<string, string> = {}
+) {
+  const dir = path.dirname(filePath);
+  const toPosix = (value: string) => value.split(path.sep).join('/');
+  const channelImport = toPosix(path.relative(dir, alertChannelsModule)).replace(/\.ts$/, '');
+
+  // Suites without their own channels alert on every channel
+  const channelsFor = (suite: TestSuite) => suite.alertChannels.length > 0
+    ? channels.filter((channel) => suite.alertChannels.includes(channel.id))
+    : channels;
+
+  const groups = suites.map((suite) => {
+    const suiteChannels = channelsFor(suite);
+    const folder = toPosix(path.relative(dir, suite.folder)) || '.';
+
+    // Once specs are excluded the remaining ones are listed, new specs are picked up on the next deploy
+    const excludedFiles = excluded[suite.name] ?? [];
+    const included = excludedFiles.length > 0 ? findSpecFiles(suite.folder, suite.testMatch).filter((file) => !excludedFiles.includes(file)) : null;
+    const testMatch = included === null
+      ? literal(`${folder}/${suite.testMatch}`)
+      : `[${included.map((file) => literal(`${folder}/${file}`)).join(', ')}]`;
+
+    return [
+      `export const ${groupVariable(suite)} = new CheckGroup('suite-${suite.name}', {`,
+      `  name: ${literal(suite.name)},`,
+      '  activated: true,',
+      ...(included?.length === 0 ? [] : [`  browserChecks: { testMatch: ${testMatch} },`]),
+      ...Object.entries(groupProps).map(([key, value]) => `  ${key}: ${value},`),
+      ...(escalation ? [`  alertEscalationPolicy: ${renderEscalation(escalation)},`] : []),
+      ...(suiteChannels.length > 0 ? [`  alertChannels: [${suiteChannels.map(alertChannelVariable).join(', ')}],`] : []),
+      '});',
+    ].join('\n');
+  });
+
+  const usedChannels = channels.filter((channel) => suites.some((suite) => channelsFor(suite).includes(channel)));
+  const constructs = [...(escalation ? ['AlertEscalationBuilder'] : []), 'CheckGroup', ...(groupProps.frequency ? ['Frequency'] : [])];
+  const lines = [
+    '// Generated by the Checkly Test Manager on deploy, one check group per test suite.',
+    '// Changes made to this file are overwritten.',
+    `import { ${constructs.join(', ')} } from 'checkly/constructs';`,
+    ...(usedChannels.length > 0
+      ? [`import { ${usedChannels.map(alertChannelVariable).join(', ')} } from '${channelImport.startsWith('.') ? channelImport : `./${channelImport}`}';`]
+      : []),
+    '',
+    groups.join('\n\n'),
+  ];
+  return `${lines.join('\n')}\n`;
+}
+
+// Variable name a suite's group is exported as, e.g. 'smoke' -> 'smokeSuite'
+export function groupVariable(suite: TestSuite) {
+  const words = suite.name.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  const name = words.map((word, index) => (index === 0 ? word.toLowerCase() : word[0].toUpperCase() + word.slice(1))).join('');
+  return `${/^[0-9]/.test(name) ? `suite${name}` : name}Suite`;
+}
@@ -0,0 +1,181 @@
+// sync.ts
+import fs from 'fs-extra';
+import path from 'path';
+import crypto from 'crypto';
+import type { StateStore } from './state';
+
+// How a file differs between the original folder and the test folder
+export type SyncStatus = 'added' | 'modified' | 'deleted' | 'unchanged' | 'conflict';
+
+// What to do with a file changed on both sides
+export type ConflictResolution = 'original' | 'test' | 'skip';
+
+export const conflictResolutions: ConflictResolution[] = ['original', 'test', 'skip'];
+
+export interface SyncEntry {
+  path: string; // Relative to both folders
+  status: SyncStatus;
+  localEdit: boolean; // Only the test folder copy changed, it is kept as is
+  sourceHash: string | null;
+  testHash: string | null;
+}
+
+export interface SyncResult {
+  copied: number;
+  removed: number;
+  kept: number; // Conflicts resolved in favour of the test folder
+  skipped: string[]; // Conflicts left unresolved
+}
+
+// Content hashes of every file at the last sync, per test folder
+type Manifest = Record<string, Record<string, string>>;
+
+const ignoredDirectories = ['node_modules', '.git'];
+
+// Compares the original and test folders against the hashes from the last sync
+export class SyncEngine {
+  constructor(readonly source: string, readonly destination: string, private readonly store: StateStore) {}
+
+  // Classify every file, or only those below `paths` (relative, files or directories)
+  plan(paths?: string[]): SyncEntry[] {
+    const base = this.loadManifest()[this.key()] ?? {};
+    const files = paths
+      ? new Set(paths.flatMap((relativePath) => [...this.expand(this.source, relativePath), ...this.expand(this.destination, relativePath)]))
+      : new Set([...listFiles(this.source), ...listFiles(this.destination)]);
+
+    return [...files].sort().map((relativePath) => {
+      const sourceHash = hashFile(path.join(this.source, relativePath));
+      const testHash = hashFile(path.join(this.destination, relativePath));
+      const baseHash = base[relativePath] ?? null;
+      const entry = { path: relativePath, sourceHash, testHash, localEdit: false };
+
+      if (sourceHash === testHash) return { ...entry, status: 'unchanged' as const };
+      if (testHash === baseHash) {
+        // Only the original changed, or the file was never synced to the test folder
+        const status = testHash === null ? 'added' : sourceHash === null ? 'deleted' : 'modified';
+        return { ...entry, status };
+      }
+      if (sourceHash === baseHash) return { ...entry, status: 'unchanged' as const, localEdit: true };
+      return { ...entry, status: 'conflict' as const };
+    });
+  }
+
+  // Apply a plan, `resolve` decides every conflict, then record the new hashes
+  async apply(plan: SyncEntry[], resolve: (entry: SyncEntry) => Promise<ConflictResolution> | ConflictResolution): Promise<SyncResult> {
+    const manifest = this.loadManifest();
+    const hashes = { ...(manifest[this.key()] ?? {}) };
+    const result: SyncResult = { copied: 0, removed: 0, kept: 0, skipped: [] };
+
+    for (const entry of plan) {
+      let resolution: ConflictResolution = 'original';
+      if (entry.status === 'conflict') {
+        resolution = await resolve(entry);
+      } else if (entry.status === 'unchanged') {
+        resolution = entry.localEdit ? 'test' : 'skip';
+      }
+
+      if (resolution === 'skip') {
+        if (entry.status === 'conflict') {
+          result.skipped.push(entry.path);
+        } else if (entry.sourceHash) {
+          hashes[entry.path] = entry.sourceHash; // identical on both sides
+        }
+        continue;
+      }
+      if (resolution === 'test') {
+        // The test folder copy wins until the original changes again
+        if (entry.status === 'conflict') result.kept++;
+        if (entry.sourceHash) {
+          hashes[entry.path] = entry.sourceHash;
+        } else {
+          delete hashes[entry.path];
+        }
+        continue;
+      }
+
+      const from = path.join(this.source, entry.path);
+      const to = path.join(this.destination, entry.path);
+      if (entry.sourceHash) {
+        fs.copySync(from, to);
+        hashes[entry.path] = entry.sourceHash;
+        result.copied++;
+      } else {
+        fs.removeSync(to);
+        this.removeEmptyDirectories(path.dirname(to));
+        delete hashes[entry.path];
+        result.removed++;
+      }
+    }
+
+    this.saveManifest({ ...manifest, [this.key()]: hashes });
+    return result;
+  }
+
+  private key() {
+    return path.resolve(this.destination);
+  }
+
+  // Files below a relative path, the path itself if it is a file
+  private expand(root: string, relativePath: string) {
+    const fullPath = path.join(root, relativePath);
+    if (!fs.existsSync(fullPath)) {
+      // Deleted on this side, still listed so the other side is compared
+      return [relativePath];
+    }
+    return fs.statSync(fullPath).isDirectory() ? listFiles(root, fullPath) : [relativePath];
+  }
+
+  // Clean up directories emptied by deletions, up to the test folder itself
+  private removeEmptyDirectories(dir: string) {
+    const root = path.resolve(this.destination);
+    let current = path.resolve(dir);
+    while (current.startsWith(root + path.sep) && fs.existsSync(current) && fs.readdirSync(current).length === 0) {
+      fs.rmdirSync(current);
+      current = path.dirname(current);
+    }
+  }
+
+  private loadManifest(): Manifest {
+    return this.store.read().syncManifests;
+  }
+
+  private saveManifest(manifest: Manifest) {
+    this.store.update((state) => {
+      state.syncManifests = manifest;
+    });
+  }
+}
+
+// Lines describing a plan, unchanged files are only counted
+export function describeSyncPlan(plan: SyncEntry[]) {
+  const markers: Record<SyncStatus, string> = { added: '+', modified: '~', deleted: '-', unchanged: ' ', conflict: '!' };
+  const lines = plan
+    .filter((entry) => entry.status !== 'unchanged' || entry.localEdit)
+    .map((entry) => entry.localEdit
+      ? `  ${entry.path} (changed in the test folder only, kept)`
+      : `${markers[entry.status]} ${entry.path}${entry.status === 'conflict' ? ' (changed in both folders)' : ''}`);
+
+  const count = (status: SyncStatus) => plan.filter((entry) => entry.status === status).length;
+  lines.push(`${count('added')} added, ${count('modified')} modified, ${count('deleted')} deleted, ${count('conflict')} conflicting, ${count('unchanged')} unchanged.`);
+  return lines;
+}
+
+// True when applying the plan would change the test folder or needs a decision
+export function hasSyncChanges(plan: SyncEntry[]) {
+  return plan.some((entry) => entry.status !== 'unchanged');
+}
+
+function hashFile(filePath: string) {
+  if (!fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) return null;
+  return crypto.createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+}
+
+// Every file below `dir`, relative to `root`
+function listFiles(root: string, dir = root): string[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    if (ignoredDirectories.includes(entry.name)) return [];
+    const fullPath = path.join(dir, entry.name);
+    return entry.isDirectory() ? listFiles(root, fullPath) : [path.relative(root, fullPath)];
+  });
+}
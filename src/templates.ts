@@ -0,0 +1,256 @@
+// templates.ts
+import fs from 'fs-extra';
+import path from 'path';
+import { literal } from './alert-channel';
+import { groupVariable, TestSuite } from './suites';
+
+// Kinds of checks the "New Check" flow can create
+export type ScaffoldType = 'browser' | 'multistep' | 'api' | 'heartbeat';
+
+// What an assertion checks, e.g. the status code of the response or a text on the page
+export type AssertionKind = 'status' | 'title' | 'text' | 'header' | 'responseTime';
+
+// One assertion of a new check, e.g. { kind: 'status', value: '200' }
+export interface ScaffoldAssertion {
+  kind: AssertionKind;
+  value: string; // 'content-type:json' for headers, milliseconds for the response time
+}
+
+// Everything a new check is created from
+export interface ScaffoldRequest {
+  type: ScaffoldType;
+  name: string;
+  url: string | null; // Not used by heartbeats
+  assertions: ScaffoldAssertion[];
+  template: string | null; // Project template name, null for the built-in template
+}
+
+// A template the project added to .checkly-manager/templates
+export interface ProjectTemplate {
+  name: string; // File name without .spec.ts or .check.ts
+  kind: 'spec' | 'check'; // Spec templates are used by browser and multistep checks, check templates by API and heartbeat checks
+  path: string;
+}
+
+// A file to create, relative to the suite folder
+export interface ScaffoldFile {
+  file: string;
+  content: string;
+}
+
+// Title, the kind of file the check is written as and the assertions every type supports
+export const scaffoldTypes: Record<ScaffoldType, { title: string; kind: ProjectTemplate['kind']; assertions: AssertionKind[] }> = {
+  browser: { title: 'Browser check (Playwright spec)', kind: 'spec', assertions: ['status', 'title', 'text'] },
+  multistep: { title: 'Multistep check (Playwright API requests)', kind: 'spec', assertions: ['status', 'text', 'header'] },
+  api: { title: 'API check', kind: 'check', assertions: ['status', 'text', 'header', 'responseTime'] },
+  heartbeat: { title: 'Heartbeat check (pinged by your jobs)', kind: 'check', assertions: [] },
+};
+
+// Used when no assertions are given, a page or endpoint that answers is the least a check should test
+const defaultAssertions: ScaffoldAssertion[] = [{ kind: 'status', value: '200' }];
+
+const header = '// Created by the Checkly Test Manager, edit it like any other file of the suite.';
+
+// 'status=200' -> { kind: 'status', value: '200' }, null when it isn't kind=value
+export function parseAssertion(value: string): ScaffoldAssertion | null {
+  const separator = value.indexOf('=');
+  if (separator <= 0) return null;
+  return { kind: value.slice(0, separator).trim() as AssertionKind, value: value.slice(separator + 1).trim() };
+}
+
+export function describeAssertion(assertion: ScaffoldAssertion) {
+  return `${assertion.kind}=${assertion.value}`;
+}
+
+// Problems with a request, empty when the check can be created
+export function validateScaffold(request: ScaffoldRequest) {
+  const problems: string[] = [];
+  const type = scaffoldTypes[request.type];
+  if (!type) {
+    return [`Unknown check type "${request.type}". Use one of: ${Object.keys(scaffoldTypes).join(', ')}.`];
+  }
+  if (!request.name?.trim() || !fileBase(request.name)) problems.push('The check needs a name with letters or digits.');
+  if (request.type !== 'heartbeat' && !/^https?:\/\/\S+$/.test(request.url ?? '')) {
+    problems.push('The target URL must start with http:// or https://.');
+  }
+
+  for (const assertion of request.assertions) {
+    if (!type.assertions.includes(assertion.kind)) {
+      problems.push(type.assertions.length > 0
+        ? `${describeAssertion(assertion)}: ${request.type} checks support ${type.assertions.join(', ')} assertions.`
+        : `${describeAssertion(assertion)}: ${request.type} checks have no assertions.`);
+    } else if (assertion.kind === 'status' && !/^[1-5][0-9]{2}$/.test(assertion.value)) {
+      problems.push(`${describeAssertion(assertion)}: the status must be an HTTP status code.`);
+    } else if (assertion.kind === 'responseTime' && !/^[1-9][0-9]*$/.test(assertion.value)) {
+      problems.push(`${describeAssertion(assertion)}: the response time must be a number of milliseconds.`);
+    } else if (assertion.kind === 'header' && !/^[^:\s]+:.+$/.test(assertion.value)) {
+      problems.push(`${describeAssertion(assertion)}: use header=<name>:<expected text>.`);
+    } else if (!assertion.value) {
+      problems.push(`${assertion.kind}: the assertion needs a value.`);
+    }
+  }
+  return problems;
+}
+
+// The files of a new check, relative to the suite folder; the spec comes first when there is one
+// `template` replaces the built-in template of the check's main file
+export function renderScaffold(request: ScaffoldRequest, suite: TestSuite, suitesModule: string, template?: ProjectTemplate): ScaffoldFile[] {
+  const base = fileBase(request.name);
+  const assertions = request.assertions.length > 0 || request.type === 'heartbeat' ? request.assertions : defaultAssertions;
+  const specFile = `${base}.spec.ts`;
+  const checkFile = `${base}.check.ts`;
+  const values = {
+    name: request.name.trim(),
+    url: request.url ?? '',
+    logicalId: `${request.type}-${suite.name}-${base}`.replace(/[^A-Za-z0-9_-]+/g, '-').toLowerCase(),
+    group: groupVariable(suite),
+    suitesModule: importPath(path.join(suite.folder, checkFile), suitesModule),
+    entrypoint: `./${specFile}`,
+  };
+
+  const main = scaffoldTypes[request.type].kind === 'spec' ? specFile : checkFile;
+  const content = template
+    ? fillTemplate(fs.readFileSync(template.path, 'utf-8'), values, assertionLines(request.type, assertions))
+    : builtInTemplate(request.type, values, assertionLines(request.type, assertions));
+  const files = [{ file: main, content }];
+
+  // Multistep specs are deployed by their own MultiStepCheck instead of the suite group's browser checks
+  if (request.type === 'multistep') {
+    files.push({ file: checkFile, content: builtInTemplate('multistep-check', values, []) });
+  }
+  return files;
+}
+
+// The templates in `folder`, sorted by name
+export function listProjectTemplates(folder: string): ProjectTemplate[] {
+  if (!fs.existsSync(folder)) return [];
+  return fs.readdirSync(folder)
+    .map((file) => {
+      const match = /^(.+)\.(spec|check)\.ts$/.exec(file);
+      return match ? { name: match[1], kind: match[2] as ProjectTemplate['kind'], path: path.join(folder, file) } : null;
+    })
+    .filter((template): template is ProjectTemplate => template !== null)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// 'Checkout Flow!' -> 'checkout-flow'
+export function fileBase(name: string) {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+type TemplateValues = Record<'name' | 'url' | 'logicalId' | 'group' | 'suitesModule' | 'entrypoint', string>;
+
+// Replaces {{name}}, {{url}}, {{logicalId}}, {{group}}, {{suitesModule}} and {{entrypoint}}
+// A line holding only {{assertions}}, or `// {{assertions}}` to keep the template valid TypeScript, becomes the assertions
+function fillTemplate(source: string, values: TemplateValues, assertions: string[]) {
+  return source
+    .replace(/^([ \t]*)(?:\/\/ *)?\{\{assertions\}\}[ \t]*\r?\n/gm, (_match, indent: string) => assertions.map((line) => `${indent}${line}\n`).join(''))
+    .replace(/\{\{(\w+)\}\}/g, (match, key: string) => (key in values ? values[key as keyof TemplateValues] : match));
+}
+
+// The assertions as Playwright expect() calls for specs, or AssertionBuilder entries for API checks
+function assertionLines(type: ScaffoldType, assertions: ScaffoldAssertion[]) {
+  return assertions.map(({ kind, value }) => {
+    const [headerName, ...expected] = value.split(':');
+    if (type === 'api') {
+      switch (kind) {
+        case 'status': return `AssertionBuilder.statusCode().equals(${value}),`;
+        case 'text': return `AssertionBuilder.textBody().contains(${literal(value)}),`;
+        case 'header': return `AssertionBuilder.headers(${literal(headerName.toLowerCase())}).contains(${literal(expected.join(':'))}),`;
+        default: return `AssertionBuilder.responseTime().lessThan(${value}),`;
+      }
+    }
+    switch (kind) {
+      case 'status': return `expect(response${type === 'browser' ? '?' : ''}.status()).toBe(${value});`;
+      case 'title': return `expect(await page.title()).toContain(${literal(value)});`;
+      case 'header': return `expect(response.headers()[${literal(headerName.toLowerCase())}]).toContain(${literal(expected.join(':'))});`;
+      default: return type === 'browser'
+        ? `await expect(page.getByText(${literal(value)}).first()).toBeVisible();`
+        : `expect(await response.text()).toContain(${literal(value)});`;
+    }
+  });
+}
+
+function builtInTemplate(template: ScaffoldType | 'multistep-check', values: TemplateValues, assertions: string[]) {
+  const indent = (spaces: number) => assertions.map((line) => `${' '.repeat(spaces)}${line}`);
+  const groupImport = `import { ${values.group} } from '${values.suitesModule}';`;
+  let lines: string[];
+
+  switch (template) {
+    case 'browser':
+      lines = [
+        "import { test, expect } from '@playwright/test';",
+        '',
+        `test(${literal(values.name)}, async ({ page }) => {`,
+        `  const response = await page.goto(${literal(values.url)});`,
+        ...indent(2),
+        '});',
+      ];
+      break;
+    case 'multistep':
+      lines = [
+        "import { test, expect } from '@playwright/test';",
+        '',
+        `test(${literal(values.name)}, async ({ request }) => {`,
+        `  await test.step(${literal(`GET ${values.url}`)}, async () => {`,
+        `    const response = await request.get(${literal(values.url)});`,
+        ...indent(4),
+        '  });',
+        '});',
+      ];
+      break;
+    case 'multistep-check':
+      lines = [
+        "import { MultiStepCheck } from 'checkly/constructs';",
+        groupImport,
+        '',
+        `new MultiStepCheck(${literal(values.logicalId)}, {`,
+        `  name: ${literal(values.name)},`,
+        `  group: ${values.group},`,
+        `  code: { entrypoint: ${literal(values.entrypoint)} },`,
+        '});',
+      ];
+      break;
+    case 'api':
+      lines = [
+        "import { ApiCheck, AssertionBuilder } from 'checkly/constructs';",
+        groupImport,
+        '',
+        `new ApiCheck(${literal(values.logicalId)}, {`,
+        `  name: ${literal(values.name)},`,
+        `  group: ${values.group},`,
+        '  request: {',
+        "    method: 'GET',",
+        `    url: ${literal(values.url)},`,
+        '    assertions: [',
+        ...indent(6),
+        '    ],',
+        '  },',
+        '});',
+      ];
+      break;
+    case 'heartbeat':
+      lines = [
+        "import { HeartbeatCheck } from 'checkly/constructs';",
+        groupImport,
+        '',
+        '// Ping the URL Checkly shows for this check at the end of every job run',
+        `new HeartbeatCheck(${literal(values.logicalId)}, {`,
+        `  name: ${literal(values.name)},`,
+        `  group: ${values.group},`,
+        '  period: 1,',
+        "  periodUnit: 'days',",
+        '  grace: 1,',
+        "  graceUnit: 'hours',",
+        '});',
+      ];
+      break;
+  }
+  return [header, ...lines, ''].join('\n');
+}
+
+// Import specifier of `target` from `file`, without the .ts extension
+function importPath(file: string, target: string) {
+  const relative = path.relative(path.dirname(file), target).split(path.sep).join('/').replace(/\.ts$/, '');
+  return relative.startsWith('.') ? relative : `./${relative}`;
+}
@@ -0,0 +1,102 @@
+// test-results.ts
+import fs from 'fs-extra';
+import path from 'path';
+import type { JSONReport, JSONReportSuite } from '@playwright/test/reporter';
+
+export type TestOutcome = 'passed' | 'failed' | 'flaky' | 'skipped';
+
+// One test of one Playwright project, e.g. 'login.spec.ts > logs in' on chromium
+export interface TestResult {
+  suite: string | null; // Test suite of the manager, null for a single folder
+  file: string;
+  title: string; // Describe blocks and test title joined with ' > '
+  project: string;
+  outcome: TestOutcome;
+  durationMs: number;
+  error?: string;
+}
+
+export interface TestTotals {
+  passed: number;
+  failed: number;
+  flaky: number;
+  skipped: number;
+  passRate: number; // Percentage of the tests that ran and passed, flaky tests count as passed
+}
+
+const outcomes: Record<string, TestOutcome> = {
+  expected: 'passed',
+  unexpected: 'failed',
+  flaky: 'flaky',
+  skipped: 'skipped',
+};
+
+// Flatten the JSON reporter output into one result per test and project
+export function readPlaywrightReport(reportPath: string, suite: string | null): TestResult[] {
+  const report: JSONReport = JSON.parse(fs.readFileSync(reportPath, 'utf-8'));
+  const results: TestResult[] = [];
+
+  const visit = (reportSuite: JSONReportSuite, titles: string[]) => {
+    for (const spec of reportSuite.specs) {
+      for (const test of spec.tests) {
+        const lastResult = test.results[test.results.length - 1];
+        results.push({
+          suite,
+          file: spec.file,
+          title: [...titles, spec.title].join(' > '),
+          project: test.projectName,
+          outcome: outcomes[test.status] ?? 'failed',
+          durationMs: test.results.reduce((total, result) => total + result.duration, 0),
+          ...(test.status === 'unexpected' && lastResult?.error?.message ? { error: firstLine(lastResult.error.message) } : {}),
+        });
+      }
+    }
+    // File level suites have the file name as title, only describe blocks are part of a test title
+    reportSuite.suites?.forEach((child) => visit(child, [...titles, child.title]));
+  };
+  report.suites.forEach((fileSuite) => visit(fileSuite, []));
+  return results;
+}
+
+export function countResults(results: TestResult[]): TestTotals {
+  const count = (outcome: TestOutcome) => results.filter((result) => result.outcome === outcome).length;
+  const passed = count('passed');
+  const failed = count('failed');
+  const flaky = count('flaky');
+  const ran = passed + failed + flaky;
+  return { passed, failed, flaky, skipped: count('skipped'), passRate: ran === 0 ? 100 : Math.round(((passed + flaky) / ran) * 1000) / 10 };
+}
+
+// Table of the results per spec file, failures and flaky tests listed below their file
+export function formatResults(results: TestResult[]) {
+  const lines: string[] = [];
+  const files = [...new Set(results.map((result) => specKey(result)))];
+  const width = Math.max(4, ...files.map((file) => file.length));
+
+  lines.push(`${'Spec'.padEnd(width)}  Passed  Failed  Flaky  Skipped`);
+  for (const file of files) {
+    const fileResults = results.filter((result) => specKey(result) === file);
+    const totals = countResults(fileResults);
+    const mark = totals.failed > 0 ? '✗' : totals.flaky > 0 ? '~' : '✓';
+    lines.push(`${file.padEnd(width)}  ${String(totals.passed).padStart(6)}  ${String(totals.failed).padStart(6)}  ${String(totals.flaky).padStart(5)}  ${String(totals.skipped).padStart(7)}  ${mark}`);
+
+    for (const result of fileResults.filter((fileResult) => fileResult.outcome === 'failed' || fileResult.outcome === 'flaky')) {
+      const project = result.project ? ` [${result.project}]` : '';
+      lines.push(`  ${result.outcome === 'failed' ? '✗' : '~'} ${result.title}${project}${result.error ? `: ${result.error}` : ''}`);
+    }
+  }
+
+  const totals = countResults(results);
+  lines.push(`${totals.passed} passed, ${totals.failed} failed, ${totals.flaky} flaky, ${totals.skipped} skipped (${totals.passRate}% pass rate).`);
+  return lines;
+}
+
+// 'checkout/cart.spec.ts' style key, prefixed with the suite when there are several
+export function specKey(result: Pick<TestResult, 'suite' | 'file'>) {
+  return result.suite ? `${result.suite}/${result.file.split(path.sep).join('/')}` : result.file.split(path.sep).join('/');
+}
+
+function firstLine(message: string) {
+  // Playwright error messages contain ANSI colours and multi-line diffs
+  return message.replace(/\u001b\[[0-9;]*m/g, '').split('\n')[0].trim();
+}
@@ -0,0 +1,288 @@
+// validation.ts
+import fs from 'fs-extra';
+import path from 'path';
+import ts from 'typescript'; // Specs are parsed for their imports, not run
+import { builtinModules } from 'module';
+import { ConfigEditError, ConfigEditor } from './config-editor';
+import { findSpecFiles } from './discovery';
+import { checklyRuntimes } from './project-settings';
+import { unknownChannelReferences } from './state';
+import type { AlertChannelConfig } from './alert-channel';
+import type { CheckSettings } from './checks';
+import type { Profile } from './profiles';
+import type { TestSuite } from './suites';
+
+export type Severity = 'error' | 'warning';
+
+// One problem found before deploying, errors block the deploy
+export interface Diagnostic {
+  severity: Severity;
+  rule: string; // e.g. 'local-import', see `rules`
+  file: string; // Relative to the project root
+  line: number | null;
+  message: string;
+}
+
+// What a validation run looks at, all paths absolute
+export interface ValidationTarget {
+  projectRoot: string;
+  checklyConfigPath: string;
+  playwrightConfigPath: string;
+  statePath: string;
+  suites: TestSuite[];
+  checks: CheckSettings[];
+  profiles: Profile[];
+  alertChannels: AlertChannelConfig[];
+}
+
+// The rules and what they check
+export const rules: Record<string, string> = {
+  'checkly-config': 'checkly.config.ts exists, parses and has a projectName, a logicalId and a checks object',
+  'playwright-config': 'playwright.config.ts exists, parses and its testDir exists',
+  'suite-folder': 'The folders of every suite exist and have spec files',
+  'local-import': 'Files imported by the specs exist inside the project, so Checkly can bundle them',
+  'dependency': "npm packages imported by the specs are available in Checkly's runtime and in package.json",
+  'alert-channel': 'The suites, checks and profiles only alert on channels that exist',
+};
+
+// npm packages each Checkly runtime added, a runtime has its own and those of the runtimes before it
+const runtimePackageAdditions: Record<string, string[]> = {
+  '2023.09': [
+    '@axe-core/playwright', '@faker-js/faker', '@playwright/test', 'aws4', 'axios', 'btoa', 'chai', 'chai-string',
+    'crypto-js', 'date-fns', 'date-fns-tz', 'dotenv', 'expect', 'form-data', 'jsdom', 'jsonwebtoken', 'lodash', 'moment',
+    'node-fetch', 'otpauth', 'playwright', 'uuid', 'ws', 'xml2js',
+  ],
+  '2024.02': ['@opentelemetry/api', 'ethers', 'jose', 'luxon', 'mocha', 'pdf2json', 'pg', 'protobufjs', 'twilio'],
+  '2024.09': ['@azure/identity', '@azure/keyvault-secrets', '@clerk/testing'],
+  '2025.04': [],
+};
+const runtimePackagePrefixes = ['@aws-sdk/']; // every AWS SDK v3 client, in every runtime
+
+// Extensions tried, in order, for an import without one
+const importExtensions = ['', '.ts', '.tsx', '.js', '.mjs', '.cjs', '.json', '/index.ts', '/index.js'];
+const parsedExtensions = /\.[cm]?[jt]sx?$/;
+
+// Check the config files, the suite folders and what the specs import
+export function validateProject(target: ValidationTarget): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const report = (severity: Severity, rule: string, file: string, line: number | null, message: string) => {
+    diagnostics.push({ severity, rule, file: relativePath(target.projectRoot, file), line, message });
+  };
+
+  const runtimeId = validateChecklyConfig(target.checklyConfigPath, report);
+  const runtime = { id: runtimeId, packages: runtimePackages(runtimeId) };
+  validatePlaywrightConfig(target.playwrightConfigPath, report);
+
+  const stateText = fs.existsSync(target.statePath) ? fs.readFileSync(target.statePath, 'utf-8') : '';
+  const packageNames = readPackageNames(target.projectRoot);
+  const visited = new Set<string>();
+
+  for (const suite of target.suites) {
+    // Folders are reported where the state file saves them
+    const folderLine = lineOf(stateText, JSON.stringify(suite.folder));
+    if (!fs.existsSync(suite.folder)) {
+      report('error', 'suite-folder', target.statePath, folderLine, `The folder of suite "${suite.name}" does not exist: ${suite.folder}`);
+      continue;
+    }
+    if (!fs.existsSync(suite.originalFolder)) {
+      report('warning', 'suite-folder', target.statePath, lineOf(stateText, JSON.stringify(suite.originalFolder)), `The original folder of suite "${suite.name}" does not exist, it can't be synced: ${suite.originalFolder}`);
+    }
+
+    const specs = findSpecFiles(suite.folder, suite.testMatch);
+    if (specs.length === 0) {
+      report('warning', 'suite-folder', target.statePath, folderLine, `Suite "${suite.name}" has no spec files matching ${suite.testMatch}.`);
+    }
+    for (const spec of specs) {
+      validateImports(path.join(suite.folder, ...spec.split('/')), target.projectRoot, runtime, packageNames, visited, report);
+    }
+  }
+
+  for (const { id, message } of unknownChannelReferences(target)) {
+    report('error', 'alert-channel', target.statePath, lineOf(stateText, JSON.stringify(id)), message);
+  }
+  return diagnostics;
+}
+
+// Whether the diagnostics allow a deploy
+export function hasErrors(diagnostics: Diagnostic[]) {
+  return diagnostics.some((diagnostic) => diagnostic.severity === 'error');
+}
+
+// e.g. 'tests/login.spec.ts:3: error: Cannot find ./helpers [local-import]'
+export function formatDiagnostic(diagnostic: Diagnostic) {
+  const location = diagnostic.line ? `${diagnostic.file}:${diagnostic.line}` : diagnostic.file;
+  return `${location}: ${diagnostic.severity}: ${diagnostic.message} [${diagnostic.rule}]`;
+}
+
+// The diagnostics, errors first, and a count of both
+export function formatDiagnostics(diagnostics: Diagnostic[]) {
+  const sorted = [...diagnostics].sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+  const errors = diagnostics.filter((diagnostic) => diagnostic.severity === 'error').length;
+  return [...sorted.map(formatDiagnostic), `${errors} error(s), ${diagnostics.length - errors} warning(s).`];
+}
+
+type Runtime = { id: string; packages: string[] };
+
+type Report = (severity: Severity, rule: string, file: string, line: number | null, message: string) => void;
+
+// The runtime the checks run on, the newest one when the config doesn't set a known one
+function validateChecklyConfig(configPath: string, report: Report) {
+  const newest = checklyRuntimes[checklyRuntimes.length - 1];
+  const editor = loadConfig(configPath, 'checkly-config', report);
+  if (!editor) return newest;
+
+  const configLine = editor.getLine([]) ?? null;
+  for (const property of ['projectName', 'logicalId']) {
+    if (!editor.getString([property])) {
+      report('error', 'checkly-config', configPath, configLine, `The config has no ${property}, checkly deploy needs one.`);
+    }
+  }
+  if (editor.getValue(['checks']) === undefined) {
+    report('error', 'checkly-config', configPath, configLine, 'The config has no checks object, the suites, locations and alert channels are written into it.');
+  }
+
+  const runtimeId = editor.getString(['checks', 'runtimeId']);
+  if (runtimeId === undefined) return newest;
+  if (!checklyRuntimes.includes(runtimeId)) {
+    report('warning', 'checkly-config', configPath, editor.getLine(['checks', 'runtimeId']) ?? null, `Unknown runtime "${runtimeId}", imports are checked against the packages of ${newest}.`);
+    return newest;
+  }
+  return runtimeId;
+}
+
+// The packages available in a runtime, with those of the runtimes before it
+function runtimePackages(runtimeId: string) {
+  return checklyRuntimes.slice(0, checklyRuntimes.indexOf(runtimeId) + 1).flatMap((id) => runtimePackageAdditions[id] ?? []);
+}
+
+function validatePlaywrightConfig(configPath: string, report: Report) {
+  const editor = loadConfig(configPath, 'playwright-config', report);
+  if (!editor) return;
+
+  const testDir = editor.getString(['testDir']);
+  if (testDir === undefined) {
+    report('warning', 'playwright-config', configPath, editor.getLine(['testDir']) ?? editor.getLine([]) ?? null, 'testDir is not set to a folder, Playwright looks for specs in the whole project.');
+  } else if (!fs.existsSync(path.resolve(path.dirname(configPath), testDir))) {
+    report('error', 'playwright-config', configPath, editor.getLine(['testDir']) ?? null, `testDir points at a folder that does not exist: ${testDir}`);
+  }
+}
+
+// The config's editor, null after reporting why it can't be used
+function loadConfig(configPath: string, rule: string, report: Report) {
+  if (!fs.existsSync(configPath)) {
+    report('error', rule, configPath, null, 'The file does not exist.');
+    return null;
+  }
+  try {
+    const editor = ConfigEditor.load(configPath);
+    editor.getConfigObject();
+    return editor;
+  } catch (error) {
+    if (error instanceof ConfigEditError) {
+      report('error', rule, configPath, error.line ?? null, error.reason);
+    } else {
+      report('error', rule, configPath, null, error instanceof Error ? error.message : String(error));
+    }
+    return null;
+  }
+}
+
+// Check the imports of a spec or of a local file it imports, following local imports once each
+function validateImports(file: string, projectRoot: string, runtime: Runtime, packageNames: Set<string> | null, visited: Set<string>, report: Report) {
+  if (visited.has(file)) return;
+  visited.add(file);
+
+  const source = fs.readFileSync(file, 'utf-8');
+  for (const imported of runtimeImports(file, source)) {
+    const specifier = imported.text;
+    const line = lineAt(source, imported.getStart());
+
+    if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+      const resolved = resolveLocalImport(path.resolve(path.dirname(file), specifier));
+      if (!resolved) {
+        report('error', 'local-import', file, line, `Cannot find "${specifier}".`);
+      } else if (!isInside(projectRoot, resolved)) {
+        report('error', 'local-import', file, line, `"${specifier}" is outside the project, Checkly only bundles files inside ${projectRoot}.`);
+      } else if (parsedExtensions.test(resolved)) {
+        validateImports(resolved, projectRoot, runtime, packageNames, visited, report);
+      }
+      continue;
+    }
+
+    const name = packageName(specifier);
+    if (specifier.startsWith('node:') || builtinModules.includes(name)) continue;
+    if (!runtime.packages.includes(name) && !runtimePackagePrefixes.some((prefix) => name.startsWith(prefix))) {
+      report('error', 'dependency', file, line, `"${name}" is not available in Checkly's runtime ${runtime.id}, checks importing it fail.`);
+    } else if (packageNames && !packageNames.has(name)) {
+      report('warning', 'dependency', file, line, `"${name}" is not in package.json, local Playwright runs can't import it.`);
+    }
+  }
+}
+
+// Module specifiers of the imports and exports left after compiling, require() calls and import() with a string.
+// `import type`, `export type` and imports of only types are erased, so Checkly never loads them
+function runtimeImports(file: string, source: string) {
+  const specifiers: ts.StringLiteralLike[] = [];
+  const onlyTypes = (elements: ts.NodeArray<ts.ImportSpecifier | ts.ExportSpecifier>) => elements.length > 0 && elements.every((element) => element.isTypeOnly);
+  const visit = (node: ts.Node) => {
+    if (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier)) {
+      const clause = node.importClause;
+      const typesOnly = clause && (clause.isTypeOnly || (!clause.name && clause.namedBindings && ts.isNamedImports(clause.namedBindings) && onlyTypes(clause.namedBindings.elements)));
+      if (!typesOnly) specifiers.push(node.moduleSpecifier);
+    } else if (ts.isExportDeclaration(node) && node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)) {
+      const typesOnly = node.isTypeOnly || (node.exportClause && ts.isNamedExports(node.exportClause) && onlyTypes(node.exportClause.elements));
+      if (!typesOnly) specifiers.push(node.moduleSpecifier);
+    } else if (ts.isImportEqualsDeclaration(node) && ts.isExternalModuleReference(node.moduleReference) && ts.isStringLiteral(node.moduleReference.expression)) {
+      if (!node.isTypeOnly) specifiers.push(node.moduleReference.expression);
+    } else if (ts.isCallExpression(node) && node.arguments.length === 1 && ts.isStringLiteralLike(node.arguments[0])
+      && (node.expression.kind === ts.SyntaxKind.ImportKeyword || (ts.isIdentifier(node.expression) && node.expression.text === 'require'))) {
+      specifiers.push(node.arguments[0]);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(ts.createSourceFile(file, source, ts.ScriptTarget.Latest, true));
+  return specifiers;
+}
+
+// The file an import without an extension points at, undefined when there is none
+function resolveLocalImport(target: string) {
+  return importExtensions.map((extension) => target + extension).find((candidate) => fs.existsSync(candidate) && fs.statSync(candidate).isFile());
+}
+
+// 'lodash/fp' -> 'lodash', '@faker-js/faker/locale/de' -> '@faker-js/faker'
+function packageName(specifier: string) {
+  const parts = specifier.split('/');
+  return specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+}
+
+// Dependencies and devDependencies of the project, null without a package.json
+function readPackageNames(projectRoot: string) {
+  const packagePath = path.join(projectRoot, 'package.json');
+  if (!fs.existsSync(packagePath)) return null;
+  try {
+    const manifest = fs.readJsonSync(packagePath);
+    return new Set([...Object.keys(manifest.dependencies ?? {}), ...Object.keys(manifest.devDependencies ?? {})]);
+  } catch {
+    return null; // an unreadable package.json is npm's problem, not a reason to skip the other rules
+  }
+}
+
+function isInside(folder: string, file: string) {
+  const relative = path.relative(folder, file);
+  return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+function relativePath(projectRoot: string, file: string) {
+  return isInside(projectRoot, file) ? path.relative(projectRoot, file).split(path.sep).join('/') : file;
+}
+
+// 1-based line of a position in `text`
+function lineAt(text: string, position: number) {
+  return text.slice(0, position).split('\n').length;
+}
+
+// Line of the first occurrence of `needle`, null when it isn't there
+function lineOf(text: string, needle: string) {
+  const position = text.indexOf(needle);
+  return position === -1 ? null : lineAt(text, position);
+}
@@ -0,0 +1,120 @@
+// watcher.ts
+import fs from 'fs-extra';
+import path from 'path';
+import readline from 'readline';
+import { CommandRunner, describeFailure, succeeded } from './process-runner';
+import { SyncEngine } from './sync';
+
+export interface WatchOptions {
+  debounceMs?: number; // Quiet period before a batch of changes is applied
+  runTests?: boolean; // Re-run changed .spec.ts files through Playwright
+  cwd?: string; // Directory Playwright runs in, the current one when not set
+  env?: NodeJS.ProcessEnv; // Added to Playwright's environment, e.g. the profile's BASE_URL
+}
+
+const ignoredDirectories = ['node_modules', '.git'];
+
+// Mirrors every change in the original folder into the test folder while it runs
+export class FolderWatcher {
+  private watcher: fs.FSWatcher | null = null;
+  private pending = new Set<string>(); // Changed paths relative to the source, '' means everything
+  private timer: NodeJS.Timeout | null = null;
+  private testRun: Promise<void> = Promise.resolve();
+  private queuedSpecs = new Set<string>();
+
+  constructor(private readonly engine: SyncEngine, private readonly runner: CommandRunner, private readonly options: WatchOptions = {}) {}
+
+  start() {
+    const source = path.resolve(this.engine.source);
+    const destination = path.resolve(this.engine.destination);
+    if (destination === source || destination.startsWith(source + path.sep)) {
+      throw new Error(`The test folder ${this.engine.destination} is inside ${this.engine.source} and can't mirror it.`);
+    }
+
+    this.watcher = fs.watch(source, { recursive: true }, (_event, filename) => {
+      // Some platforms don't report the file name, sync everything then
+      this.queue(filename ? filename.toString() : '');
+    });
+    this.watcher.on('error', (error) => this.log(`! Watcher error: ${error.message}`));
+    this.log(`Watching ${this.engine.source} -> ${this.engine.destination}`);
+  }
+
+  // Stop watching, waits for a running flush and test run to finish
+  async stop() {
+    this.watcher?.close();
+    this.watcher = null;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+      await this.flush();
+    }
+    await this.testRun;
+  }
+
+  private queue(relativePath: string) {
+    if (relativePath.split(path.sep).some((part) => ignoredDirectories.includes(part))) return;
+
+    this.pending.add(relativePath);
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush().catch((error) => this.log(`! ${error instanceof Error ? error.message : error}`));
+    }, this.options.debounceMs ?? 300);
+  }
+
+  // Apply the queued changes, a rename arrives as a removed and an added path
+  private async flush() {
+    const paths = [...this.pending];
+    this.pending.clear();
+
+    const plan = this.engine.plan(paths.includes('') ? undefined : paths);
+    await this.engine.apply(plan, () => 'skip'); // conflicts wait for `sync`
+    const markers = { added: '+', modified: '~', deleted: '-', conflict: '!' };
+    for (const entry of plan) {
+      if (entry.status === 'unchanged') continue;
+      const note = entry.status === 'conflict' ? ' (changed in both folders), skipped. Run sync to resolve it.' : '';
+      this.log(`${markers[entry.status]} ${entry.status} ${entry.path}${note}`);
+    }
+
+    if (this.options.runTests) {
+      const specs = plan
+        .filter((entry) => (entry.status === 'added' || entry.status === 'modified') && entry.path.endsWith('.spec.ts'))
+        .map((entry) => path.join(this.engine.destination, entry.path));
+      if (specs.length > 0) this.runSpecs(specs);
+    }
+  }
+
+  // Runs one Playwright process at a time, specs changed meanwhile are run next
+  private runSpecs(specs: string[]) {
+    specs.forEach((spec) => this.queuedSpecs.add(path.relative(this.options.cwd ?? process.cwd(), spec)));
+    this.testRun = this.testRun.then(async () => {
+      const files = [...this.queuedSpecs];
+      this.queuedSpecs.clear();
+      if (files.length === 0) return;
+
+      this.log(`Running ${files.length} changed spec file(s): ${files.join(', ')}`);
+      const result = await this.runner.run('npx', ['playwright', 'test', ...files], { label: 'playwright-watch', cwd: this.options.cwd, env: this.options.env });
+      this.log(succeeded(result) ? 'Tests passed.' : `Tests failed (${describeFailure(result)}).`);
+    });
+  }
+
+  private log(message: string) {
+    console.log(`[${new Date().toLocaleTimeString()}] ${message}`);
+  }
+}
+
+// Resolves on Ctrl+C, or on Enter when `stopOnEnter` is set, so a watch can run until the user stops it
+export function waitForStop(stopOnEnter: boolean) {
+  return new Promise<void>((resolve) => {
+    const input = stopOnEnter ? readline.createInterface({ input: process.stdin }) : null;
+    const done = () => {
+      input?.close();
+      process.off('SIGINT', done);
+      process.off('SIGTERM', done);
+      resolve();
+    };
+    input?.once('line', done);
+    process.once('SIGINT', done);
+    process.once('SIGTERM', done);
+  });
+}